@@ -4,6 +4,10 @@
  * This file contains functions for generating Mermaid diagrams from GitHub repository data.
  */
 
+import { globToRegExp } from '../utils/local-repo.js';
+import { ClassInfo, ClassRelationship } from '../utils/typescript-analyzer.js';
+import { analyzeCodeDependencies, getLanguageAnalyzer, getLanguageAnalyzers } from '../utils/language-analyzers.js';
+
 /**
  * Generate a diagram from GitHub repository data.
  * 
@@ -11,7 +15,7 @@
  * based on the repository structure and the specified diagram type.
  * 
  * @param {string} diagramType - The type of diagram to generate
- * @param {string} owner - The repository owner
+ * @param {string} owner - The repository owner, or '' if it is unknown
  * @param {string} repo - The repository name
  * @param {any} repoData - The repository data from GitHub API
  * @returns {string} The Mermaid syntax code for the diagram
@@ -51,7 +55,7 @@ export function generateRepoFlowchart(owner: string, repo: string, repoData: any
   let diagram = 'flowchart TD\n';
   
   // Add repository as the main node
-  diagram += `    Repo[${owner}/${repo}]\n`;
+  diagram += `    Repo["${formatRepoName(owner, repo)}${repoData.path ? `/${repoData.path}` : ''}"]\n`;
   
   // Add top-level directories and files
   if (repoData.contents && Array.isArray(repoData.contents)) {
@@ -92,16 +96,27 @@ export function generateRepoFlowchart(owner: string, repo: string, repoData: any
   // Add code dependencies if we have code files
   if (repoData.codeFiles && repoData.codeFiles.length > 0) {
     // Analyze imports and dependencies between files
-    const dependencies = analyzeCodeDependencies(repoData.codeFiles);
+    const dependencies = analyzeCodeDependencies(repoData.codeFiles, repoData.configFiles || []);
     
-    // Add dependencies to the diagram
-    for (const dep of dependencies) {
-      // Create simplified file names for the diagram
-      const fromFile = dep.from.split('/').pop() || dep.from;
-      const toFile = dep.to.split('/').pop() || dep.to;
+    if (dependencies.length > 0) {
+      // Node ids are derived from the full path, so files with the same name do not collide
+      const modules = new Set<string>();
+      for (const dep of dependencies) {
+        modules.add(dep.from);
+        modules.add(dep.to);
+      }
       
-      // Add the dependency to the diagram
-      diagram += `    ${fromFile} --> ${toFile}: imports\n`;
+      diagram += `    subgraph Modules [Module dependencies]\n`;
+      for (const modulePath of modules) {
+        diagram += `        ${toModuleId(modulePath)}["${modulePath}"]\n`;
+      }
+      diagram += `    end\n`;
+      
+      // Add the dependencies to the diagram; re-exports are dotted
+      for (const dep of dependencies) {
+        const arrow = dep.isReExport ? '-.->|re-exports|' : '-->|imports|';
+        diagram += `    ${toModuleId(dep.from)} ${arrow} ${toModuleId(dep.to)}\n`;
+      }
     }
   }
   
@@ -117,7 +132,7 @@ export function generateRepoFlowchart(owner: string, repo: string, repoData: any
  * @returns {string} The Mermaid syntax code for the pie chart
  */
 export function generateRepoLanguagePieChart(owner: string, repo: string, repoData: any): string {
-  let diagram = `pie title Language Distribution for ${owner}/${repo}\n`;
+  let diagram = `pie title Language Distribution for ${formatRepoName(owner, repo)}\n`;
   
   // Add language data
   if (repoData.languages && Object.keys(repoData.languages).length > 0) {
@@ -150,35 +165,83 @@ export function generateRepoClassDiagram(owner: string, repo: string, repoData:
   
   // If we have code files, analyze them to extract classes and relationships
   if (repoData.codeFiles && repoData.codeFiles.length > 0) {
-    const { classes, relationships } = extractClassesFromCode(repoData.codeFiles);
+    const { classes, relationships } = extractClassesFromCode(repoData.codeFiles, repoData.configFiles || []);
+    
+    // Classes sharing a name are told apart by the file declaring them, and labeled with it
+    const nameCounts = new Map<string, number>();
+    for (const cls of classes) {
+      nameCounts.set(cls.name, (nameCounts.get(cls.name) || 0) + 1);
+    }
+    const isAmbiguous = (cls: ClassInfo) => (nameCounts.get(cls.name) as number) > 1 && cls.path !== undefined;
+    const classId = (cls: ClassInfo) => isAmbiguous(cls) ? `${cls.name}_${(cls.path as string).replace(/[^A-Za-z0-9]/g, '_')}` : cls.name;
+    
+    // Types that are not declared in the analyzed files keep their name, unless a class has it
+    const externalTypes = new Set<string>();
+    const endpointId = (name: string, path?: string) => {
+      const cls = classes.find(candidate => candidate.name === name && candidate.path === path);
+      if (cls) {
+        return classId(cls);
+      }
+      if (!nameCounts.has(name)) {
+        return name;
+      }
+      externalTypes.add(name);
+      return `${name}_external`;
+    };
     
     // Add classes to the diagram
     for (const cls of classes) {
-      diagram += `    class ${cls.name} {\n`;
+      const generics = cls.typeParameters && cls.typeParameters.length > 0 ? `~${cls.typeParameters.join(', ')}~` : '';
+      const label = isAmbiguous(cls) ? `["${cls.name} (${cls.path})"]` : '';
+      diagram += `    class ${classId(cls)}${generics}${label} {\n`;
       
-      // Add properties
+      if (cls.annotation) {
+        diagram += `        <<${cls.annotation}>>\n`;
+      }
+      
+      // Add properties; enumeration values have no type
       for (const prop of cls.properties) {
-        const visibility = prop.visibility || '+';
-        diagram += `        ${visibility}${prop.type} ${prop.name}\n`;
+        const visibility = cls.annotation === 'enumeration' ? '' : (prop.visibility || '+');
+        const type = prop.type ? `${prop.type} ` : '';
+        diagram += `        ${visibility}${type}${prop.name}${prop.isStatic ? '$' : ''}\n`;
       }
       
-      // Add methods
+      // Add methods with their parameters and return types
       for (const method of cls.methods) {
         const visibility = method.visibility || '+';
-        diagram += `        ${visibility}${method.name}()\n`;
+        const parameters = (method.parameters || [])
+          .map(param => param.type ? `${param.name}: ${param.type}` : param.name)
+          .join(', ');
+        const returnType = method.returnType ? ` ${method.returnType}` : '';
+        const classifier = method.isAbstract ? '*' : (method.isStatic ? '$' : '');
+        diagram += `        ${visibility}${method.name}(${parameters})${returnType}${classifier}\n`;
       }
       
       diagram += `    }\n`;
     }
     
-    // Add relationships to the diagram
+    // Add relationships to the diagram; inheritance points from the supertype
+    let relationshipLines = '';
     for (const rel of relationships) {
-      diagram += `    ${rel.from} ${rel.type} ${rel.to}`;
+      const from = endpointId(rel.from, rel.fromPath);
+      const to = endpointId(rel.to, rel.toPath);
+      if (rel.type === '<|--' || rel.type === '<|..') {
+        relationshipLines += `    ${to} ${rel.type} ${from}`;
+      } else {
+        const cardinality = rel.cardinality ? ` "${rel.cardinality}"` : '';
+        relationshipLines += `    ${from} ${rel.type}${cardinality} ${to}`;
+      }
       if (rel.label) {
-        diagram += ` : ${rel.label}`;
+        relationshipLines += ` : ${rel.label}`;
       }
-      diagram += '\n';
+      relationshipLines += '\n';
     }
+    
+    // External types named like a class are drawn apart from it
+    for (const name of externalTypes) {
+      diagram += `    class ${name}_external["${name}"]\n`;
+    }
+    diagram += relationshipLines;
   } else {
     // Fallback to a generic repository class diagram
     diagram += `    class Repository {
@@ -211,23 +274,62 @@ export function generateRepoClassDiagram(owner: string, repo: string, repoData:
 /**
  * Generate a C4 diagram from GitHub repository data.
  * 
+ * Containers are inferred from the repository contents: Docker Compose
+ * services, Dockerfiles, `package.json` workspaces, database client
+ * dependencies and outbound HTTP calls. If none can be inferred, a system
+ * context diagram of the repository is returned instead.
+ * 
  * @param {string} owner - The repository owner
  * @param {string} repo - The repository name
  * @param {any} repoData - The repository data from GitHub API
  * @returns {string} The Mermaid syntax code for the C4 diagram
  */
 export function generateRepoC4Diagram(owner: string, repo: string, repoData: any): string {
-  // For now, return a placeholder C4 diagram
-  // In a real implementation, this would analyze the repository code to identify systems and components
-  return `C4Context
+  const description = (repoData.info?.description || 'A software system').replace(/"/g, "'");
+  const { containers, relationships } = inferContainers(repo, repoData);
+  
+  if (containers.length === 0) {
+    return `C4Context
     title System Context diagram for ${repo}
-    Enterprise_Boundary(b0, "${owner}") {
-      Person(user, "User", "A user of the system")
-      System(system, "${repo}", "${repoData.info?.description || 'A software system'}")
+    Person(user, "User", "A user of the system")
+    System(system, "${repo}", "${description}")
+    Rel(user, system, "Uses")`;
+  }
+  
+  const renderContainer = (container: InferredContainer): string => {
+    const technology = container.technology ? `, "${container.technology.replace(/"/g, "'")}"` : '';
+    switch (container.kind) {
+      case 'database':
+        return `ContainerDb(${container.id}, "${container.name}"${technology})`;
+      case 'queue':
+        return `ContainerQueue(${container.id}, "${container.name}"${technology})`;
+      case 'external':
+        return `System_Ext(${container.id}, "${container.name}"${technology})`;
+      default:
+        return `Container(${container.id}, "${container.name}"${technology})`;
     }
-    System_Ext(external, "External System", "An external system that ${repo} interacts with")
-    Rel(user, system, "Uses")
-    Rel(system, external, "Calls API")`;
+  };
+  
+  let diagram = 'C4Container\n';
+  diagram += `    title Container diagram for ${repo}\n`;
+  diagram += `    Person(user, "User", "A user of the system")\n`;
+  
+  diagram += `    System_Boundary(system, "${formatRepoName(owner, repo)}") {\n`;
+  for (const container of containers.filter(c => c.kind !== 'external')) {
+    diagram += `      ${renderContainer(container)}\n`;
+  }
+  diagram += `    }\n`;
+  
+  for (const container of containers.filter(c => c.kind === 'external')) {
+    diagram += `    ${renderContainer(container)}\n`;
+  }
+  
+  for (const rel of relationships) {
+    const technology = rel.technology ? `, "${rel.technology}"` : '';
+    diagram += `    Rel(${rel.from}, ${rel.to}, "${rel.label}"${technology})\n`;
+  }
+  
+  return diagram;
 }
 
 /**
@@ -281,236 +383,58 @@ export function generateRepoSequenceDiagram(owner: string, repo: string, repoDat
 }
 
 /**
- * Analyze code dependencies between files.
+ * Format the name of a repository, with its owner if it is known.
  *
- * This function analyzes the code files to identify dependencies
- * (imports, requires, etc.) between files.
+ * @param {string} owner - The repository owner, or '' for local repositories without a remote
+ * @param {string} repo - The repository name
+ * @returns {string} The name to show in diagrams
+ */
+function formatRepoName(owner: string, repo: string): string {
+  return owner ? `${owner}/${repo}` : repo;
+}
+
+/**
+ * Convert a file path to a stable Mermaid node id.
  *
- * @param {Array<{path: string, content: string, language: string}>} codeFiles - The code files to analyze
- * @returns {Array<{from: string, to: string}>} An array of dependencies
+ * @param {string} filePath - The file path
+ * @returns {string} The node id
  */
-function analyzeCodeDependencies(codeFiles: Array<{path: string, content: string, language: string}>): Array<{from: string, to: string}> {
-  const dependencies: Array<{from: string, to: string}> = [];
-  
-  // Map of file paths to simplified names (without extension)
-  const fileMap = new Map<string, string>();
-  for (const file of codeFiles) {
-    const simpleName = file.path.split('/').pop()?.split('.')[0] || file.path;
-    fileMap.set(simpleName, file.path);
-  }
-  
-  // Analyze each file for imports/requires
-  for (const file of codeFiles) {
-    const fromPath = file.path;
-    
-    // Different import patterns based on language
-    if (file.language === 'javascript' || file.language === 'typescript') {
-      // Look for ES6 imports
-      const importRegex = /import\s+(?:{[^}]*}|\*\s+as\s+\w+|\w+)\s+from\s+['"]([^'"]+)['"]/g;
-      let match;
-      while ((match = importRegex.exec(file.content)) !== null) {
-        const importPath = match[1];
-        
-        // Handle relative imports
-        if (importPath.startsWith('./') || importPath.startsWith('../')) {
-          // Resolve the relative path (simplified)
-          const importName = importPath.split('/').pop() || importPath;
-          
-          // Check if this import refers to one of our files
-          if (fileMap.has(importName)) {
-            dependencies.push({
-              from: fromPath,
-              to: fileMap.get(importName) || importPath
-            });
-          }
-        }
-      }
-      
-      // Look for CommonJS requires
-      const requireRegex = /(?:const|let|var)\s+(?:{[^}]*}|\w+)\s*=\s*require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
-      while ((match = requireRegex.exec(file.content)) !== null) {
-        const requirePath = match[1];
-        
-        // Handle relative requires
-        if (requirePath.startsWith('./') || requirePath.startsWith('../')) {
-          // Resolve the relative path (simplified)
-          const requireName = requirePath.split('/').pop() || requirePath;
-          
-          // Check if this require refers to one of our files
-          if (fileMap.has(requireName)) {
-            dependencies.push({
-              from: fromPath,
-              to: fileMap.get(requireName) || requirePath
-            });
-          }
-        }
-      }
-    } else if (file.language === 'python') {
-      // Look for Python imports
-      const importRegex = /(?:from\s+([^\s]+)\s+import|import\s+([^\s]+))/g;
-      let match;
-      while ((match = importRegex.exec(file.content)) !== null) {
-        const importPath = match[1] || match[2];
-        
-        // Check if this import refers to one of our files
-        if (fileMap.has(importPath)) {
-          dependencies.push({
-            from: fromPath,
-            to: fileMap.get(importPath) || importPath
-          });
-        }
-      }
-    }
-    // Add more language-specific import patterns as needed
-  }
-  
-  return dependencies;
+function toModuleId(filePath: string): string {
+  return `M_${filePath.replace(/[^A-Za-z0-9_]/g, '_')}`;
 }
 
 /**
  * Extract classes and their relationships from code files.
  *
  * This function analyzes the code files to identify classes, their properties,
- * methods, and relationships between classes.
+ * methods, and relationships between classes. The files of each language are
+ * passed to the language analyzer together, since types may refer to types
+ * declared in other files.
  *
  * @param {Array<{path: string, content: string, language: string}>} codeFiles - The code files to analyze
- * @returns {{classes: Array<{name: string, properties: Array<{name: string, type: string, visibility?: string}>, methods: Array<{name: string, visibility?: string}>}>, relationships: Array<{from: string, to: string, type: string, label?: string}>}} Classes and relationships
+ * @param {Array<{path: string, content: string}>} configFiles - The configuration files of the repository
+ * @returns {{classes: ClassInfo[], relationships: ClassRelationship[]}} Classes and relationships
  */
-function extractClassesFromCode(codeFiles: Array<{path: string, content: string, language: string}>): {
-  classes: Array<{
-    name: string,
-    properties: Array<{name: string, type: string, visibility?: string}>,
-    methods: Array<{name: string, visibility?: string}>
-  }>,
-  relationships: Array<{from: string, to: string, type: string, label?: string}>
+function extractClassesFromCode(
+  codeFiles: Array<{path: string, content: string, language: string}>,
+  configFiles: Array<{path: string, content: string}> = []
+): {
+  classes: ClassInfo[],
+  relationships: ClassRelationship[]
 } {
-  const classes: Array<{
-    name: string,
-    properties: Array<{name: string, type: string, visibility?: string}>,
-    methods: Array<{name: string, visibility?: string}>
-  }> = [];
-  
-  const relationships: Array<{from: string, to: string, type: string, label?: string}> = [];
+  const classes: ClassInfo[] = [];
+  const relationships: ClassRelationship[] = [];
+  const context = { codeFiles, configFiles };
   
-  // Analyze each file for classes
-  for (const file of codeFiles) {
-    if (file.language === 'javascript' || file.language === 'typescript') {
-      // Look for ES6 classes
-      const classRegex = /class\s+(\w+)(?:\s+extends\s+(\w+))?\s*{([^}]*)}/gs;
-      let classMatch;
-      
-      while ((classMatch = classRegex.exec(file.content)) !== null) {
-        const className = classMatch[1];
-        const parentClass = classMatch[2]; // May be undefined
-        const classBody = classMatch[3];
-        
-        // Create a new class
-        const cls = {
-          name: className,
-          properties: [] as Array<{name: string, type: string, visibility?: string}>,
-          methods: [] as Array<{name: string, visibility?: string}>
-        };
-        
-        // Look for properties
-        const propertyRegex = /(?:public|private|protected)?\s*(\w+)\s*(?::\s*(\w+))?/g;
-        let propertyMatch;
-        
-        while ((propertyMatch = propertyRegex.exec(classBody)) !== null) {
-          const propName = propertyMatch[1];
-          const propType = propertyMatch[2] || 'any';
-          
-          // Skip if this is actually a method
-          if (classBody.includes(`${propName}(`)) {
-            continue;
-          }
-          
-          // Add the property
-          cls.properties.push({
-            name: propName,
-            type: propType
-          });
-        }
-        
-        // Look for methods
-        const methodRegex = /(?:(public|private|protected))?\s*(\w+)\s*\([^)]*\)/g;
-        let methodMatch;
-        
-        while ((methodMatch = methodRegex.exec(classBody)) !== null) {
-          const visibility = methodMatch[1];
-          const methodName = methodMatch[2];
-          
-          // Add the method
-          cls.methods.push({
-            name: methodName,
-            visibility: visibility
-          });
-        }
-        
-        // Add the class
-        classes.push(cls);
-        
-        // Add inheritance relationship if there's a parent class
-        if (parentClass) {
-          relationships.push({
-            from: className,
-            to: parentClass,
-            type: '<|--',
-            label: 'extends'
-          });
-        }
-      }
-    } else if (file.language === 'python') {
-      // Look for Python classes
-      const classRegex = /class\s+(\w+)(?:\(([^)]+)\))?\s*:/g;
-      let classMatch;
-      
-      while ((classMatch = classRegex.exec(file.content)) !== null) {
-        const className = classMatch[1];
-        const parentClasses = classMatch[2]; // May be undefined
-        
-        // Create a new class
-        const cls = {
-          name: className,
-          properties: [] as Array<{name: string, type: string, visibility?: string}>,
-          methods: [] as Array<{name: string, visibility?: string}>
-        };
-        
-        // Look for methods (simplified)
-        const methodRegex = /def\s+(\w+)\s*\([^)]*\)/g;
-        let methodMatch;
-        
-        while ((methodMatch = methodRegex.exec(file.content)) !== null) {
-          const methodName = methodMatch[1];
-          
-          // Skip dunder methods
-          if (methodName.startsWith('__') && methodName.endsWith('__')) {
-            continue;
-          }
-          
-          // Add the method
-          cls.methods.push({
-            name: methodName
-          });
-        }
-        
-        // Add the class
-        classes.push(cls);
-        
-        // Add inheritance relationships if there are parent classes
-        if (parentClasses) {
-          const parents = parentClasses.split(',').map(p => p.trim());
-          for (const parent of parents) {
-            relationships.push({
-              from: className,
-              to: parent,
-              type: '<|--',
-              label: 'inherits'
-            });
-          }
-        }
-      }
+  for (const analyzer of getLanguageAnalyzers()) {
+    const files = codeFiles.filter(file => file.language === analyzer.language);
+    if (!analyzer.detectTypes || files.length === 0) {
+      continue;
     }
-    // Add more language-specific class extraction as needed
+    
+    const result = analyzer.detectTypes(files, context);
+    classes.push(...result.classes);
+    relationships.push(...result.relationships);
   }
   
   return { classes, relationships };
@@ -556,27 +480,19 @@ function extractInteractionsFromCode(codeFiles: Array<{path: string, content: st
       continue;
     }
     
-    // Look for method calls to other components
-    for (const component of components) {
-      if (component === fileName) {
-        continue;
-      }
-      
-      // Look for instances of the component being used
-      const componentRegex = new RegExp(`${component}\\.(\\w+)`, 'g');
-      let match;
-      
-      while ((match = componentRegex.exec(file.content)) !== null) {
-        const methodName = match[1];
-        
-        // Add the interaction
-        interactions.push({
-          from: fileName,
-          to: component,
-          message: `${methodName}()`,
-          response: 'response'
-        });
-      }
+    // Look for method calls to other components, as the language writes them
+    const analyzer = getLanguageAnalyzer(file.language);
+    const otherComponents = Array.from(components).filter(component => component !== fileName);
+    const calls = analyzer?.detectCalls ? analyzer.detectCalls(file, otherComponents) : [];
+    
+    for (const call of calls) {
+      // Add the interaction
+      interactions.push({
+        from: fileName,
+        to: call.to,
+        message: `${call.method}()`,
+        response: 'response'
+      });
     }
   }
   
@@ -596,4 +512,388 @@ function extractInteractionsFromCode(codeFiles: Array<{path: string, content: st
   }
   
   return interactions;
-}
\ No newline at end of file
+}
+
+/**
+ * A container, database or external system inferred from repository contents.
+ */
+interface InferredContainer {
+  id: string;
+  name: string;
+  kind: 'container' | 'database' | 'queue' | 'external';
+  technology?: string;
+  // Directory of the container's sources, relative to the repository root
+  dir?: string;
+  // Whether users reach the container directly (a web frontend or published port)
+  public?: boolean;
+}
+
+// Docker images and client packages, mapped to the technology they provide
+const DATABASE_IMAGES: Array<[RegExp, string, 'database' | 'queue']> = [
+  [/postgres|postgis/, 'PostgreSQL', 'database'],
+  [/mysql/, 'MySQL', 'database'],
+  [/mariadb/, 'MariaDB', 'database'],
+  [/mongo/, 'MongoDB', 'database'],
+  [/redis|valkey/, 'Redis', 'database'],
+  [/elasticsearch|opensearch/, 'Elasticsearch', 'database'],
+  [/cassandra/, 'Cassandra', 'database'],
+  [/rabbitmq/, 'RabbitMQ', 'queue'],
+  [/kafka/, 'Kafka', 'queue'],
+  [/nats/, 'NATS', 'queue']
+];
+
+const DATABASE_CLIENTS: Record<string, string> = {
+  'pg': 'PostgreSQL', 'postgres': 'PostgreSQL', 'pg-promise': 'PostgreSQL', 'psycopg2': 'PostgreSQL', 'asyncpg': 'PostgreSQL',
+  'mysql': 'MySQL', 'mysql2': 'MySQL', 'pymysql': 'MySQL',
+  'mongoose': 'MongoDB', 'mongodb': 'MongoDB', 'pymongo': 'MongoDB',
+  'redis': 'Redis', 'ioredis': 'Redis',
+  'sqlite3': 'SQLite', 'better-sqlite3': 'SQLite'
+};
+
+const HTTP_CLIENTS = ['axios', 'node-fetch', 'got', 'superagent', 'undici', 'ky', 'cross-fetch', 'requests', 'httpx', 'aiohttp'];
+
+const FRAMEWORKS: Array<[string, string, boolean]> = [
+  ['next', 'Next.js', true],
+  ['react', 'React', true],
+  ['vue', 'Vue', true],
+  ['@angular/core', 'Angular', true],
+  ['svelte', 'Svelte', true],
+  ['@nestjs/core', 'NestJS', false],
+  ['express', 'Express', false],
+  ['fastify', 'Fastify', false],
+  ['koa', 'Koa', false]
+];
+
+const BASE_IMAGES: Array<[RegExp, string]> = [
+  [/^node\b/, 'Node.js'],
+  [/^python\b/, 'Python'],
+  [/^golang\b/, 'Go'],
+  [/^(?:openjdk|eclipse-temurin|amazoncorretto|maven|gradle)\b/, 'Java'],
+  [/^(?:mcr\.microsoft\.com\/dotnet|dotnet)/, '.NET'],
+  [/^ruby\b/, 'Ruby'],
+  [/^php\b/, 'PHP'],
+  [/^nginx\b/, 'Nginx']
+];
+
+/**
+ * Parse the services of a Docker Compose file.
+ *
+ * Only the keys needed for container inference are read: `image`, `build`
+ * (or its `context`), `depends_on` and whether `ports` are published.
+ *
+ * @param {string} content - The Docker Compose file content
+ * @returns {Array<{name: string, image?: string, build?: string, dependsOn: string[], ports: boolean}>} The services
+ */
+function parseComposeServices(content: string): Array<{name: string, image?: string, build?: string, dependsOn: string[], ports: boolean}> {
+  const services: Array<{name: string, image?: string, build?: string, dependsOn: string[], ports: boolean}> = [];
+  const unquote = (value: string) => value.trim().replace(/^['"]|['"]$/g, '');
+  let inServices = false;
+  let serviceIndent = -1;
+  let keyIndent = -1;
+  let entryIndent = -1;
+  let section = '';
+  let current: {name: string, image?: string, build?: string, dependsOn: string[], ports: boolean} | undefined;
+  
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').replace(/\t/g, '  ');
+    const text = line.trim();
+    if (!text || text.startsWith('#')) {
+      continue;
+    }
+    const indent = line.length - line.trimStart().length;
+    
+    // Top-level keys: only `services:` is of interest
+    if (indent === 0) {
+      inServices = text === 'services:';
+      current = undefined;
+      continue;
+    }
+    if (!inServices) {
+      continue;
+    }
+    
+    // Service names are the keys directly below `services:`
+    if (serviceIndent === -1 || indent <= serviceIndent) {
+      const nameMatch = text.match(/^['"]?([\w.-]+)['"]?:$/);
+      serviceIndent = indent;
+      current = nameMatch ? { name: nameMatch[1], dependsOn: [], ports: false } : undefined;
+      if (current) {
+        services.push(current);
+      }
+      keyIndent = -1;
+      section = '';
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    
+    if (keyIndent === -1) {
+      keyIndent = indent;
+    }
+    const keyMatch = text.match(/^([\w.-]+):\s*(.*)$/);
+    if (indent === keyIndent && keyMatch) {
+      const [, key, value] = keyMatch;
+      section = key;
+      entryIndent = -1;
+      if (key === 'image' && value) {
+        current.image = unquote(value);
+      } else if (key === 'build' && value) {
+        current.build = unquote(value);
+      } else if (key === 'ports') {
+        current.ports = true;
+      } else if (key === 'depends_on' && value.startsWith('[')) {
+        current.dependsOn.push(...value.replace(/[[\]]/g, '').split(',').map(unquote).filter(Boolean));
+      }
+      continue;
+    }
+    
+    // Entries of the current section; deeper keys such as `condition:` are skipped
+    if (entryIndent === -1) {
+      entryIndent = indent;
+    }
+    if (indent !== entryIndent) {
+      continue;
+    }
+    if (section === 'build' && keyMatch && keyMatch[1] === 'context') {
+      current.build = unquote(keyMatch[2]);
+    } else if (section === 'depends_on') {
+      const dependency = text.match(/^-\s*(.+)$/) || text.match(/^['"]?([\w.-]+)['"]?:\s*$/);
+      if (dependency) {
+        current.dependsOn.push(unquote(dependency[1]));
+      }
+    }
+  }
+  
+  return services;
+}
+
+/**
+ * Infer the containers of a repository and the relationships between them.
+ *
+ * @param {string} repo - The repository name
+ * @param {any} repoData - The repository data from GitHub API
+ * @returns {{containers: InferredContainer[], relationships: Array<{from: string, to: string, label: string, technology?: string}>}} Containers and relationships
+ */
+function inferContainers(repo: string, repoData: any): {
+  containers: InferredContainer[],
+  relationships: Array<{from: string, to: string, label: string, technology?: string}>
+} {
+  const containers: InferredContainer[] = [];
+  const relationships: Array<{from: string, to: string, label: string, technology?: string}> = [];
+  const configFiles: Array<{path: string, content: string}> = repoData.configFiles || [];
+  const codeFiles: Array<{path: string, content: string, language: string}> = repoData.codeFiles || [];
+  
+  const toId = (name: string) => name.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(\d)/, '_$1');
+  const dirname = (filePath: string) => filePath.includes('/') ? filePath.substring(0, filePath.lastIndexOf('/')) : '';
+  const normalize = (dirPath: string) => dirPath.split('/').reduce((parts: string[], part) => {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+    return parts;
+  }, []).join('/');
+  const addRelationship = (from: string, to: string, label: string, technology?: string) => {
+    if (from !== to && !relationships.some(rel => rel.from === from && rel.to === to)) {
+      relationships.push({ from, to, label, technology });
+    }
+  };
+  
+  // The container whose sources contain a file: the one with the longest matching directory
+  const findOwner = (filePath: string): InferredContainer | undefined => {
+    const owners = containers.filter(container => container.dir !== undefined &&
+      (container.dir === '' || filePath === container.dir || filePath.startsWith(`${container.dir}/`)));
+    return owners.sort((a, b) => (b.dir as string).length - (a.dir as string).length)[0];
+  };
+  
+  // Docker Compose services
+  for (const file of configFiles.filter(f => /(?:^|\/)(?:docker-)?compose[^/]*\.ya?ml$/i.test(f.path))) {
+    const services = parseComposeServices(file.content);
+    for (const service of services) {
+      const image = (service.image || '').toLowerCase();
+      const database = DATABASE_IMAGES.find(([pattern]) => pattern.test(image));
+      containers.push({
+        id: toId(service.name),
+        name: service.name,
+        kind: database ? database[2] : 'container',
+        technology: database ? database[1] : (service.image && !service.build ? service.image : undefined),
+        dir: service.build !== undefined ? normalize(`${dirname(file.path)}/${service.build}`) : undefined,
+        public: service.ports && !database
+      });
+    }
+    for (const service of services) {
+      for (const dependency of service.dependsOn) {
+        const target = containers.find(container => container.name === dependency);
+        if (target) {
+          addRelationship(toId(service.name), target.id, target.kind === 'container' ? 'Uses' : 'Reads from and writes to');
+        }
+      }
+    }
+  }
+  
+  // Dockerfiles: one container per directory, using the base image as technology
+  for (const file of configFiles.filter(f => /(?:^|\/)(?:Dockerfile[^/]*|[^/]+\.dockerfile)$/i.test(f.path))) {
+    const dir = dirname(file.path);
+    const fromMatches = Array.from(file.content.matchAll(/^\s*FROM\s+(?:--platform=\S+\s+)?(\S+)/gim));
+    // The last stage is the one that runs
+    const baseImage = fromMatches.length > 0 ? fromMatches[fromMatches.length - 1][1].toLowerCase() : '';
+    const baseTechnology = BASE_IMAGES.find(([pattern]) => pattern.test(baseImage));
+    const technology = baseTechnology ? baseTechnology[1] : (baseImage ? baseImage.split(':')[0] : undefined);
+    
+    const existing = containers.find(container => container.dir === dir);
+    if (existing) {
+      existing.technology = existing.technology || technology;
+    } else if (!containers.some(container => container.kind === 'container' && container.dir === undefined && dir === '')) {
+      const name = dir ? dir.split('/').pop() as string : repo;
+      containers.push({
+        id: toId(containers.some(container => container.id === toId(name)) ? `${dir}_${name}` : name),
+        name,
+        kind: 'container',
+        technology,
+        dir,
+        public: baseTechnology?.[1] === 'Nginx'
+      });
+    }
+  }
+  
+  // package.json manifests: workspaces become containers, dependencies reveal technologies and clients
+  const manifests = configFiles
+    .filter(f => /(?:^|\/)package\.json$/.test(f.path))
+    .map(f => {
+      try {
+        return { dir: dirname(f.path), json: JSON.parse(f.content) };
+      } catch (error) {
+        return undefined;
+      }
+    })
+    .filter((manifest): manifest is {dir: string, json: any} => !!manifest && typeof manifest.json === 'object');
+  
+  const rootManifest = manifests.find(manifest => manifest.dir === '');
+  const workspaceGlobs: string[] = Array.isArray(rootManifest?.json.workspaces)
+    ? rootManifest?.json.workspaces
+    : (rootManifest?.json.workspaces?.packages || []);
+  const workspaceMatchers = workspaceGlobs.map(glob => globToRegExp(glob.replace(/\/$/, '')));
+  
+  const clientUsage = new Map<string, {databases: Set<string>, http: boolean}>();
+  for (const manifest of manifests) {
+    const dependencies = { ...(manifest.json.dependencies || {}), ...(manifest.json.peerDependencies || {}) };
+    const dependencyNames = Object.keys(dependencies);
+    const framework = FRAMEWORKS.find(([pkg]) => dependencyNames.includes(pkg));
+    const isWorkspace = workspaceMatchers.some(matcher => matcher.test(manifest.dir));
+    
+    let container = containers.find(c => c.dir === manifest.dir);
+    if (!container && (isWorkspace || (manifest.dir === '' && workspaceMatchers.length === 0 && !containers.some(c => c.kind === 'container')))) {
+      const name = manifest.json.name || (manifest.dir ? manifest.dir.split('/').pop() as string : repo);
+      container = {
+        id: toId(name.replace(/^@[^/]+\//, '')),
+        name,
+        kind: 'container',
+        dir: manifest.dir
+      };
+      containers.push(container);
+    }
+    if (!container) {
+      continue;
+    }
+    
+    if (framework) {
+      container.technology = container.technology && container.technology !== 'Node.js'
+        ? container.technology : framework[1];
+      container.public = container.public || framework[2];
+    } else {
+      container.technology = container.technology || 'Node.js';
+    }
+    
+    const usage = clientUsage.get(container.id) || { databases: new Set<string>(), http: false };
+    for (const dependency of dependencyNames) {
+      if (DATABASE_CLIENTS[dependency]) {
+        usage.databases.add(DATABASE_CLIENTS[dependency]);
+      }
+      if (HTTP_CLIENTS.includes(dependency)) {
+        usage.http = true;
+      }
+    }
+    clientUsage.set(container.id, usage);
+  }
+  
+  // Code files: database clients and outbound HTTP calls
+  const appContainers = () => containers.filter(container => container.kind === 'container' && container.dir !== undefined);
+  const externalHosts = new Map<string, Set<string>>();
+  for (const file of codeFiles) {
+    const importedModules = new Set<string>();
+    const importRegex = /(?:from\s+['"]([^'"]+)['"]|require\s*\(\s*['"]([^'"]+)['"]\s*\)|^\s*import\s+([\w.]+)|^\s*from\s+([\w.]+)\s+import)/gm;
+    let match;
+    while ((match = importRegex.exec(file.content)) !== null) {
+      importedModules.add((match[1] || match[2] || match[3] || match[4]).split(/[./]/)[0] || (match[1] || match[2]));
+    }
+    
+    const databases = Array.from(importedModules).filter(module => DATABASE_CLIENTS[module]).map(module => DATABASE_CLIENTS[module]);
+    const usesHttp = Array.from(importedModules).some(module => HTTP_CLIENTS.includes(module)) || /\bfetch\s*\(/.test(file.content);
+    if (databases.length === 0 && !usesHttp) {
+      continue;
+    }
+    
+    let owner = findOwner(file.path) || (appContainers().length === 1 ? appContainers()[0] : undefined);
+    if (!owner && appContainers().length === 0) {
+      owner = { id: toId(repo), name: repo, kind: 'container', technology: getLanguageAnalyzer(file.language)?.displayName, dir: '' };
+      containers.push(owner);
+    }
+    if (!owner) {
+      continue;
+    }
+    
+    const usage = clientUsage.get(owner.id) || { databases: new Set<string>(), http: false };
+    databases.forEach(database => usage.databases.add(database));
+    clientUsage.set(owner.id, usage);
+    
+    if (usesHttp) {
+      usage.http = true;
+      const hosts = externalHosts.get(owner.id) || new Set<string>();
+      const urlRegex = /['"`](https?):\/\/([\w.-]+\.[a-z]{2,})(?::\d+)?(?:[/'"`?$])/gi;
+      while ((match = urlRegex.exec(file.content)) !== null) {
+        const host = match[2].toLowerCase();
+        if (!/(?:^|\.)(?:localhost|example\.(?:com|org)|w3\.org|schemas\.\w+)$/.test(host)) {
+          hosts.add(`${match[1].toUpperCase()} ${host}`);
+        }
+      }
+      externalHosts.set(owner.id, hosts);
+    }
+  }
+  
+  // Databases used through client libraries, shared with the Compose services where possible
+  for (const [containerId, usage] of clientUsage) {
+    for (const database of usage.databases) {
+      let target = containers.find(container => container.kind === 'database' && container.technology === database);
+      if (!target) {
+        target = { id: toId(`${database}_db`), name: database, kind: 'database', technology: database };
+        containers.push(target);
+      }
+      addRelationship(containerId, target.id, 'Reads from and writes to');
+    }
+    
+    if (usage.http) {
+      const hosts = Array.from(externalHosts.get(containerId) || []);
+      if (hosts.length === 0) {
+        hosts.push('HTTPS External APIs');
+      }
+      for (const entry of hosts) {
+        const [protocol, host] = [entry.substring(0, entry.indexOf(' ')), entry.substring(entry.indexOf(' ') + 1)];
+        let target = containers.find(container => container.kind === 'external' && container.name === host);
+        if (!target) {
+          target = { id: toId(`ext_${host}`), name: host, kind: 'external' };
+          containers.push(target);
+        }
+        addRelationship(containerId, target.id, 'Makes API calls to', protocol);
+      }
+    }
+  }
+  
+  // Users reach the public containers, or the first application container
+  const entryPoints = containers.filter(container => container.kind === 'container' && container.public);
+  const userTargets = entryPoints.length > 0 ? entryPoints : containers.filter(container => container.kind === 'container').slice(0, 1);
+  relationships.unshift(...userTargets.map(container => ({ from: 'user', to: container.id, label: 'Uses' })));
+  
+  return { containers, relationships };
+}
+
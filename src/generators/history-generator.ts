@@ -0,0 +1,536 @@
+/**
+ * Repository History Generator
+ *
+ * This file contains functions for generating Mermaid diagrams from the
+ * commit history of a repository.
+ */
+
+import { ArchitectureSnapshot, CommitGraph, GraphCommit } from '../utils/git-memory.js';
+import { FileHotspot, HotspotAnalysis } from '../utils/hotspot-analyzer.js';
+import { isOwnerContributor, OwnershipAnalysis } from '../utils/ownership-analyzer.js';
+
+/**
+ * Generate a gitGraph diagram of the branches and merges of a repository.
+ *
+ * Every commit is drawn on a branch lane. Each branch claims the commits of
+ * its first-parent chain that no earlier branch claimed, starting with the
+ * default branch. Commits only reachable through merges are drawn on a lane
+ * named after the merged branch, as given by the merge message. Merge commits
+ * are drawn as `merge` commands and tagged commits carry their tags.
+ *
+ * @param {CommitGraph} graph - The commit graph of the repository
+ * @param {Set<string>} highlighted - SHAs of commits to highlight, such as the commits changing a file
+ * @returns {string} The Mermaid syntax code for the diagram
+ * @throws {Error} If the graph has no commits
+ */
+export function generateBranchGitGraph(graph: CommitGraph, highlighted: Set<string> = new Set()): string {
+  if (graph.commits.length === 0) {
+    throw new Error('The repository has no commits');
+  }
+
+  const commits = new Map(graph.commits.map(commit => [commit.sha, commit]));
+  const lanes = assignBranchLanes(graph, commits);
+  const order = sortTopologically(graph.commits, commits);
+  const mainLane = toBranchName(graph.defaultBranch);
+
+  // Lanes are created when their fork point is drawn, lanes without one at the start
+  const forkPoints = new Map<string, string[]>();
+  const rootLanes: string[] = [];
+  const seenLanes = new Set<string>([mainLane]);
+  for (const commit of order) {
+    const lane = lanes.get(commit.sha);
+    if (seenLanes.has(lane)) {
+      continue;
+    }
+    seenLanes.add(lane);
+    const fork = commit.parents.find(parent => commits.has(parent));
+    if (fork) {
+      forkPoints.set(fork, [...(forkPoints.get(fork) || []), lane]);
+    } else {
+      rootLanes.push(lane);
+    }
+  }
+
+  const tags = new Map<string, string[]>();
+  for (const tag of graph.tags) {
+    tags.set(tag.sha, [...(tags.get(tag.sha) || []), tag.name.replace(/"/g, "'")]);
+  }
+
+  // Mermaid names the first branch `main` unless configured otherwise
+  let diagram = mainLane === 'main' ? '' : `%%{init: { "gitGraph": { "mainBranchName": "${mainLane}" } } }%%\n`;
+  diagram += 'gitGraph\n';
+  const heads = new Map<string, string | null>([[mainLane, null]]);
+  let current = mainLane;
+
+  for (const lane of rootLanes) {
+    diagram += `    branch ${lane}\n`;
+    heads.set(lane, null);
+    current = lane;
+  }
+
+  for (const commit of order) {
+    const lane = lanes.get(commit.sha);
+    if (current !== lane) {
+      diagram += `    checkout ${lane}\n`;
+      current = lane;
+    }
+
+    const id = commit.sha.substring(0, 7);
+    const attributes = [
+      `id: "${id}"`,
+      highlighted.has(commit.sha) ? 'type: HIGHLIGHT' : '',
+      tags.has(commit.sha) ? `tag: "${tags.get(commit.sha).join(', ')}"` : ''
+    ].filter(Boolean).join(' ');
+
+    // A merge is drawn if the merged lane has commits of its own to merge
+    const mergedLane = commit.parents.slice(1).map(parent => lanes.get(parent)).find(parentLane => parentLane && parentLane !== lane);
+    if (mergedLane && heads.get(mergedLane) && heads.get(mergedLane) !== heads.get(lane) && heads.get(lane)) {
+      diagram += `    merge ${mergedLane} ${attributes}\n`;
+    } else {
+      diagram += `    commit ${attributes}\n`;
+    }
+    heads.set(lane, commit.sha);
+
+    for (const forkedLane of forkPoints.get(commit.sha) || []) {
+      diagram += `    branch ${forkedLane}\n`;
+      heads.set(forkedLane, commit.sha);
+      current = forkedLane;
+    }
+  }
+
+  return diagram;
+}
+
+/**
+ * Generate a flowchart of the module dependencies of a repository at several commits.
+ *
+ * Every snapshot is drawn as a subgraph, oldest first. The first one shows
+ * the modules with dependencies; each later one also shows the modules and
+ * dependencies that appeared or disappeared since the previous snapshot,
+ * and the modules whose content changed, colored by the `added`, `removed`
+ * and `changed` classes.
+ *
+ * @param {ArchitectureSnapshot[]} snapshots - The snapshots, oldest first
+ * @returns {string} The Mermaid syntax code for the diagram
+ * @throws {Error} If there are no snapshots
+ */
+export function generateArchitectureEvolution(snapshots: ArchitectureSnapshot[]): string {
+  if (snapshots.length === 0) {
+    throw new Error('No architecture snapshots to compare');
+  }
+
+  let diagram = 'flowchart LR\n';
+  const classes = { added: [] as string[], removed: [] as string[], changed: [] as string[] };
+  const edges: string[] = [];
+  const addedEdges: number[] = [];
+  const removedEdges: number[] = [];
+
+  snapshots.forEach((snapshot, index) => {
+    const previous = snapshots[index - 1];
+    const prefix = `S${index}`;
+    const nodeId = (modulePath: string) => `${prefix}_${modulePath.replace(/[^A-Za-z0-9_]/g, '_')}`;
+    const edgeKey = (dep: { from: string; to: string }) => `${dep.from}\n${dep.to}`;
+
+    const hashes = new Map(snapshot.modules.map(module => [module.path, module.hash]));
+    const previousHashes = new Map((previous?.modules || []).map(module => [module.path, module.hash]));
+    const previousEdges = new Set((previous?.dependencies || []).map(edgeKey));
+    const currentEdges = new Set(snapshot.dependencies.map(edgeKey));
+    const removedDependencies = (previous?.dependencies || []).filter(dep => !currentEdges.has(edgeKey(dep)));
+
+    // Modules are drawn if they take part in a dependency or appeared or disappeared
+    const modules = new Set<string>();
+    for (const dep of [...snapshot.dependencies, ...removedDependencies]) {
+      modules.add(dep.from);
+      modules.add(dep.to);
+    }
+    if (previous) {
+      for (const modulePath of hashes.keys()) {
+        if (!previousHashes.has(modulePath)) {
+          modules.add(modulePath);
+        }
+      }
+      for (const modulePath of previousHashes.keys()) {
+        if (!hashes.has(modulePath)) {
+          modules.add(modulePath);
+        }
+      }
+    }
+
+    const date = new Date(snapshot.timestamp * 1000).toISOString().substring(0, 10);
+    diagram += `    subgraph ${prefix} ["${snapshot.sha.substring(0, 7)} (${date})"]\n`;
+    diagram += '        direction TB\n';
+    for (const modulePath of modules) {
+      diagram += `        ${nodeId(modulePath)}["${modulePath.replace(/"/g, "'")}"]\n`;
+      if (!previous) {
+        continue;
+      }
+      if (!hashes.has(modulePath)) {
+        classes.removed.push(nodeId(modulePath));
+      } else if (!previousHashes.has(modulePath)) {
+        classes.added.push(nodeId(modulePath));
+      } else if (hashes.get(modulePath) !== previousHashes.get(modulePath)) {
+        classes.changed.push(nodeId(modulePath));
+      }
+    }
+    diagram += '    end\n';
+
+    for (const dep of snapshot.dependencies) {
+      if (previous && !previousEdges.has(edgeKey(dep))) {
+        addedEdges.push(edges.length);
+      }
+      edges.push(`    ${nodeId(dep.from)} ${dep.isReExport ? '-->|re-exports|' : '-->'} ${nodeId(dep.to)}\n`);
+    }
+    for (const dep of removedDependencies) {
+      removedEdges.push(edges.length);
+      edges.push(`    ${nodeId(dep.from)} -.->|removed| ${nodeId(dep.to)}\n`);
+    }
+  });
+
+  diagram += edges.join('');
+  diagram += '    classDef added fill:#d4edda,stroke:#28a745,color:#155724\n';
+  diagram += '    classDef removed fill:#f8d7da,stroke:#dc3545,color:#721c24,stroke-dasharray:5 5\n';
+  diagram += '    classDef changed fill:#fff3cd,stroke:#ffc107,color:#856404\n';
+  for (const [className, nodeIds] of Object.entries(classes)) {
+    if (nodeIds.length > 0) {
+      diagram += `    class ${nodeIds.join(',')} ${className}\n`;
+    }
+  }
+  if (addedEdges.length > 0) {
+    diagram += `    linkStyle ${addedEdges.join(',')} stroke:#28a745,stroke-width:2px\n`;
+  }
+  if (removedEdges.length > 0) {
+    diagram += `    linkStyle ${removedEdges.join(',')} stroke:#dc3545\n`;
+  }
+
+  return diagram;
+}
+
+/**
+ * Generate a flowchart of the hotspots of a repository.
+ *
+ * The highest scoring files are grouped in a subgraph per directory, the
+ * directories with the highest scores first, and colored by their score
+ * relative to the highest one: `critical`, `hot`, `warm` or `cool`.
+ *
+ * @param {HotspotAnalysis} analysis - The ranked files and directories
+ * @param {number} top - Maximum number of files to draw
+ * @returns {string} The Mermaid syntax code for the diagram
+ * @throws {Error} If no code file was changed
+ */
+export function generateHotspotDiagram(analysis: HotspotAnalysis, top: number = 30): string {
+  const files = analysis.files.slice(0, top);
+  if (files.length === 0) {
+    throw new Error('No code file was changed by the analyzed commits');
+  }
+
+  let diagram = 'flowchart TB\n';
+  const maxScore = files[0].score || 1;
+  const intensities: Record<string, string[]> = { critical: [], hot: [], warm: [], cool: [] };
+  const fileIds = new Map(files.map((file, index) => [file, `F${index}`]));
+
+  analysis.directories.forEach((directory, index) => {
+    const directoryFiles = files.filter(file => file.path.substring(0, Math.max(0, file.path.lastIndexOf('/'))) === directory.path);
+    if (directoryFiles.length === 0) {
+      return;
+    }
+
+    diagram += `    subgraph D${index} ["${directory.path || '/'} · ${directory.commits} commits"]\n`;
+    for (const file of directoryFiles) {
+      const name = file.path.substring(file.path.lastIndexOf('/') + 1).replace(/"/g, "'");
+      diagram += `        ${fileIds.get(file)}["${name}<br/>${file.commits} commits · ${file.lines} lines"]\n`;
+      intensities[getIntensity(file.score / maxScore)].push(fileIds.get(file));
+    }
+    diagram += '    end\n';
+  });
+
+  diagram += '    classDef critical fill:#d32f2f,stroke:#b71c1c,color:#ffffff\n';
+  diagram += '    classDef hot fill:#f57c00,stroke:#e65100,color:#ffffff\n';
+  diagram += '    classDef warm fill:#ffd54f,stroke:#ffb300,color:#000000\n';
+  diagram += '    classDef cool fill:#e3f2fd,stroke:#90caf9,color:#000000\n';
+  for (const [intensity, nodeIds] of Object.entries(intensities)) {
+    if (nodeIds.length > 0) {
+      diagram += `    class ${nodeIds.join(',')} ${intensity}\n`;
+    }
+  }
+
+  return diagram;
+}
+
+/**
+ * Format the highest scoring files of a hotspot analysis as a Markdown table.
+ *
+ * @param {HotspotAnalysis} analysis - The ranked files and directories
+ * @param {number} top - Maximum number of files to list
+ * @returns {string} The Markdown table
+ */
+export function formatHotspotTable(analysis: HotspotAnalysis, top: number = 30): string {
+  const rows = analysis.files.slice(0, top).map((file: FileHotspot, index) =>
+    `| ${index + 1} | \`${file.path}\` | ${file.commits} | ${file.lines} | ${file.score} |`
+  );
+  return ['| Rank | File | Commits | Lines | Score |', '|---:|---|---:|---:|---:|', ...rows].join('\n');
+}
+
+/**
+ * Generate a flowchart of the people and teams maintaining the components of a repository.
+ *
+ * The top contributors of each component are linked to it with their number
+ * of commits. Owners declared in CODEOWNERS are linked with dotted `owns`
+ * edges, from the person node when the owner is a contributor. Components
+ * with a bus factor of 1 are colored red, and components whose declared
+ * owners are not among their top contributors get an orange dashed border.
+ *
+ * @param {OwnershipAnalysis} analysis - The components and their contributors
+ * @param {number} topContributors - Number of contributors drawn per component
+ * @param {number} maxComponents - Maximum number of components to draw, the most changed ones
+ * @returns {string} The Mermaid syntax code for the diagram
+ * @throws {Error} If no component was changed
+ */
+export function generateOwnershipDiagram(analysis: OwnershipAnalysis, topContributors: number = 3, maxComponents: number = 20): string {
+  const components = analysis.components.slice(0, maxComponents);
+  if (components.length === 0) {
+    throw new Error('No code file was changed by the analyzed commits');
+  }
+
+  const people = new Map<string, { id: string; name: string; email: string }>();
+  const owners = new Map<string, string>();
+  const edges: string[] = [];
+  const busFactorOne: string[] = [];
+  const ownerDiffers: string[] = [];
+  const unowned: string[] = [];
+
+  components.forEach((component, index) => {
+    const componentId = `C${index}`;
+    for (const contributor of component.contributors.slice(0, topContributors)) {
+      const key = contributor.email.toLowerCase();
+      if (!people.has(key)) {
+        people.set(key, { id: `P${people.size}`, name: contributor.name, email: contributor.email });
+      }
+      edges.push(`    ${people.get(key).id} -->|${contributor.commits} commits| ${componentId}\n`);
+    }
+  });
+
+  // Owners are matched with all drawn people, so an owner contributing to another component is drawn once
+  components.forEach((component, index) => {
+    const componentId = `C${index}`;
+    for (const owner of component.declaredOwners || []) {
+      const person = Array.from(people.values()).find(candidate => isOwnerContributor(owner, { ...candidate, commits: 0 }));
+      if (!person && !owners.has(owner)) {
+        owners.set(owner, `O${owners.size}`);
+      }
+      edges.push(`    ${person ? person.id : owners.get(owner)} -.->|owns| ${componentId}\n`);
+    }
+
+    if (component.busFactor === 1) {
+      busFactorOne.push(componentId);
+    }
+    if (component.status === 'differs') {
+      ownerDiffers.push(componentId);
+    } else if (component.status === 'unowned') {
+      unowned.push(componentId);
+    }
+  });
+
+  let diagram = 'flowchart LR\n';
+  diagram += '    subgraph People\n';
+  for (const person of people.values()) {
+    diagram += `        ${person.id}(["${person.name.replace(/"/g, "'")}"])\n`;
+  }
+  diagram += '    end\n';
+  if (owners.size > 0) {
+    diagram += '    subgraph Owners [CODEOWNERS]\n';
+    for (const [owner, ownerId] of owners) {
+      diagram += `        ${ownerId}{{"${owner.replace(/"/g, "'")}"}}\n`;
+    }
+    diagram += '    end\n';
+  }
+  diagram += '    subgraph Components\n';
+  components.forEach((component, index) => {
+    const details = [`${component.commits} commits`, component.busFactor === 1 ? 'bus factor 1' : ''].filter(Boolean).join(' · ');
+    diagram += `        C${index}["${component.path || '/'}<br/>${details}"]\n`;
+  });
+  diagram += '    end\n';
+  diagram += edges.join('');
+
+  diagram += '    classDef busFactorOne fill:#f8d7da,stroke:#dc3545,color:#721c24\n';
+  diagram += '    classDef ownerDiffers stroke:#ff9800,stroke-width:3px,stroke-dasharray:5 5\n';
+  diagram += '    classDef unowned fill:#eeeeee,stroke:#9e9e9e,color:#424242\n';
+  for (const [className, nodeIds] of Object.entries({ busFactorOne, ownerDiffers, unowned })) {
+    if (nodeIds.length > 0) {
+      diagram += `    class ${nodeIds.join(',')} ${className}\n`;
+    }
+  }
+
+  return diagram;
+}
+
+/**
+ * Format the components of an ownership analysis as a Markdown table, followed by the bus factor 1 components.
+ *
+ * @param {OwnershipAnalysis} analysis - The components and their contributors
+ * @param {number} topContributors - Number of contributors listed per component
+ * @returns {string} The Markdown text
+ */
+export function formatOwnershipTable(analysis: OwnershipAnalysis, topContributors: number = 3): string {
+  const header = analysis.hasCodeOwners
+    ? ['| Component | Commits | Top contributors | Bus factor | CODEOWNERS |', '|---|---:|---|---:|---|']
+    : ['| Component | Commits | Top contributors | Bus factor |', '|---|---:|---|---:|'];
+
+  const rows = analysis.components.map(component => {
+    const contributors = component.contributors.slice(0, topContributors)
+      .map(contributor => `${contributor.name.replace(/\|/g, '\\|')} (${contributor.commits})`)
+      .join(', ');
+    const cells = [`\`${component.path || '/'}\``, component.commits, contributors, component.busFactor];
+    if (analysis.hasCodeOwners) {
+      cells.push(`${component.declaredOwners.join(' ') || '-'} (${component.status})`);
+    }
+    return `| ${cells.join(' | ')} |`;
+  });
+
+  const risks = analysis.components
+    .filter(component => component.busFactor === 1)
+    .map(component => `- \`${component.path || '/'}\`: ${component.contributors[0].name} made ${component.contributors[0].commits} of ${component.commits} commits`);
+
+  return [
+    ...header,
+    ...rows,
+    '',
+    risks.length > 0 ? `Components with a bus factor of 1:\n${risks.join('\n')}` : 'No component has a bus factor of 1.'
+  ].join('\n');
+}
+
+/**
+ * Get the color class of a hotspot from its score relative to the highest score.
+ *
+ * @param {number} ratio - The score divided by the highest score
+ * @returns {string} The class name
+ */
+function getIntensity(ratio: number): string {
+  if (ratio >= 0.75) {
+    return 'critical';
+  }
+  if (ratio >= 0.5) {
+    return 'hot';
+  }
+  return ratio >= 0.25 ? 'warm' : 'cool';
+}
+
+/**
+ * Assign every commit of a commit graph to a branch lane.
+ *
+ * @param {CommitGraph} graph - The commit graph
+ * @param {Map<string, GraphCommit>} commits - The commits of the graph by SHA
+ * @returns {Map<string, string>} The lane name of each commit SHA
+ */
+function assignBranchLanes(graph: CommitGraph, commits: Map<string, GraphCommit>): Map<string, string> {
+  const lanes = new Map<string, string>();
+  const laneNames = new Set<string>();
+
+  const claim = (name: string, head: string) => {
+    // Lane names must be unique, a merged branch may share the name of a live one
+    let lane = toBranchName(name);
+    for (let i = 2; laneNames.has(lane); i++) {
+      lane = `${toBranchName(name)}-${i}`;
+    }
+
+    let sha = head;
+    while (sha && commits.has(sha) && !lanes.has(sha)) {
+      lanes.set(sha, lane);
+      laneNames.add(lane);
+      sha = commits.get(sha).parents[0];
+    }
+  };
+
+  const defaultBranch = graph.branches.find(branch => branch.name === graph.defaultBranch);
+  for (const branch of [defaultBranch, ...graph.branches.filter(branch => branch !== defaultBranch)]) {
+    if (branch) {
+      claim(branch.name, branch.sha);
+    }
+  }
+
+  // Newest merges first, so the chains of merged branches are claimed before older merges reach into them
+  const byNewest = [...graph.commits].sort((a, b) => b.timestamp - a.timestamp);
+  let claimed = true;
+  while (claimed) {
+    claimed = false;
+    for (const commit of byNewest) {
+      if (!lanes.has(commit.sha)) {
+        continue;
+      }
+      for (const parent of commit.parents.slice(1)) {
+        if (commits.has(parent) && !lanes.has(parent)) {
+          claim(getMergedBranchName(commit), parent);
+          claimed = true;
+        }
+      }
+    }
+  }
+
+  // Commits of unfetched branch heads cannot be placed otherwise
+  for (const commit of graph.commits) {
+    if (!lanes.has(commit.sha)) {
+      lanes.set(commit.sha, toBranchName(graph.defaultBranch));
+    }
+  }
+
+  return lanes;
+}
+
+/**
+ * Sort commits so that parents come before their children, older commits first.
+ *
+ * @param {GraphCommit[]} list - The commits to sort
+ * @param {Map<string, GraphCommit>} commits - The commits by SHA
+ * @returns {GraphCommit[]} The sorted commits
+ */
+function sortTopologically(list: GraphCommit[], commits: Map<string, GraphCommit>): GraphCommit[] {
+  const pending = new Map(list.map(commit => [commit.sha, commit.parents.filter(parent => commits.has(parent)).length]));
+  const children = new Map<string, string[]>();
+  for (const commit of list) {
+    for (const parent of commit.parents.filter(sha => commits.has(sha))) {
+      children.set(parent, [...(children.get(parent) || []), commit.sha]);
+    }
+  }
+
+  const byAge = (a: GraphCommit, b: GraphCommit) => a.timestamp - b.timestamp || a.sha.localeCompare(b.sha);
+  const ready = list.filter(commit => pending.get(commit.sha) === 0).sort(byAge);
+  const sorted: GraphCommit[] = [];
+
+  while (ready.length > 0) {
+    const commit = ready.shift();
+    sorted.push(commit);
+    for (const child of children.get(commit.sha) || []) {
+      pending.set(child, pending.get(child) - 1);
+      if (pending.get(child) === 0) {
+        ready.push(commits.get(child));
+        ready.sort(byAge);
+      }
+    }
+  }
+
+  return sorted;
+}
+
+/**
+ * Get the name of the branch merged by a merge commit from its message.
+ *
+ * Understands the messages of `git merge` and GitLab merge requests
+ * ("Merge branch 'x'") and of GitHub pull requests ("Merge pull request #1 from owner/x").
+ *
+ * @param {GraphCommit} commit - The merge commit
+ * @returns {string} The branch name, or a name derived from the merged commit
+ */
+function getMergedBranchName(commit: GraphCommit): string {
+  const match = commit.message.match(/^Merge (?:remote-tracking )?branch '([^']+)'/)
+    || commit.message.match(/^Merge pull request #\d+ from [^\/\s]+\/(\S+)/);
+  return match ? match[1].replace(/^origin\//, '') : `merged-${commit.parents[1].substring(0, 7)}`;
+}
+
+/**
+ * Make a git branch name usable in gitGraph commands.
+ *
+ * @param {string} name - The branch name
+ * @returns {string} The name without characters gitGraph cannot parse
+ */
+function toBranchName(name: string): string {
+  return name.replace(/[\s"'`]/g, '-');
+}
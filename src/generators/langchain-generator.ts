@@ -14,6 +14,8 @@ import {
   fixMermaidSyntaxWithLangChain
 } from '../langchain/chains.js';
 import { generateDiagramFromText } from './text-generator.js';
+import { generateDiagramFromGithub } from './github-generator.js';
+import { readLocalRepositoryData } from '../utils/local-repo.js';
 
 /**
  * Generate a diagram from a text description using LangChain.
@@ -96,18 +98,27 @@ export async function generateDiffDiagram(
   const result = await generateDiffDiagramWithLangChain(diagramType, beforeCode, afterCode);
   return result.mermaidCode;
 }
+
 /**
  * Generate a diagram from a local code repository.
  *
- * This is a placeholder for future implementation.
- * It would require file system access to read the repository files.
+ * The repository is read from disk and analyzed with the same builders that
+ * are used for GitHub repositories, so no network access or API key is needed.
+ *
+ * @param {string} diagramType - The type of diagram to generate
+ * @param {string} repoPath - Path to the repository on disk
+ * @param {string[]} filePatterns - Glob patterns of files to analyze
+ * @returns {Promise<string>} The Mermaid syntax code for the diagram
+ * @throws {Error} If the repository path cannot be read
  */
 export async function generateDiagramFromLocalRepo(
   diagramType: string,
   repoPath: string,
   filePatterns: string[] = ['**/*.ts', '**/*.js']
 ): Promise<string> {
-  throw new Error('Local repository analysis not yet implemented.');
+  const repoData = await readLocalRepositoryData(repoPath, filePatterns);
+  
+  return generateDiagramFromGithub(diagramType, repoData.info.owner.login, repoData.info.name, repoData);
 }
 
 /**
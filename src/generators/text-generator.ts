@@ -4,7 +4,22 @@
  * This file contains functions for generating Mermaid diagrams from text descriptions.
  */
 
-import { extractEntities, extractRelationships, extractProcessSteps } from '../utils/entity-extractor.js';
+import {
+  extractEntities,
+  extractRelationships,
+  extractProcessSteps,
+  extractStateMachine,
+  extractGanttSchedule,
+  extractDataPoints,
+  parseStructuredData,
+  extractJourney,
+  extractQuadrantData,
+  extractRequirements,
+  extractGitOperations,
+  extractArchitecture,
+  GanttTask,
+  StateTransition
+} from '../utils/entity-extractor.js';
 
 /**
  * Generate a diagram from a text description.
@@ -14,9 +29,10 @@ import { extractEntities, extractRelationships, extractProcessSteps } from '../u
  * 
  * @param {string} diagramType - The type of diagram to generate
  * @param {string} description - The text description to analyze
+ * @param {unknown} data - Optional structured data for data-driven diagram types
  * @returns {string} The Mermaid syntax code for the diagram
  */
-export function generateDiagramFromText(diagramType: string, description: string): string {
+export function generateDiagramFromText(diagramType: string, description: string, data?: unknown): string {
   // Extract entities and relationships from the description
   const entities = extractEntities(description);
   const relationships = extractRelationships(description, entities);
@@ -45,7 +61,7 @@ export function generateDiagramFromText(diagramType: string, description: string
       return generateGantt(description);
     
     case 'pieChart':
-      return generatePieChart(description);
+      return generatePieChart(description, data);
     
     case 'quadrantChart':
       return generateQuadrantChart(description);
@@ -259,22 +275,111 @@ export function generateERDiagram(entities: string[], relationships: Array<{from
   return diagram;
 }
 
+/**
+ * Convert a display name to a valid Mermaid identifier.
+ * 
+ * @param {string} name - The display name
+ * @returns {string} An identifier containing only letters, digits and underscores
+ */
+function toMermaidId(name: string): string {
+  const id = name.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[0-9]/.test(id) ? `_${id}` : id || 'node';
+}
+
+/**
+ * Render the lines of a state diagram block.
+ * 
+ * @param {string} indent - The indentation for each line
+ * @param {StateTransition[]} transitions - The transitions to render
+ * @param {string[]} initialStates - States entered from the start marker
+ * @param {string[]} finalStates - States leading to the end marker
+ * @returns {string} The rendered lines
+ */
+function renderStateBlock(
+  indent: string,
+  transitions: StateTransition[],
+  initialStates: string[],
+  finalStates: string[]
+): string {
+  let block = '';
+  
+  for (const state of initialStates) {
+    block += `${indent}[*] --> ${toMermaidId(state)}\n`;
+  }
+  
+  for (const transition of transitions) {
+    block += `${indent}${toMermaidId(transition.from)} --> ${toMermaidId(transition.to)}`;
+    if (transition.label) {
+      block += ` : ${transition.label}`;
+    }
+    block += '\n';
+  }
+  
+  for (const state of finalStates) {
+    block += `${indent}${toMermaidId(state)} --> [*]\n`;
+  }
+  
+  return block;
+}
+
 /**
  * Generate a state diagram from a text description.
  * 
  * @param {string} description - The text description to analyze
  * @returns {string} The Mermaid syntax code for the state diagram
+ * @throws {Error} If no states or transitions could be identified
  */
 export function generateStateDiagram(description: string): string {
-  // For now, return a placeholder state diagram
-  // In a real implementation, this would analyze the text to identify states and transitions
-  return `stateDiagram-v2
-    [*] --> Still
-    Still --> [*]
-    Still --> Moving
-    Moving --> Still
-    Moving --> Crash
-    Crash --> [*]`;
+  const machine = extractStateMachine(description);
+  
+  if (machine.transitions.length === 0 && Object.keys(machine.composites).length === 0) {
+    throw new Error(
+      'Could not identify any state transitions in the description. ' +
+      'Describe transitions like "from Pending to Approved when the manager signs".'
+    );
+  }
+  
+  let diagram = 'stateDiagram-v2\n';
+  
+  // Declare states whose display name is not a valid identifier
+  for (const state of machine.states) {
+    const id = toMermaidId(state);
+    if (id !== state) {
+      diagram += `    state "${state}" as ${id}\n`;
+    }
+  }
+  
+  // Without an explicit starting point, the first state mentioned is the initial one
+  const initialStates = machine.initialStates.length > 0 || machine.transitions.length === 0
+    ? machine.initialStates
+    : [machine.transitions[0].from];
+  
+  diagram += renderStateBlock('    ', machine.transitions, initialStates, machine.finalStates);
+  
+  // Add composite states with their inner transitions
+  for (const [name, composite] of Object.entries(machine.composites)) {
+    diagram += `    state ${toMermaidId(name)} {\n`;
+    
+    const innerInitialStates = composite.initialStates.length > 0 || composite.transitions.length === 0
+      ? composite.initialStates
+      : [composite.transitions[0].from];
+    
+    diagram += renderStateBlock('        ', composite.transitions, innerInitialStates, composite.finalStates);
+    
+    // Inner states without transitions still need to appear inside the composite
+    for (const state of composite.states) {
+      const mentioned = innerInitialStates.includes(state) ||
+        composite.finalStates.includes(state) ||
+        composite.transitions.some(t => t.from === state || t.to === state);
+      if (!mentioned) {
+        diagram += `        ${toMermaidId(state)}\n`;
+      }
+    }
+    
+    diagram += `    }\n`;
+  }
+  
+  return diagram;
 }
 
 /**
@@ -282,54 +387,166 @@ export function generateStateDiagram(description: string): string {
  * 
  * @param {string} description - The text description to analyze
  * @returns {string} The Mermaid syntax code for the user journey diagram
+ * @throws {Error} If no journey steps could be identified
  */
 export function generateUserJourney(description: string): string {
-  // For now, return a placeholder user journey diagram
-  // In a real implementation, this would analyze the text to identify user steps and experiences
-  return `journey
-    title My working day
-    section Go to work
-      Make tea: 5: Me
-      Go upstairs: 3: Me
-      Do work: 1: Me, Cat
-    section Go home
-      Go downstairs: 5: Me
-      Sit down: 5: Me`;
+  const journey = extractJourney(description);
+  
+  if (journey.sections.length === 0) {
+    throw new Error(
+      'Could not identify any journey steps in the description. ' +
+      'Describe steps like "During onboarding: signs up easily, verifies email - frustrating".'
+    );
+  }
+  
+  let diagram = 'journey\n';
+  diagram += `    title ${journey.title || 'User Journey'}\n`;
+  
+  for (const section of journey.sections) {
+    diagram += `    section ${section.name}\n`;
+    for (const step of section.steps) {
+      diagram += `      ${step.task}: ${step.score}: ${step.actors.join(', ')}\n`;
+    }
+  }
+  
+  return diagram;
 }
 
+/**
+ * Duration of the tasks described without one.
+ */
+const DEFAULT_TASK_DURATION = '1d';
+
 /**
  * Generate a Gantt chart from a text description.
  * 
+ * Tasks described without a start are scheduled after the previous task.
+ * 
  * @param {string} description - The text description to analyze
  * @returns {string} The Mermaid syntax code for the Gantt chart
+ * @throws {Error} If no tasks could be identified
  */
 export function generateGantt(description: string): string {
-  // For now, return a placeholder Gantt chart
-  // In a real implementation, this would analyze the text to identify tasks and timelines
-  return `gantt
-    title A Gantt Diagram
-    dateFormat  YYYY-MM-DD
-    section Section
-    A task           :a1, 2023-01-01, 30d
-    Another task     :after a1, 20d
-    section Another
-    Task in sec      :2023-01-12, 12d
-    another task     :24d`;
+  const schedule = extractGanttSchedule(description);
+  const tasks = schedule.sections.flatMap(section => section.tasks);
+  
+  if (tasks.length === 0) {
+    throw new Error(
+      'Could not identify any tasks in the description. ' +
+      'Describe tasks like "Design API, 5 days, starts 2026-11-02; Build client after Design API, 10d".'
+    );
+  }
+  
+  // The first task needs an anchor date; use the earliest date mentioned, or today
+  const knownDates = tasks.flatMap(task => [task.start, task.end]).filter(Boolean).sort() as string[];
+  const anchorDate = knownDates[0] || new Date().toISOString().substring(0, 10);
+  
+  let diagram = 'gantt\n';
+  diagram += `    title ${schedule.title || 'Project Schedule'}\n`;
+  diagram += `    dateFormat YYYY-MM-DD\n`;
+  if (schedule.excludesWeekends) {
+    diagram += `    excludes weekends\n`;
+  }
+  
+  let previousTask: GanttTask | undefined;
+  for (const section of schedule.sections) {
+    if (section.name) {
+      diagram += `    section ${section.name}\n`;
+    } else if (schedule.sections.length > 1) {
+      diagram += `    section General\n`;
+    }
+    
+    for (const task of section.tasks) {
+      const parts = [...task.tags];
+      if (task.milestone) {
+        parts.push('milestone');
+      }
+      parts.push(task.id);
+      
+      // Start: explicit date, dependencies, the anchor date for the first task, or the end of the previous task
+      if (task.start) {
+        parts.push(task.start);
+      } else if (task.dependencies.length > 0) {
+        parts.push(`after ${task.dependencies.join(' ')}`);
+      } else if (!previousTask) {
+        parts.push(anchorDate);
+      } else {
+        parts.push(`after ${previousTask.id}`);
+      }
+      
+      // End: milestones have no length, otherwise an end date or a duration
+      if (task.milestone) {
+        parts.push('0d');
+      } else if (task.end) {
+        parts.push(task.end);
+      } else {
+        parts.push(task.duration || DEFAULT_TASK_DURATION);
+      }
+      
+      diagram += `    ${task.name} :${parts.join(', ')}\n`;
+      previousTask = task;
+    }
+  }
+  
+  return diagram;
 }
 
 /**
  * Generate a pie chart from a text description.
  * 
+ * Percentages that do not add up to 100 are completed with an "Other" slice
+ * or scaled down; raw counts are shown as-is together with their values.
+ * Percentages and raw counts have no common scale, so they cannot be mixed.
+ * 
  * @param {string} description - The text description to analyze
+ * @param {unknown} data - Optional structured data, takes precedence over values in the description
  * @returns {string} The Mermaid syntax code for the pie chart
+ * @throws {Error} If no values could be identified, or percentages are mixed with raw values
  */
-export function generatePieChart(description: string): string {
-  // For now, return a placeholder pie chart
-  // In a real implementation, this would analyze the text to identify categories and values
-  return `pie title Distribution
-    "A" : 42.96
-    "B" : 50.05
-    "C" : 6.99`;
+export function generatePieChart(description: string, data?: unknown): string {
+  const extracted = extractDataPoints(description);
+  const structuredPoints = data !== undefined ? parseStructuredData(data) : [];
+  const points = structuredPoints.length > 0 ? structuredPoints : extracted.points;
+  
+  if (points.length === 0) {
+    throw new Error(
+      'Could not identify any values in the description. ' +
+      'Describe values like "Frontend 40%, Backend 35%, Infra 25%" or pass them as data.'
+    );
+  }
+  
+  const isPercentage = points.some(point => point.isPercentage);
+  const rawPoints = points.filter(point => !point.isPercentage);
+  if (isPercentage && rawPoints.length > 0) {
+    throw new Error(
+      `Cannot mix percentages with raw values (${rawPoints.map(point => `"${point.label}"`).join(', ')}). ` +
+      'Give every value as a percentage, or every value as a count.'
+    );
+  }
+  
+  const title = (extracted.title || 'Distribution').replace(/"/g, "'");
+  const slices = points.map(point => ({ label: point.label.replace(/"/g, "'"), value: point.value }));
+  
+  let diagram: string;
+  if (isPercentage) {
+    const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+    if (total > 100) {
+      for (const slice of slices) {
+        slice.value = Math.round(slice.value / total * 10000) / 100;
+      }
+    } else if (total < 99.5) {
+      slices.push({ label: 'Other', value: Math.round((100 - total) * 100) / 100 });
+    }
+    diagram = `pie title ${title}\n`;
+  } else {
+    diagram = `pie showData\n    title ${title}\n`;
+  }
+  
+  for (const slice of slices) {
+    diagram += `    "${slice.label}" : ${slice.value}\n`;
+  }
+  
+  return diagram;
 }
 
 /**
@@ -337,24 +554,40 @@ export function generatePieChart(description: string): string {
  * 
  * @param {string} description - The text description to analyze
  * @returns {string} The Mermaid syntax code for the quadrant chart
+ * @throws {Error} If no items could be identified
  */
 export function generateQuadrantChart(description: string): string {
-  // For now, return a placeholder quadrant chart
-  // In a real implementation, this would analyze the text to identify items and their positions
-  return `quadrantChart
-    title Reach and engagement of campaigns
-    x-axis Low Reach --> High Reach
-    y-axis Low Engagement --> High Engagement
-    quadrant-1 We should expand
-    quadrant-2 Need to promote
-    quadrant-3 Re-evaluate
-    quadrant-4 May be improved
-    Campaign A: [0.3, 0.6]
-    Campaign B: [0.45, 0.23]
-    Campaign C: [0.57, 0.69]
-    Campaign D: [0.78, 0.34]
-    Campaign E: [0.40, 0.34]
-    Campaign F: [0.35, 0.78]`;
+  const data = extractQuadrantData(description);
+  
+  if (data.items.length === 0) {
+    throw new Error(
+      'Could not identify any items in the description. ' +
+      'Describe items like "Dark mode is low effort and high impact" or "SSO (0.8, 0.6)".'
+    );
+  }
+  
+  // Quadrant chart text cannot contain colons or brackets
+  const clean = (text: string) => text.replace(/[:[\]"]/g, '').trim();
+  const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.substring(1);
+  const xAxis = data.xAxis ? capitalize(clean(data.xAxis)) : '';
+  const yAxis = data.yAxis ? capitalize(clean(data.yAxis)) : '';
+  
+  let diagram = 'quadrantChart\n';
+  diagram += `    title ${clean(data.title || (xAxis && yAxis ? `${xAxis} vs ${yAxis}` : 'Quadrant Chart'))}\n`;
+  diagram += `    x-axis ${xAxis ? `Low ${xAxis} --> High ${xAxis}` : 'Low --> High'}\n`;
+  diagram += `    y-axis ${yAxis ? `Low ${yAxis} --> High ${yAxis}` : 'Low --> High'}\n`;
+  
+  for (const quadrant of [1, 2, 3, 4]) {
+    if (data.quadrants[quadrant]) {
+      diagram += `    quadrant-${quadrant} ${clean(data.quadrants[quadrant])}\n`;
+    }
+  }
+  
+  for (const item of data.items) {
+    diagram += `    ${clean(item.name)}: [${item.x.toFixed(2)}, ${item.y.toFixed(2)}]\n`;
+  }
+  
+  return diagram;
 }
 
 /**
@@ -362,63 +595,295 @@ export function generateQuadrantChart(description: string): string {
  * 
  * @param {string} description - The text description to analyze
  * @returns {string} The Mermaid syntax code for the requirement diagram
+ * @throws {Error} If no requirements could be identified
  */
 export function generateRequirementDiagram(description: string): string {
-  // For now, return a placeholder requirement diagram
-  // In a real implementation, this would analyze the text to identify requirements and relationships
-  return `requirementDiagram
-    requirement test_req {
-    id: 1
-    text: the test text.
-    risk: high
-    verifymethod: test
+  const model = extractRequirements(description);
+  
+  if (model.requirements.length === 0) {
+    throw new Error(
+      'Could not identify any requirements in the description. ' +
+      'Describe requirements like "REQ-12: The system shall encrypt data at rest. Risk high. Verified by test."'
+    );
+  }
+  
+  let diagram = 'requirementDiagram\n';
+  
+  for (const requirement of model.requirements) {
+    diagram += `    ${requirement.type} ${requirement.name} {\n`;
+    diagram += `    id: "${requirement.id}"\n`;
+    diagram += `    text: "${requirement.text}"\n`;
+    if (requirement.risk) {
+      diagram += `    risk: ${requirement.risk}\n`;
     }
-    element test_entity {
-    type: simulation
+    if (requirement.verifyMethod) {
+      diagram += `    verifymethod: ${requirement.verifyMethod}\n`;
     }
-    test_entity - satisfies -> test_req`;
+    diagram += `    }\n`;
+  }
+  
+  for (const element of model.elements) {
+    diagram += `    element ${element.name} {\n`;
+    diagram += `    type: "${element.type}"\n`;
+    diagram += `    }\n`;
+  }
+  
+  for (const relation of model.relations) {
+    diagram += `    ${relation.from} - ${relation.type} -> ${relation.to}\n`;
+  }
+  
+  return diagram;
 }
 
 /**
  * Generate a Git graph from a text description.
  * 
+ * The described operations are replayed against a simulated repository so
+ * the emitted commands are always valid: missing branches are created from
+ * the trunk, and a branch gets a commit before it is merged if it has none
+ * of its own. Cherry-picks of commits that were not described, or of
+ * branches without commits of their own, are skipped.
+ * 
  * @param {string} description - The text description to analyze
  * @returns {string} The Mermaid syntax code for the Git graph
+ * @throws {Error} If no git operations could be identified
  */
 export function generateGitGraph(description: string): string {
-  // For now, return a placeholder Git graph
-  // In a real implementation, this would analyze the text to identify branches and commits
-  return `gitGraph
-    commit
-    branch develop
-    checkout develop
-    commit
-    commit
-    checkout main
-    merge develop
-    commit
-    commit`;
+  const operations = extractGitOperations(description);
+  
+  if (operations.length === 0) {
+    throw new Error(
+      'Could not identify any git operations in the description. ' +
+      'Describe the workflow like "branch feature/login from develop, two commits, merge into develop, tag v1.2 on main".'
+    );
+  }
+  
+  const trunk = /\bmaster\b/.test(description) && !/\bmain\b/.test(description) ? 'master' : 'main';
+  const commands: string[] = [];
+  const heads = new Map<string, string | null>([[trunk, null]]);
+  const branchCommits = new Map<string, string[]>([[trunk, []]]);
+  const commitCommands = new Map<string, number>();
+  const taggedCommands = new Set<number>();
+  let currentBranch = trunk;
+  let mergeCount = 0;
+  
+  const checkout = (branch: string) => {
+    if (!heads.has(branch)) {
+      createBranch(branch, trunk);
+    } else if (currentBranch !== branch) {
+      commands.push(`checkout ${branch}`);
+      currentBranch = branch;
+    }
+  };
+  
+  const commit = (branch: string, message?: string) => {
+    checkout(branch);
+    const ownCommits = branchCommits.get(branch) as string[];
+    let id = message ? message.replace(/"/g, "'") : `${branch.split('/').pop()}-${ownCommits.length + 1}`;
+    for (let n = 2; commitCommands.has(id); n++) {
+      id = `${message || branch.split('/').pop()}-${n}`;
+    }
+    commands.push(`commit id: "${id}"`);
+    commitCommands.set(id, commands.length - 1);
+    ownCommits.push(id);
+    heads.set(branch, id);
+  };
+  
+  const createBranch = (branch: string, from: string) => {
+    if (!heads.has(from)) {
+      createBranch(from, trunk);
+    }
+    if (heads.get(from) === null) {
+      commit(from);
+    }
+    checkout(from);
+    commands.push(`branch ${branch}`);
+    heads.set(branch, heads.get(from) as string);
+    branchCommits.set(branch, []);
+    currentBranch = branch;
+  };
+  
+  for (const operation of operations) {
+    switch (operation.type) {
+      case 'branch':
+        if (heads.has(operation.branch)) {
+          checkout(operation.branch);
+        } else {
+          createBranch(operation.branch, operation.from || currentBranch);
+        }
+        break;
+      
+      case 'checkout':
+        checkout(operation.branch);
+        break;
+      
+      case 'commit':
+        for (let i = 0; i < operation.count; i++) {
+          commit(operation.branch || currentBranch, operation.count === 1 ? operation.message : undefined);
+        }
+        break;
+      
+      case 'merge': {
+        const target = operation.target || (operation.source ? currentBranch : trunk);
+        const source = operation.source || (target === currentBranch ? null : currentBranch);
+        if (!source || source === target) {
+          break;
+        }
+        if (!heads.has(source)) {
+          createBranch(source, target);
+        }
+        // Mermaid cannot merge a branch without commits of its own
+        if ((branchCommits.get(source) as string[]).length === 0 || heads.get(source) === heads.get(target)) {
+          commit(source);
+        }
+        if (heads.get(target) === null) {
+          commit(target);
+        }
+        checkout(target);
+        commands.push(`merge ${source}`);
+        heads.set(target, `merge-${++mergeCount}`);
+        commitCommands.set(`merge-${mergeCount}`, commands.length - 1);
+        break;
+      }
+      
+      case 'tag': {
+        const branch = operation.branch || currentBranch;
+        if (!heads.has(branch)) {
+          createBranch(branch, trunk);
+        }
+        // Tag the branch head, or a new commit if the head is already tagged
+        const head = heads.get(branch);
+        const index = head ? commitCommands.get(head) : undefined;
+        if (index === undefined || taggedCommands.has(index)) {
+          commit(branch);
+        }
+        const tagIndex = commitCommands.get(heads.get(branch) as string) as number;
+        commands[tagIndex] += ` tag: "${operation.name.replace(/"/g, "'")}"`;
+        taggedCommands.add(tagIndex);
+        break;
+      }
+      
+      case 'cherry-pick': {
+        const target = operation.target || currentBranch;
+        
+        // Resolve a commit id, or the latest own commit of a branch. Unknown commits are skipped,
+        // since inventing one would draw history the description does not have
+        const ownCommits = branchCommits.get(operation.ref) || [];
+        const commitId = commitCommands.has(operation.ref) && !operation.ref.startsWith('merge-')
+          ? operation.ref
+          : ownCommits[ownCommits.length - 1];
+        if (!commitId) {
+          break;
+        }
+        
+        const sourceBranch = [...branchCommits.entries()].find(([, ids]) => ids.includes(commitId as string))?.[0];
+        if (sourceBranch === target) {
+          break;
+        }
+        if (!heads.has(target)) {
+          createBranch(target, trunk);
+        }
+        if (heads.get(target) === null) {
+          commit(target);
+        }
+        checkout(target);
+        commands.push(`cherry-pick id: "${commitId}"`);
+        heads.set(target, `cherry-pick-${commitId}-${commands.length}`);
+        break;
+      }
+    }
+  }
+  
+  let diagram = trunk === 'main' ? '' : `%%{init: { 'gitGraph': { 'mainBranchName': '${trunk}' } } }%%\n`;
+  diagram += 'gitGraph\n';
+  for (const command of commands) {
+    diagram += `    ${command}\n`;
+  }
+  
+  return diagram;
 }
 
 /**
  * Generate a C4 diagram from a text description.
  * 
+ * Descriptions mentioning containers, services, apps or databases produce a
+ * container diagram; other descriptions produce a system context diagram.
+ * 
  * @param {string} description - The text description to analyze
  * @returns {string} The Mermaid syntax code for the C4 diagram
+ * @throws {Error} If no people or systems could be identified
  */
 export function generateC4Diagram(description: string): string {
-  // For now, return a placeholder C4 diagram
-  // In a real implementation, this would analyze the text to identify systems and relationships
-  return `C4Context
-    title System Context diagram for Internet Banking System
-    Enterprise_Boundary(b0, "BankBoundary") {
-      Person(customer, "Banking Customer", "A customer of the bank")
-      System(banking_system, "Internet Banking System", "Allows customers to view information about their bank accounts")
-      System_Ext(mail_system, "E-mail system", "The internal Microsoft Exchange e-mail system")
-      System_Ext(mainframe, "Mainframe Banking System", "Stores all of the core banking information about customers, accounts, transactions, etc.")
+  const model = extractArchitecture(description);
+  
+  if (model.elements.length === 0) {
+    throw new Error(
+      'Could not identify any people or systems in the description. ' +
+      'Describe the architecture like "Customers use the Web App (React), which calls the Order API over HTTPS".'
+    );
+  }
+  
+  const quote = (text: string) => text.replace(/"/g, "'");
+  const systemName = model.systemName || 'System';
+  const systemAlias = toMermaidId(systemName).toLowerCase();
+  
+  const renderElement = (element: typeof model.elements[number], indent: string): string => {
+    const alias = toMermaidId(element.name).toLowerCase();
+    const technology = element.technology ? `, "${quote(element.technology)}"` : '';
+    switch (element.kind) {
+      case 'person':
+        return `${indent}Person(${alias}, "${quote(element.name)}")\n`;
+      case 'external':
+        return `${indent}System_Ext(${alias}, "${quote(element.name)}"${technology})\n`;
+      case 'database':
+        return model.level === 'container'
+          ? `${indent}ContainerDb(${alias}, "${quote(element.name)}", "${quote(element.technology || 'Database')}")\n`
+          : `${indent}SystemDb(${alias}, "${quote(element.name)}")\n`;
+      case 'queue':
+        return `${indent}ContainerQueue(${alias}, "${quote(element.name)}", "${quote(element.technology || 'Queue')}")\n`;
+      case 'container':
+        return `${indent}Container(${alias}, "${quote(element.name)}"${technology})\n`;
+      default:
+        return `${indent}System(${alias}, "${quote(element.name)}")\n`;
     }
-    Rel(customer, banking_system, "Uses")
-    Rel_Back(customer, mail_system, "Sends e-mails to")
-    Rel_Neighbor(banking_system, mail_system, "Sends e-mails", "SMTP")
-    Rel(banking_system, mainframe, "Uses")`;
-}
\ No newline at end of file
+  };
+  
+  let diagram: string;
+  if (model.level === 'container') {
+    diagram = 'C4Container\n';
+    diagram += `    title ${model.title || `Container diagram for ${systemName}`}\n`;
+    
+    // People and external systems sit outside the system boundary
+    for (const element of model.elements.filter(e => e.kind === 'person' || e.kind === 'external')) {
+      diagram += renderElement(element, '    ');
+    }
+    
+    diagram += `    System_Boundary(${systemAlias}_boundary, "${quote(systemName)}") {\n`;
+    for (const element of model.elements.filter(e => e.kind !== 'person' && e.kind !== 'external')) {
+      diagram += renderElement(element, '      ');
+    }
+    diagram += `    }\n`;
+  } else {
+    diagram = 'C4Context\n';
+    diagram += `    title ${model.title || `System Context diagram for ${systemName}`}\n`;
+    
+    if (model.systemName) {
+      diagram += `    System(${systemAlias}, "${quote(systemName)}")\n`;
+    }
+    for (const element of model.elements) {
+      diagram += renderElement(element, '    ');
+    }
+  }
+  
+  // Relationships to the system itself point at its boundary in a container diagram
+  for (const relationship of model.relationships) {
+    const from = relationship.from === model.systemName && model.level === 'container'
+      ? `${systemAlias}_boundary` : toMermaidId(relationship.from).toLowerCase();
+    const to = relationship.to === model.systemName && model.level === 'container'
+      ? `${systemAlias}_boundary` : toMermaidId(relationship.to).toLowerCase();
+    const technology = relationship.technology ? `, "${relationship.technology}"` : '';
+    diagram += `    Rel(${from}, ${to}, "${quote(relationship.label)}"${technology})\n`;
+  }
+  
+  return diagram;
+}
@@ -19,12 +19,31 @@ import { ArchyServer } from './server.js';
 // access private repositories.
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
 
+// Base URL of the GitHub API, for GitHub Enterprise Server.
+// If not provided, the API is derived from the host of each repository URL.
+// The GitHub token is only sent to api.github.com and to this API.
+const GITHUB_API_URL = process.env.GITHUB_API_URL;
+
+// Access tokens for repositories hosted on GitLab, Bitbucket and Gitea.
+const SOURCE_TOKENS = {
+  gitlab: process.env.GITLAB_TOKEN,
+  bitbucket: process.env.BITBUCKET_TOKEN,
+  gitea: process.env.GITEA_TOKEN
+};
+
+// Base URLs of the APIs of self-hosted GitLab and Gitea instances the tokens belong to.
+// If not provided, the tokens are only sent to gitlab.com and codeberg.org.
+const SOURCE_API_URLS = {
+  gitlab: process.env.GITLAB_API_URL,
+  gitea: process.env.GITEA_API_URL
+};
+
 // OpenRouter API key for AI-powered diagram generation.
 // If provided, this enables the AI-powered diagram generation features.
 const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
 
-// Create an instance of the ArchyServer with the GitHub token and OpenRouter API key
-const server = new ArchyServer(GITHUB_TOKEN);
+// Create an instance of the ArchyServer with the GitHub token and API URL and the other tokens and API URLs
+const server = new ArchyServer(GITHUB_TOKEN, GITHUB_API_URL, SOURCE_TOKENS, SOURCE_API_URLS);
 
 // Log a message if OpenRouter API key is not configured
 if (!OPENROUTER_API_KEY) {
@@ -38,8 +57,23 @@ server.run().catch(console.error);
 export * from './server.js';
 export * from './generators/text-generator.js';
 export * from './generators/github-generator.js';
+export * from './generators/history-generator.js';
 export * from './generators/langchain-generator.js';
 export * from './utils/entity-extractor.js';
 export * from './utils/github-api.js';
+export * from './utils/repository-files.js';
+export * from './utils/repository-sources.js';
+export * from './utils/gitlab-api.js';
+export * from './utils/bitbucket-api.js';
+export * from './utils/gitea-api.js';
+export * from './utils/repository-errors.js';
+export * from './utils/local-repo.js';
+export * from './utils/typescript-analyzer.js';
+export * from './utils/module-resolver.js';
+export * from './utils/python-analyzer.js';
+export * from './utils/hotspot-analyzer.js';
+export * from './utils/ownership-analyzer.js';
+export * from './utils/structure-extractors.js';
+export * from './utils/language-analyzers.js';
 export * from './langchain/config.js';
 export * from './langchain/chains.js';
\ No newline at end of file
@@ -7,8 +7,15 @@ import { AxiosInstance } from 'axios';
 export declare class ArchyServer {
   server: Server;
   axiosInstance: AxiosInstance;
+  githubApiUrl?: string;
+  sourceClients: Record<string, AxiosInstance>;
 
-  constructor(githubToken?: string);
+  constructor(
+    githubToken?: string,
+    githubApiUrl?: string,
+    sourceTokens?: Record<string, string | undefined>,
+    sourceApiUrls?: Record<string, string | undefined>
+  );
   
   setupToolHandlers(): void;
   
@@ -16,6 +23,12 @@ export declare class ArchyServer {
   
   handleGenerateDiagramFromGithub(args: any): Promise<object>;
   
+  handleGenerateDiagramFromRepository(args: any): Promise<object>;
+  
+  handleGenerateDiagramFromLocalRepo(args: any): Promise<object>;
+  handleGenerateHotspotDiagram(args: any): Promise<object>;
+  handleGenerateOwnershipDiagram(args: any): Promise<object>;
+  
   handleListSupportedDiagramTypes(): object;
   
   handleGenerateDiagramFromTextWithAI(args: any): Promise<object>;
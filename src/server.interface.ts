@@ -11,6 +11,10 @@ export interface IArchyServer {
   setupToolHandlers(): void;
   handleGenerateDiagramFromText(args: any): Promise<object>;
   handleGenerateDiagramFromGithub(args: any): Promise<object>;
+  handleGenerateDiagramFromRepository(args: any): Promise<object>;
+  handleGenerateDiagramFromLocalRepo(args: any): Promise<object>;
+  handleGenerateHotspotDiagram(args: any): Promise<object>;
+  handleGenerateOwnershipDiagram(args: any): Promise<object>;
   handleListSupportedDiagramTypes(): object;
   handleGenerateDiagramFromTextWithAI(args: any): Promise<object>;
   handleGenerateDiagramFromCode(args: any): Promise<object>;
@@ -16,31 +16,73 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { AxiosInstance } from 'axios';
 
-import { createGitHubApiClient, fetchRepositoryData, extractRepoInfoFromUrl } from './utils/github-api.js';
+import { createGitHubApiClient, fetchRepositoryData, extractRepoInfoFromUrl, parseGitHubUrl } from './utils/github-api.js';
+import { RepositoryError } from './utils/repository-errors.js';
+import { getRepositorySource, REPOSITORY_SOURCES } from './utils/repository-sources.js';
 import { generateDiagramFromText } from './generators/text-generator.js';
 import { generateDiagramFromGithub } from './generators/github-generator.js';
+import {
+  formatHotspotTable,
+  formatOwnershipTable,
+  generateArchitectureEvolution,
+  generateBranchGitGraph,
+  generateHotspotDiagram,
+  generateOwnershipDiagram
+} from './generators/history-generator.js';
 import {
   generateDiagramFromTextWithAI,
   generateDiagramFromCode,
-  generateDiffDiagram
+  generateDiffDiagram,
+  generateDiagramFromLocalRepo
 } from './generators/langchain-generator.js';
 import { isApiConfigured } from './langchain/config.js';
 import { exportDiagramInMemory, exportDiagramToDataUrl, ImageFormat } from './utils/image-exporter.js';
-import { InMemoryGit } from './utils/git-memory.js';
+import { CommitRange, InMemoryGit } from './utils/git-memory.js';
+import { analyzeHotspots, getChangedFiles } from './utils/hotspot-analyzer.js';
+import { analyzeOwnership, CODEOWNERS_PATHS, CodeOwnersRule, parseCodeOwners } from './utils/ownership-analyzer.js';
+import { selectApiBaseUrl, selectCodeFiles } from './utils/repository-files.js';
 import { validateMermaidSyntax, validateAndFixMermaidSyntax } from './utils/mermaid-validator.js';
 import { addColorContrastDirective, applyAllStylingDirectives } from './utils/mermaid-styler.js';
 
 // Define a generic type for all tool arguments
 type ToolArguments = Record<string, any>;
 
+/**
+ * Read the `since` and `until` dates of the tool arguments.
+ *
+ * @param {ToolArguments} args - The tool arguments
+ * @returns {CommitRange} The date range of the commits to analyze
+ * @throws {McpError} If a date cannot be parsed
+ */
+function parseCommitRange(args: ToolArguments): CommitRange {
+  const range: CommitRange = {
+    since: args.since ? new Date(args.since) : undefined,
+    until: args.until ? new Date(args.until) : undefined
+  };
+  if ((range.since && isNaN(range.since.getTime())) || (range.until && isNaN(range.until.getTime()))) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Invalid parameters: since and until must be dates such as 2024-01-01'
+    );
+  }
+  return range;
+}
+
 /**
  * Archy MCP Server class
  */
 export class ArchyServer {
   server: Server;
   axiosInstance: AxiosInstance;
+  githubApiUrl?: string;
+  sourceClients: Record<string, AxiosInstance>;
 
-  constructor(githubToken?: string) {
+  constructor(
+    githubToken?: string,
+    githubApiUrl?: string,
+    sourceTokens: Record<string, string | undefined> = {},
+    sourceApiUrls: Record<string, string | undefined> = {}
+  ) {
     this.server = new Server(
       {
         name: 'archy',
@@ -53,7 +95,15 @@ export class ArchyServer {
       }
     );
 
-    this.axiosInstance = createGitHubApiClient(githubToken);
+    this.axiosInstance = createGitHubApiClient(githubToken, githubApiUrl);
+    this.githubApiUrl = githubApiUrl;
+    
+    // GitHub requests share the client of the GitHub tools, so they share its response cache.
+    // Each token is only sent to the API it was configured for.
+    this.sourceClients = { github: this.axiosInstance };
+    for (const source of Object.values(REPOSITORY_SOURCES)) {
+      this.sourceClients[source.provider] ??= source.createClient(sourceTokens[source.provider], sourceApiUrls[source.provider]);
+    }
     this.setupToolHandlers();
     
     this.server.onerror = (error) => console.error('[MCP Error]', error);
@@ -95,10 +145,13 @@ export class ArchyServer {
               type: 'string',
               description: 'Type of diagram to generate (flowchart, class, sequence, etc.)',
               enum: diagramTypes
+            },
+            data: {
+              description: 'Structured data for data-driven diagrams (pieChart): an array of {label, value} objects or an object mapping labels to values',
             }
           },
           required: ['description', 'diagramType'],
-        },
+        } as any,
       },
       {
         name: 'generate_diagram_from_github',
@@ -114,10 +167,176 @@ export class ArchyServer {
               type: 'string',
               description: 'Type of diagram to generate (flowchart, class, sequence, etc.)',
               enum: diagramTypes
+            },
+            apiBaseUrl: {
+              type: 'string',
+              description: 'Base URL of the GitHub API, such as https://github.example.com/api/v3 for GitHub Enterprise Server (default: derived from the repository URL). The token is only sent to api.github.com and the configured GITHUB_API_URL',
+            },
+            ref: {
+              type: 'string',
+              description: 'Branch, tag or commit SHA to diagram (default: the ref of a tree or blob URL, or the default branch)',
+            },
+            path: {
+              type: 'string',
+              description: 'Directory or file to scope the diagram to (default: the path of a tree or blob URL, or the repository root)',
+            },
+            maxFiles: {
+              type: 'number',
+              description: 'Maximum number of code files to analyze',
+              default: 50
+            },
+            maxBytes: {
+              type: 'number',
+              description: 'Maximum total size of the analyzed code files, in bytes',
+              default: 1000000
             }
           },
           required: ['repoUrl', 'diagramType'],
-        },
+        } as any,
+      },
+      {
+        name: 'generate_diagram_from_repository',
+        description: 'Generate a Mermaid diagram from a GitHub, GitLab, Bitbucket or Gitea repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repoUrl: {
+              type: 'string',
+              description: 'URL of the repository, or of a directory or file in it',
+            },
+            diagramType: {
+              type: 'string',
+              description: 'Type of diagram to generate (flowchart, class, sequence, etc.)',
+              enum: diagramTypes
+            },
+            provider: {
+              type: 'string',
+              description: 'Hosting provider of the repository (default: recognized from the URL host, required for self-hosted instances with other host names)',
+              enum: Object.keys(REPOSITORY_SOURCES)
+            },
+            apiBaseUrl: {
+              type: 'string',
+              description: 'Base URL of the API of the provider (default: derived from the repository URL)',
+            },
+            ref: {
+              type: 'string',
+              description: 'Branch, tag or commit SHA to diagram (default: the ref of the URL, or the default branch)',
+            },
+            path: {
+              type: 'string',
+              description: 'Directory or file to scope the diagram to (default: the path of the URL, or the repository root)',
+            },
+            maxFiles: {
+              type: 'number',
+              description: 'Maximum number of code files to analyze',
+              default: 50
+            },
+            maxBytes: {
+              type: 'number',
+              description: 'Maximum total size of the analyzed code files, in bytes',
+              default: 1000000
+            }
+          },
+          required: ['repoUrl', 'diagramType'],
+        } as any,
+      },
+      {
+        name: 'generate_diagram_from_local_repo',
+        description: 'Generate a Mermaid diagram from a repository on the local file system',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repoPath: {
+              type: 'string',
+              description: 'Path to the repository on disk',
+            },
+            diagramType: {
+              type: 'string',
+              description: 'Type of diagram to generate (flowchart, class, sequence, etc.)',
+              enum: diagramTypes
+            },
+            filePatterns: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Glob patterns of files to analyze (default: **/*.ts, **/*.js)',
+            }
+          },
+          required: ['repoPath', 'diagramType'],
+        } as any,
+      },
+      {
+        name: 'generate_hotspot_diagram',
+        description: 'Generate a heatmap of the code files of a repository that change most often, weighted by their size, with a ranked table',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repoUrl: {
+              type: 'string',
+              description: 'URL of the git repository',
+            },
+            commitLimit: {
+              type: 'number',
+              description: 'Number of commits to count changes in',
+              default: 50
+            },
+            since: {
+              type: 'string',
+              description: 'Only count commits made at or after this date, such as 2024-01-01 (optional)',
+            },
+            until: {
+              type: 'string',
+              description: 'Only count commits made at or before this date, such as 2024-06-30T12:00:00Z (optional)',
+            },
+            top: {
+              type: 'number',
+              description: 'Number of files to draw and rank',
+              default: 30
+            }
+          },
+          required: ['repoUrl'],
+        } as any,
+      },
+      {
+        name: 'generate_ownership_diagram',
+        description: 'Generate a diagram of the people and CODEOWNERS teams maintaining the components of a repository, highlighting components with a bus factor of 1',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repoUrl: {
+              type: 'string',
+              description: 'URL of the git repository',
+            },
+            commitLimit: {
+              type: 'number',
+              description: 'Number of commits to attribute',
+              default: 100
+            },
+            since: {
+              type: 'string',
+              description: 'Only attribute commits made at or after this date, such as 2024-01-01 (optional)',
+            },
+            until: {
+              type: 'string',
+              description: 'Only attribute commits made at or before this date, such as 2024-06-30T12:00:00Z (optional)',
+            },
+            depth: {
+              type: 'number',
+              description: 'Number of directory levels of a component, such as 2 for src/utils',
+              default: 2
+            },
+            topContributors: {
+              type: 'number',
+              description: 'Number of contributors drawn per component',
+              default: 3
+            },
+            useCodeOwners: {
+              type: 'boolean',
+              description: 'Compare the contributors with the owners declared in the CODEOWNERS file of the repository',
+              default: true
+            }
+          },
+          required: ['repoUrl'],
+        } as any,
       },
       {
         name: 'list_supported_diagram_types',
@@ -251,6 +470,19 @@ export class ArchyServer {
                 type: 'number',
                 description: 'Maximum number of commits to analyze',
                 default: 10
+              },
+              since: {
+                type: 'string',
+                description: 'Only analyze commits made at or after this date, such as 2024-01-01 (optional)',
+              },
+              until: {
+                type: 'string',
+                description: 'Only analyze commits made at or before this date, such as 2024-06-30T12:00:00Z (optional)',
+              },
+              snapshots: {
+                type: 'number',
+                description: 'Number of commits whose module dependencies are compared in flowchart diagrams',
+                default: 3
               }
             },
             required: ['repoUrl', 'diagramType'],
@@ -271,6 +503,18 @@ export class ArchyServer {
         case 'generate_diagram_from_github':
           return this.handleGenerateDiagramFromGithub(request.params.arguments);
         
+        case 'generate_diagram_from_repository':
+          return this.handleGenerateDiagramFromRepository(request.params.arguments);
+        
+        case 'generate_diagram_from_local_repo':
+          return this.handleGenerateDiagramFromLocalRepo(request.params.arguments);
+        
+        case 'generate_hotspot_diagram':
+          return this.handleGenerateHotspotDiagram(request.params.arguments);
+        
+        case 'generate_ownership_diagram':
+          return this.handleGenerateOwnershipDiagram(request.params.arguments);
+        
         case 'list_supported_diagram_types':
           return this.handleListSupportedDiagramTypes();
         
@@ -306,7 +550,7 @@ export class ArchyServer {
       );
     }
 try {
-  let mermaidCode = generateDiagramFromText(args.diagramType, args.description);
+  let mermaidCode = generateDiagramFromText(args.diagramType, args.description, args.data);
   
   // Validate and fix the Mermaid syntax
   const validationResult = await validateMermaidSyntax(mermaidCode);
@@ -349,9 +593,18 @@ try {
     }
 
     try {
-      const [owner, repo] = extractRepoInfoFromUrl(args.repoUrl);
+      const { owner, repo, ref, path, refPath, apiBaseUrl } = parseGitHubUrl(args.repoUrl);
       
-      const repoData = await fetchRepositoryData(this.axiosInstance, owner, repo);
+      // Explicit arguments take precedence over what the URL implies, and the configured API only serves its own host
+      const repoData = await fetchRepositoryData(this.axiosInstance, owner, repo, {
+        maxFiles: args.maxFiles,
+        maxBytes: args.maxBytes,
+        ref: args.ref || ref,
+        path: args.path ?? path,
+        refPath: args.ref || args.path !== undefined ? undefined : refPath,
+        apiBaseUrl: args.apiBaseUrl || selectApiBaseUrl(apiBaseUrl, this.githubApiUrl)
+      });
+      const target = `${owner}/${repo}${repoData.path ? `/${repoData.path}` : ''}@${repoData.ref}`;
       let mermaidCode = generateDiagramFromGithub(args.diagramType, owner, repo, repoData);
       
       // Validate and fix the Mermaid syntax
@@ -359,7 +612,119 @@ try {
       if (!validationResult.isValid) {
         console.warn(`Mermaid syntax validation failed: ${validationResult.error?.message}`);
         // Try to fix the syntax, passing repository info for context
-        const repoContext = `GitHub repository: ${owner}/${repo}`;
+        const repoContext = `GitHub repository: ${target}`;
+        mermaidCode = await validateAndFixMermaidSyntax(mermaidCode, args.diagramType, repoContext);
+      }
+      
+      // Apply all styling directives for maximum visibility and clean layout
+      mermaidCode = applyAllStylingDirectives(mermaidCode);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Generated ${args.diagramType} diagram for ${target} with clean layout and optimal readability:\n\n\`\`\`mermaid\n${mermaidCode}\n\`\`\``,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            // The error code tells agents whether to fix the URL, ask for a token or wait for the rate limit
+            text: error instanceof RepositoryError
+              ? `Error generating diagram from GitHub (${error.code}): ${error.message}`
+              : `Error generating diagram from GitHub: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  async handleGenerateDiagramFromRepository(args: ToolArguments): Promise<object> {
+    if (!args.repoUrl || !args.diagramType) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Missing required parameters: repoUrl and diagramType'
+      );
+    }
+
+    let providerName = 'repository';
+    try {
+      const source = getRepositorySource(args.repoUrl, args.provider);
+      providerName = source.displayName;
+      const { owner, repo, ref, path, refPath, apiBaseUrl } = source.parseUrl(args.repoUrl);
+      
+      // Explicit arguments take precedence over what the URL implies, and the configured API only serves its own host
+      const repoData = await source.fetchRepositoryData(this.sourceClients[source.provider], owner, repo, {
+        maxFiles: args.maxFiles,
+        maxBytes: args.maxBytes,
+        ref: args.ref || ref,
+        path: args.path ?? path,
+        refPath: args.ref || args.path !== undefined ? undefined : refPath,
+        apiBaseUrl: args.apiBaseUrl || selectApiBaseUrl(apiBaseUrl, source.provider === 'github' ? this.githubApiUrl : undefined)
+      });
+      const target = `${owner}/${repo}${repoData.path ? `/${repoData.path}` : ''}@${repoData.ref}`;
+      let mermaidCode = generateDiagramFromGithub(args.diagramType, owner, repo, repoData);
+      
+      // Validate and fix the Mermaid syntax
+      const validationResult = await validateMermaidSyntax(mermaidCode);
+      if (!validationResult.isValid) {
+        console.warn(`Mermaid syntax validation failed: ${validationResult.error?.message}`);
+        // Try to fix the syntax, passing repository info for context
+        const repoContext = `${source.displayName} repository: ${target}`;
+        mermaidCode = await validateAndFixMermaidSyntax(mermaidCode, args.diagramType, repoContext);
+      }
+      
+      // Apply all styling directives for maximum visibility and clean layout
+      mermaidCode = applyAllStylingDirectives(mermaidCode);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Generated ${args.diagramType} diagram for ${source.displayName} repository ${target} with clean layout and optimal readability:\n\n\`\`\`mermaid\n${mermaidCode}\n\`\`\``,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: error instanceof RepositoryError
+              ? `Error generating diagram from ${providerName} (${error.code}): ${error.message}`
+              : `Error generating diagram from ${providerName}: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  async handleGenerateDiagramFromLocalRepo(args: ToolArguments): Promise<object> {
+    if (!args.repoPath || !args.diagramType) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Missing required parameters: repoPath and diagramType'
+      );
+    }
+
+    try {
+      let mermaidCode = await generateDiagramFromLocalRepo(
+        args.diagramType,
+        args.repoPath,
+        args.filePatterns
+      );
+      
+      // Validate and fix the Mermaid syntax
+      const validationResult = await validateMermaidSyntax(mermaidCode);
+      if (!validationResult.isValid) {
+        console.warn(`Mermaid syntax validation failed: ${validationResult.error?.message}`);
+        // Try to fix the syntax, passing repository info for context
+        const repoContext = `Local repository: ${args.repoPath}`;
         mermaidCode = await validateAndFixMermaidSyntax(mermaidCode, args.diagramType, repoContext);
       }
       
@@ -370,7 +735,72 @@ try {
         content: [
           {
             type: 'text',
-            text: `Generated ${args.diagramType} diagram for ${owner}/${repo} with clean layout and optimal readability:\n\n\`\`\`mermaid\n${mermaidCode}\n\`\`\``,
+            text: `Generated ${args.diagramType} diagram for local repository ${args.repoPath} with clean layout and optimal readability:\n\n\`\`\`mermaid\n${mermaidCode}\n\`\`\``,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error generating diagram from local repository: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  async handleGenerateHotspotDiagram(args: ToolArguments): Promise<object> {
+    if (!args.repoUrl) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Missing required parameter: repoUrl'
+      );
+    }
+    
+    const range = parseCommitRange(args);
+    const git = new InMemoryGit();
+
+    try {
+      const commitLimit = args.commitLimit || 50;
+      const top = args.top || 30;
+      
+      // Only the history of the default branch is counted
+      await git.clone(args.repoUrl, undefined, { depth: commitLimit + 1, maxBranches: 1 });
+      
+      const commits = await git.getCommits(commitLimit, range);
+      if (commits.length === 0) {
+        throw new Error(`No commits found${args.since ? ` since ${args.since}` : ''}${args.until ? ` until ${args.until}` : ''}`);
+      }
+      
+      // Sizes are taken at the newest commit, of the code files selected like for repository diagrams
+      const codeFiles = selectCodeFiles(
+        getChangedFiles(commits).map(path => ({ path, type: 'blob', sha: path })),
+        Infinity,
+        Infinity
+      );
+      const lineCounts = await git.getLineCounts(codeFiles.map(file => file.path), commits[0].sha);
+      const analysis = analyzeHotspots(commits, lineCounts);
+      
+      let mermaidCode = generateHotspotDiagram(analysis, top);
+      
+      // Validate and fix the Mermaid syntax
+      const validationResult = await validateMermaidSyntax(mermaidCode);
+      if (!validationResult.isValid) {
+        console.warn(`Mermaid syntax validation failed: ${validationResult.error?.message}`);
+        mermaidCode = await validateAndFixMermaidSyntax(mermaidCode, 'flowchart', `Hotspots of ${args.repoUrl}`);
+      }
+      
+      // Apply all styling directives for maximum visibility and clean layout
+      mermaidCode = applyAllStylingDirectives(mermaidCode);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Generated hotspot diagram of ${args.repoUrl} from ${analysis.commits} commits, scored by commits times lines:\n\n\`\`\`mermaid\n${mermaidCode}\n\`\`\`\n\n${formatHotspotTable(analysis, top)}`,
           },
         ],
       };
@@ -379,11 +809,97 @@ try {
         content: [
           {
             type: 'text',
-            text: `Error generating diagram from GitHub: ${error instanceof Error ? error.message : String(error)}`,
+            text: `Error generating hotspot diagram: ${error instanceof Error ? error.message : String(error)}`,
           },
         ],
         isError: true,
       };
+    } finally {
+      await git.dispose();
+    }
+  }
+
+  async handleGenerateOwnershipDiagram(args: ToolArguments): Promise<object> {
+    if (!args.repoUrl) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Missing required parameter: repoUrl'
+      );
+    }
+    
+    const range = parseCommitRange(args);
+    const git = new InMemoryGit();
+
+    try {
+      const commitLimit = args.commitLimit || 100;
+      const topContributors = args.topContributors || 3;
+      
+      // Only the history of the default branch is attributed
+      await git.clone(args.repoUrl, undefined, { depth: commitLimit + 1, maxBranches: 1 });
+      
+      const commits = await git.getCommits(commitLimit, range);
+      if (commits.length === 0) {
+        throw new Error(`No commits found${args.since ? ` since ${args.since}` : ''}${args.until ? ` until ${args.until}` : ''}`);
+      }
+      
+      // The CODEOWNERS file is read at the newest commit, from the first location it is found at
+      let codeOwners: CodeOwnersRule[] | undefined;
+      if (args.useCodeOwners !== false) {
+        for (const path of CODEOWNERS_PATHS) {
+          try {
+            codeOwners = parseCodeOwners(await git.getFileAtCommit(path, commits[0].sha));
+            break;
+          } catch (error) {
+            // No CODEOWNERS file at this path
+          }
+        }
+      }
+      
+      const codeFiles = selectCodeFiles(
+        getChangedFiles(commits).map(path => ({ path, type: 'blob', sha: path })),
+        Infinity,
+        Infinity
+      );
+      const analysis = analyzeOwnership(
+        commits,
+        new Set(codeFiles.map(file => file.path)),
+        args.depth || 2,
+        codeOwners,
+        topContributors
+      );
+      
+      let mermaidCode = generateOwnershipDiagram(analysis, topContributors);
+      
+      // Validate and fix the Mermaid syntax
+      const validationResult = await validateMermaidSyntax(mermaidCode);
+      if (!validationResult.isValid) {
+        console.warn(`Mermaid syntax validation failed: ${validationResult.error?.message}`);
+        mermaidCode = await validateAndFixMermaidSyntax(mermaidCode, 'flowchart', `Ownership of ${args.repoUrl}`);
+      }
+      
+      // Apply all styling directives for maximum visibility and clean layout
+      mermaidCode = applyAllStylingDirectives(mermaidCode);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Generated ownership diagram of ${args.repoUrl} from ${analysis.commits} commits${analysis.hasCodeOwners ? ', compared with its CODEOWNERS file' : ''}:\n\n\`\`\`mermaid\n${mermaidCode}\n\`\`\`\n\n${formatOwnershipTable(analysis, topContributors)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error generating ownership diagram: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    } finally {
+      await git.dispose();
     }
   }
 
@@ -620,34 +1136,40 @@ try {
         'Missing required parameters: repoUrl and diagramType'
       );
     }
+    
+    const range = parseCommitRange(args);
+    const git = new InMemoryGit();
 
     try {
       const [owner, repo] = extractRepoInfoFromUrl(args.repoUrl);
       
       const commitLimit = args.commitLimit || 10;
       
-      const git = new InMemoryGit();
-      
-      await git.clone(args.repoUrl);
+      // One commit more than analyzed is fetched, so the oldest one can be diffed against its parent
+      await git.clone(args.repoUrl, undefined, { depth: commitLimit + 1 });
       
-      const commits = await git.getCommits(commitLimit);
+      // The changes of the commits are only read for the diagrams drawn from them
+      const getCommits = async () => {
+        const commits = await git.getCommits(commitLimit, range);
+        if (commits.length === 0) {
+          throw new Error(`No commits found${args.since ? ` since ${args.since}` : ''}${args.until ? ` until ${args.until}` : ''}`);
+        }
+        return commits;
+      };
       
       let mermaidCode: string;
-      let needsValidation = true;
       
       if (args.filepath) {
-        const fileEvolution = await git.getFileEvolution(args.filepath, commitLimit);
-        
         if (args.diagramType === 'gitGraph') {
-          mermaidCode = `gitGraph
-    commit id: "${fileEvolution[0]?.sha?.substring(0, 7) || 'initial'}" tag: "initial"`;
-          
-          for (let i = 1; i < fileEvolution.length; i++) {
-            const commit = fileEvolution[i];
-            mermaidCode += `
-    commit id: "${commit.sha.substring(0, 7)}" tag: "${i}"`;
-          }
+          // The commits of the default branch changing the file are highlighted
+          const changes = (await getCommits()).filter(commit => commit.files.some(file => file.path === args.filepath));
+          mermaidCode = generateBranchGitGraph(
+            await git.getCommitGraph(commitLimit, range),
+            new Set(changes.map(commit => commit.sha))
+          );
         } else {
+          const fileEvolution = await git.getFileEvolution(args.filepath, commitLimit, range);
+          
           if (fileEvolution.length >= 2) {
             const firstVersion = fileEvolution[fileEvolution.length - 1].content;
             const lastVersion = fileEvolution[0].content;
@@ -661,35 +1183,20 @@ try {
         }
       } else {
         if (args.diagramType === 'gitGraph') {
-          mermaidCode = `gitGraph
-    commit id: "${commits[0]?.sha?.substring(0, 7) || 'initial'}" tag: "initial"`;
-          
-          for (let i = 1; i < commits.length; i++) {
-            const commit = commits[i];
-            mermaidCode += `
-    commit id: "${commit.sha.substring(0, 7)}" tag: "${i}"`;
-          }
+          mermaidCode = generateBranchGitGraph(await git.getCommitGraph(commitLimit, range));
         } else if (args.diagramType === 'flowchart') {
-          mermaidCode = `flowchart TD
-    subgraph "Repository Evolution"
-    Start([Start]) --> Commit1[Commit: ${commits[commits.length - 1]?.sha?.substring(0, 7) || 'initial'}]`;
-          
-          for (let i = commits.length - 2; i >= 0; i--) {
-            const commit = commits[i];
-            const nextCommit = commits[i + 1];
-            
-            const filesAdded = commit.files.filter(f => f.type === 'add').length;
-            const filesModified = commit.files.filter(f => f.type === 'modify').length;
-            const filesDeleted = commit.files.filter(f => f.type === 'delete').length;
-            
-            mermaidCode += `
-    Commit${commits.length - i} --> Commit${commits.length - i + 1}[Commit: ${commit.sha.substring(0, 7)}]
-    Commit${commits.length - i + 1} -- "+${filesAdded} -${filesDeleted} ~${filesModified}" --> Changes${commits.length - i + 1}[Changes]`;
+          // Snapshots are taken at evenly spaced commits, from the oldest to the newest analyzed one
+          const commits = await getCommits();
+          const oldestFirst = commits
+            .filter((commit, index) => commits.findIndex(other => other.sha === commit.sha) === index)
+            .reverse();
+          const snapshotCount = Math.max(2, Math.min(args.snapshots || 3, oldestFirst.length));
+          const selected = new Set<string>();
+          for (let i = 0; i < snapshotCount; i++) {
+            selected.add(oldestFirst[Math.round(i * (oldestFirst.length - 1) / (snapshotCount - 1))].sha);
           }
           
-          mermaidCode += `
-    Commit${commits.length} --> End([End])
-    end`;
+          mermaidCode = generateArchitectureEvolution(await git.getArchitectureSnapshots(Array.from(selected)));
         } else {
           mermaidCode = `${args.diagramType}
     note "Repository evolution diagram for ${owner}/${repo} (${args.diagramType})"
@@ -698,14 +1205,12 @@ try {
       }
       
       // Validate and fix the Mermaid syntax if needed
-      if (needsValidation) {
-        const validationResult = await validateMermaidSyntax(mermaidCode);
-        if (!validationResult.isValid) {
-          console.warn(`Mermaid syntax validation failed: ${validationResult.error?.message}`);
-          // Try to fix the syntax, passing repository info for context
-          const repoContext = `Repository evolution diagram for ${owner}/${repo}${args.filepath ? ` (file: ${args.filepath})` : ''}`;
-          mermaidCode = await validateAndFixMermaidSyntax(mermaidCode, args.diagramType, repoContext);
-        }
+      const validationResult = await validateMermaidSyntax(mermaidCode);
+      if (!validationResult.isValid) {
+        console.warn(`Mermaid syntax validation failed: ${validationResult.error?.message}`);
+        // Try to fix the syntax, passing repository info for context
+        const repoContext = `Repository evolution diagram for ${owner}/${repo}${args.filepath ? ` (file: ${args.filepath})` : ''}`;
+        mermaidCode = await validateAndFixMermaidSyntax(mermaidCode, args.diagramType, repoContext);
       }
       
       // Apply all styling directives for maximum visibility and clean layout
@@ -729,6 +1234,8 @@ try {
         ],
         isError: true,
       };
+    } finally {
+      await git.dispose();
     }
   }
 
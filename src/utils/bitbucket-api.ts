@@ -0,0 +1,165 @@
+/**
+ * Bitbucket API Utilities
+ *
+ * This file contains utility functions for interacting with the Bitbucket
+ * Cloud API to fetch repository data for diagram generation in the same
+ * shape as the GitHub repository data.
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { RepoNotFoundError } from './repository-errors.js';
+import { countLanguageBytes, FetchOptions, MAX_TREE_ENTRIES, RepositoryTarget, TreeEntry, fetchTreeFiles, listDirectoryContents, restrictCredentials, toRepositoryError } from './repository-files.js';
+
+/**
+ * Base URL of the Bitbucket Cloud API.
+ */
+export const BITBUCKET_API_BASE_URL = 'https://api.bitbucket.org/2.0';
+
+/**
+ * Deepest directory level listed below the targeted path.
+ */
+const MAX_TREE_DEPTH = 20;
+
+/**
+ * Create an axios instance configured for Bitbucket API requests.
+ *
+ * The token is only sent to the Bitbucket Cloud API, never to other hosts.
+ *
+ * @param {string|undefined} token - Bitbucket repository, project or workspace access token
+ * @returns {AxiosInstance} Configured axios instance
+ */
+export function createBitbucketApiClient(token?: string): AxiosInstance {
+  const client = axios.create();
+  if (token) {
+    restrictCredentials(client, { Authorization: `Bearer ${token}` }, [BITBUCKET_API_BASE_URL]);
+  }
+  return client;
+}
+
+/**
+ * Fetch repository data from the Bitbucket API.
+ *
+ * The files below the targeted path are listed page by page with the source
+ * API, up to `MAX_TREE_ENTRIES` entries, and the highest ranked code files
+ * are then fetched in parallel.
+ * Bitbucket does not report the languages of a repository, so they are
+ * counted from the file sizes of the tree.
+ *
+ * @param {AxiosInstance} apiClient - Axios instance for making API requests
+ * @param {string} owner - The workspace of the repository
+ * @param {string} repo - The repository slug
+ * @param {FetchOptions} options - The ref, path and limits of the fetch
+ * @returns {Promise<any>} A promise that resolves to the repository data
+ * @throws {RepoNotFoundError} If the repository, ref or path does not exist
+ * @throws {AuthRequiredError} If Bitbucket requires a valid token
+ * @throws {RateLimitedError} If the Bitbucket API rate limit is exhausted
+ */
+export async function fetchBitbucketRepositoryData(
+  apiClient: AxiosInstance,
+  owner: string,
+  repo: string,
+  options: FetchOptions = {}
+): Promise<any> {
+  const apiBaseUrl = (options.apiBaseUrl || BITBUCKET_API_BASE_URL).replace(/\/+$/, '');
+  const repoUrl = `${apiBaseUrl}/repositories/${owner}/${repo}`;
+  const scopePath = (options.path || '').replace(/^\/+|\/+$/g, '');
+
+  // Fetch repository information
+  let repoResponse: AxiosResponse;
+  try {
+    repoResponse = await apiClient.get(repoUrl);
+  } catch (error) {
+    throw toRepositoryError(error, 'Bitbucket', `Repository ${owner}/${repo} was not found. Private repositories are only visible with a Bitbucket token that has access to them.`);
+  }
+  const ref: string = options.ref || repoResponse.data.mainbranch?.name;
+  const encodedPath = scopePath.split('/').map(encodeURIComponent).join('/');
+
+  try {
+    // List the files below the targeted path, following the `next` links of the pages
+    const entries: TreeEntry[] = [];
+    let pageUrl: string | undefined = `${repoUrl}/src/${encodeURIComponent(ref)}/${encodedPath}`;
+    let params: Record<string, any> | undefined = { max_depth: MAX_TREE_DEPTH, pagelen: 100 };
+    while (pageUrl) {
+      const srcResponse = await apiClient.get(pageUrl, { params });
+
+      // The path of a file is answered with its content rather than a listing
+      if (!srcResponse.data?.values) {
+        entries.push({ path: scopePath, type: 'blob', sha: scopePath });
+        break;
+      }
+
+      for (const item of srcResponse.data.values) {
+        const type = item.type === 'commit_directory' ? 'tree' : 'blob';
+        entries.push({ path: item.path, type, sha: item.path, size: item.size });
+      }
+      pageUrl = srcResponse.data.next;
+      params = undefined;
+      if (pageUrl && entries.length >= MAX_TREE_ENTRIES) {
+        console.warn(`The file tree of ${owner}/${repo} is too large and was truncated after ${entries.length} entries`);
+        break;
+      }
+    }
+    if (scopePath && entries.length === 0) {
+      throw new RepoNotFoundError(`The path ${scopePath} was not found at ref ${ref} of ${owner}/${repo}.`);
+    }
+
+    // Fetch the code files to analyze and the configuration files
+    const { codeFiles, configFiles } = await fetchTreeFiles(entries, scopePath, options, async (entry: TreeEntry) => {
+      const fileResponse = await apiClient.get(
+        `${repoUrl}/src/${encodeURIComponent(ref)}/${entry.sha.split('/').map(encodeURIComponent).join('/')}`,
+        { responseType: 'text' }
+      );
+      return fileResponse.data;
+    });
+
+    // Return combined repository data
+    return {
+      info: {
+        ...repoResponse.data,
+        html_url: repoResponse.data.links?.html?.href,
+        default_branch: repoResponse.data.mainbranch?.name
+      },
+      contents: listDirectoryContents(entries, scopePath),
+      languages: countLanguageBytes(entries),
+      codeFiles: codeFiles,
+      configFiles: configFiles,
+      ref: ref,
+      path: scopePath || undefined
+    };
+  } catch (error) {
+    throw toRepositoryError(error, 'Bitbucket', scopePath
+      ? `The path ${scopePath} was not found at ref ${ref} of ${owner}/${repo}.`
+      : `The ref ${ref} was not found in ${owner}/${repo}.`);
+  }
+}
+
+/**
+ * Parse a Bitbucket URL into the repository, ref and path it targets.
+ *
+ * Besides repository URLs, `/src/<ref>/<path>` URLs are understood; refs
+ * containing slashes have to be given separately.
+ *
+ * @param {string} url - Bitbucket repository or source URL
+ * @returns {RepositoryTarget} The targeted repository, ref and path
+ * @throws {Error} If the URL is not a valid Bitbucket repository URL
+ */
+export function parseBitbucketUrl(url: string): RepositoryTarget {
+  const match = url.trim().match(/^(?:https?:\/\/)?(?:[\w.-]+@)?([^\/:@\s]+)[\/:]([^\/\s]+)\/([^\/?#\s]+)(.*)$/);
+  if (!match) {
+    throw new Error('Invalid Bitbucket repository URL');
+  }
+
+  const [, , owner, repo, rest] = match;
+  const target: RepositoryTarget = { owner, repo: repo.replace(/\.git$/, ''), apiBaseUrl: BITBUCKET_API_BASE_URL };
+
+  const srcMatch = rest.match(/^\/src\/([^\/?#]+)(?:\/([^?#]*))?/);
+  if (srcMatch) {
+    target.ref = decodeURIComponent(srcMatch[1]);
+    const path = decodeURIComponent(srcMatch[2] || '').replace(/\/+$/, '');
+    if (path) {
+      target.path = path;
+    }
+  }
+
+  return target;
+}
@@ -130,12 +130,12 @@ export function extractRelationships(description: string, entities: string[]): A
 export function extractProcessSteps(description: string): string[] {
   const steps: string[] = [];
   
-  // Look for numbered lists
-  const numberedListRegex = /\b(\d+)[.)][\s]+([^\n.]+)/g;
+  // Look for numbered lists, with one item per line or several on one line
+  const numberedListRegex = /(?:^|\s)(\d+)[.)]\s+([^\n]+?)(?=\s+\d+[.)]\s|\.\s|[.;]?\s*$)/gm;
   let match;
   
   while ((match = numberedListRegex.exec(description)) !== null) {
-    steps.push(match[2].trim());
+    steps.push(match[2].replace(/[\s;,]+$/, ''));
   }
   
   // If no numbered list was found, look for steps indicated by keywords
@@ -168,4 +168,1392 @@ export function extractProcessSteps(description: string): string[] {
   }
   
   return steps;
-}
\ No newline at end of file
+}
+/**
+ * A transition between two states.
+ */
+export interface StateTransition {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+/**
+ * The states and transitions described in a text.
+ *
+ * States are keyed by their display name. A state listed in `composites`
+ * groups the states and transitions that were described "within" it.
+ */
+export interface StateMachine {
+  states: string[];
+  transitions: StateTransition[];
+  initialStates: string[];
+  finalStates: string[];
+  composites: Record<string, {
+    states: string[];
+    transitions: StateTransition[];
+    initialStates: string[];
+    finalStates: string[];
+  }>;
+}
+
+/**
+ * Build a regex alternation of keywords that tolerates a capitalized first letter.
+ *
+ * Regexes with multi-word names cannot use the `i` flag, because names are
+ * recognized by their capitalized words.
+ *
+ * @param {string[]} words - The lowercase keywords
+ * @returns {string} A non-capturing regex group matching any of the keywords
+ */
+function keywords(...words: string[]): string {
+  return `(?:${words.map(word => `[${word[0].toUpperCase()}${word[0]}]${word.substring(1)}`).join('|')})`;
+}
+
+// A state name: one word, optionally followed by more capitalized words,
+// with a leading article and a trailing "state" ignored
+const STATE_NAME = `(?:${keywords('the', 'a', 'an')}\\s+)?([A-Za-z][\\w-]*(?:\\s+[A-Z][\\w-]*)*)(?:\\s+state)?`;
+
+// The condition that triggers a transition, e.g. "when the manager signs"
+const TRANSITION_TRIGGER = `(?:\\s+(when|on|after|if|once|upon|via)\\s+(.+))?`;
+
+/**
+ * Build a transition label from a trigger keyword and its condition.
+ *
+ * @param {string|undefined} keyword - The trigger keyword ("when", "after", ...)
+ * @param {string|undefined} condition - The condition following the keyword
+ * @returns {string|undefined} The label, or undefined if there is no condition
+ */
+function buildTransitionLabel(keyword?: string, condition?: string): string | undefined {
+  if (!condition) {
+    return undefined;
+  }
+  
+  const cleaned = condition.replace(/[:"]/g, '').trim();
+  return keyword && keyword.toLowerCase() !== 'when' ? `${keyword.toLowerCase()} ${cleaned}` : cleaned;
+}
+
+/**
+ * Extract states and transitions from a text description.
+ *
+ * Recognizes phrases such as "from Pending to Approved when the manager signs",
+ * "Approved moves to Archived after 30 days", "starts in Draft",
+ * "ends when Archived" and "within Review, ..." for composite states.
+ *
+ * @param {string} description - The text description to analyze
+ * @returns {StateMachine} The identified states and transitions
+ */
+export function extractStateMachine(description: string): StateMachine {
+  const machine: StateMachine = {
+    states: [],
+    transitions: [],
+    initialStates: [],
+    finalStates: [],
+    composites: {}
+  };
+  
+  const fromToRegex = new RegExp(`\\b${keywords('from')}\\s+${STATE_NAME}\\s+to\\s+${STATE_NAME}${TRANSITION_TRIGGER}`);
+  const movesToRegex = new RegExp(`^${STATE_NAME}\\s+(?:transitions|moves|goes|changes|switches|returns|leads|proceeds)\\s+(?:back\\s+)?to\\s+${STATE_NAME}${TRANSITION_TRIGGER}`);
+  const initialRegex = new RegExp(`\\b(?:${keywords('starts', 'begins', 'start', 'begin')}\\s+(?:in|as|at|with|from)|${keywords('initial')}\\s+state\\s+is)\\s+${STATE_NAME}`);
+  const finalRegex = new RegExp(`\\b(?:${keywords('ends', 'end', 'finishes', 'terminates')}\\s+(?:when|in|at|with|as)|${keywords('final')}\\s+state\\s+is)\\s+${STATE_NAME}`);
+  const finalSuffixRegex = new RegExp(`^${STATE_NAME}\\s+is\\s+(?:a\\s+|the\\s+)?(?:final|terminal|end)\\b`);
+  const scopeRegex = new RegExp(`^\\s*${keywords('within', 'inside')}\\s+${STATE_NAME}\\s*,\\s*`);
+  
+  const addState = (name: string, scope?: string) => {
+    if (!machine.states.includes(name)) {
+      machine.states.push(name);
+    }
+    if (scope && name !== scope && !machine.composites[scope].states.includes(name)) {
+      machine.composites[scope].states.push(name);
+    }
+  };
+  
+  const sentences = description.split(/(?:[.;!?](?:\s+|$))|\n+/);
+  
+  for (let sentence of sentences) {
+    // A sentence starting with "within X," describes the inside of composite state X
+    let scope: string | undefined;
+    const scopeMatch = sentence.match(scopeRegex);
+    if (scopeMatch) {
+      scope = scopeMatch[1].trim();
+      sentence = sentence.substring(scopeMatch[0].length);
+      addState(scope);
+      if (!machine.composites[scope]) {
+        machine.composites[scope] = { states: [], transitions: [], initialStates: [], finalStates: [] };
+      }
+    }
+    
+    const target = scope ? machine.composites[scope] : machine;
+    const clauses = sentence.split(/\s*,\s*(?:and\s+|then\s+)?|\s+(?:and\s+)?then\s+|\s+and\s+(?=from\b|starts?\b|begins?\b|ends?\b)/i);
+    
+    for (const clause of clauses) {
+      const trimmed = clause.trim();
+      if (!trimmed) {
+        continue;
+      }
+      
+      const transitionMatch = trimmed.match(fromToRegex) || trimmed.match(movesToRegex);
+      if (transitionMatch) {
+        const from = transitionMatch[1].trim();
+        const to = transitionMatch[2].trim();
+        addState(from, scope);
+        addState(to, scope);
+        target.transitions.push({
+          from,
+          to,
+          label: buildTransitionLabel(transitionMatch[3], transitionMatch[4])
+        });
+        continue;
+      }
+      
+      const initialMatch = trimmed.match(initialRegex);
+      if (initialMatch) {
+        const state = initialMatch[1].trim();
+        addState(state, scope);
+        if (!target.initialStates.includes(state)) {
+          target.initialStates.push(state);
+        }
+        continue;
+      }
+      
+      const finalMatch = trimmed.match(finalRegex) || trimmed.match(finalSuffixRegex);
+      if (finalMatch) {
+        const state = finalMatch[1].trim();
+        addState(state, scope);
+        if (!target.finalStates.includes(state)) {
+          target.finalStates.push(state);
+        }
+      }
+    }
+  }
+  
+  return machine;
+}
+
+/**
+ * A task in a project schedule.
+ */
+export interface GanttTask {
+  id: string;
+  name: string;
+  start?: string;
+  end?: string;
+  duration?: string;
+  dependencies: string[];
+  milestone: boolean;
+  tags: string[];
+}
+
+/**
+ * A project schedule made of sections containing tasks.
+ */
+export interface GanttSchedule {
+  title?: string;
+  excludesWeekends: boolean;
+  sections: Array<{ name: string; tasks: GanttTask[] }>;
+}
+
+/**
+ * A status keyword prefixing a task, such as "done: Design API".
+ */
+const STATUS_PREFIX = /^\s*(?:done|completed?|finished|active|in progress|ongoing|critical|crit)\s*:\s*/i;
+
+/**
+ * Extract tasks, durations, dates and dependencies from a text description.
+ *
+ * Tasks are separated by semicolons or line breaks, or given as a numbered
+ * list, on separate lines or on one. Each task may carry a duration
+ * ("5 days", "10d", "2 weeks"), an absolute start date ("starts 2026-11-02"),
+ * an end date ("to 2026-11-20"), dependencies ("after Design API") and
+ * status keywords ("(done)", ", crit" or "active:"). Lines like
+ * "section QA" start a new section.
+ *
+ * @param {string} description - The text description to analyze
+ * @returns {GanttSchedule} The identified schedule
+ */
+export function extractGanttSchedule(description: string): GanttSchedule {
+  const schedule: GanttSchedule = {
+    excludesWeekends: /\b(?:exclud\w*|skip\w*|no)\s+weekends?\b/i.test(description),
+    sections: []
+  };
+  
+  const rawTasks: Array<{ section: string; text: string }> = [];
+  let currentSection = '';
+  
+  // Numbered lists are split by the process step extractor before semicolons are,
+  // so their items may carry details separated by semicolons and share a line
+  const segments = description.split('\n').flatMap(line =>
+    /^\s*\d+[.)]\s/.test(line) ? extractProcessSteps(line) : line.split(';'));
+  
+  for (let segment of segments) {
+    segment = segment.trim();
+    if (!segment) {
+      continue;
+    }
+    
+    if (/^(?:exclud\w*|skip\w*|no)\s+weekends?$/i.test(segment)) {
+      continue;
+    }
+    
+    const titleMatch = segment.match(/^title[:\s]+(.+)$/i);
+    if (titleMatch) {
+      schedule.title = titleMatch[1].trim();
+      continue;
+    }
+    
+    // "section QA" or "section QA: Test login, 3d"
+    const sectionMatch = segment.match(/^section\s+([^:,]+?)\s*(?:[:,]\s*(.*))?$/i);
+    if (sectionMatch) {
+      currentSection = sectionMatch[1].trim();
+      segment = (sectionMatch[2] || '').trim();
+      if (!segment) {
+        continue;
+      }
+    }
+    
+    // Numbered list items are handled by the process step extractor
+    const items = /^\d+[.)]\s+/.test(segment) ? extractProcessSteps(segment) : [segment];
+    for (const text of items) {
+      rawTasks.push({ section: currentSection, text });
+    }
+  }
+  
+  // First pass: names, ids, dates and durations
+  const usedIds = new Set<string>();
+  const parsed = rawTasks.map(({ section, text }) => {
+    const milestone = /\bmilestone\b/i.test(text);
+    const dates = text.match(/\d{4}-\d{2}-\d{2}/g) || [];
+    const durationMatch = text.match(/\b(\d+(?:\.\d+)?)\s*(d|days?|w|wks?|weeks?|h|hrs?|hours?)\b/i);
+    const dependencyMatch = text.match(/\bafter\s+(.+?)(?:\s*,|\s+(?:for|takes?|lasting|starts?|starting)\b|\s+\d+(?:\.\d+)?\s*(?:d|days?|w|wks?|weeks?|h|hrs?|hours?)\b|$)/i);
+    
+    let duration: string | undefined;
+    if (durationMatch) {
+      const unit = durationMatch[2].toLowerCase()[0];
+      duration = `${durationMatch[1]}${unit}`;
+    }
+    
+    // The task name is the text before any scheduling details
+    const name = text
+      .split(',')[0]
+      .replace(STATUS_PREFIX, '')
+      .replace(/\s*\bmilestone\b\s*:?\s*/i, ' ')
+      .replace(/\s+after\s+.*$/i, '')
+      .replace(/\s+(?:starts?|starting|begins?|from|on|at|by|due)\s+\d{4}-\d{2}-\d{2}.*$/i, '')
+      .replace(/\s+(?:for|takes?|lasting)?\s*\d+(?:\.\d+)?\s*(?:d|days?|w|wks?|weeks?|h|hrs?|hours?)\b.*$/i, '')
+      .replace(/\s*[(\[](?:done|completed?|finished|active|in progress|ongoing|critical|crit)[)\]]\s*/gi, ' ')
+      .replace(/[:#]/g, '')
+      .trim() || text.trim();
+    
+    let id = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'task';
+    if (/^[0-9]/.test(id)) {
+      id = `t_${id}`;
+    }
+    const baseId = id;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${baseId}_${n}`;
+    }
+    usedIds.add(id);
+    
+    // Status keywords count in parentheses or brackets, as a prefix or among the
+    // details after the name, so names like "Active Directory setup" keep no status
+    const statusText = [
+      ...Array.from(text.matchAll(/[(\[]([^)\]]*)[)\]]/g), m => m[1]),
+      text.match(STATUS_PREFIX)?.[0] || '',
+      text.split(',').slice(1).join(',')
+    ].join(' ');
+    const tags: string[] = [];
+    if (/\b(?:done|completed?|finished)\b/i.test(statusText)) tags.push('done');
+    if (/\b(?:active|in progress|ongoing)\b/i.test(statusText)) tags.push('active');
+    if (/\b(?:critical|crit)\b/i.test(statusText)) tags.push('crit');
+    
+    return {
+      section,
+      dependencyText: dependencyMatch ? dependencyMatch[1] : '',
+      task: {
+        id,
+        name,
+        start: dates[0],
+        end: dates[1],
+        duration,
+        dependencies: [] as string[],
+        milestone,
+        tags
+      } as GanttTask
+    };
+  });
+  
+  // Second pass: resolve dependency names to task ids
+  for (const { dependencyText, task } of parsed) {
+    if (!dependencyText) {
+      continue;
+    }
+    
+    for (const dependencyName of dependencyText.split(/\s*(?:,|\band\b|&)\s*/)) {
+      const wanted = dependencyName.trim().toLowerCase();
+      const dependency = parsed.find(p => p.task !== task &&
+        (p.task.name.toLowerCase() === wanted || p.task.id === wanted));
+      if (dependency && !task.dependencies.includes(dependency.task.id)) {
+        task.dependencies.push(dependency.task.id);
+      }
+    }
+  }
+  
+  // Group the tasks by section, keeping the order of first appearance
+  for (const { section, task } of parsed) {
+    let group = schedule.sections.find(s => s.name === section);
+    if (!group) {
+      group = { name: section, tasks: [] };
+      schedule.sections.push(group);
+    }
+    group.tasks.push(task);
+  }
+  
+  return schedule;
+}
+
+/**
+ * A labeled value for data-driven diagrams.
+ */
+export interface DataPoint {
+  label: string;
+  value: number;
+  isPercentage: boolean;
+}
+
+/**
+ * Convert structured data to data points.
+ *
+ * Accepts an array of `{label, value}` objects (also `name`/`count`/`percentage`
+ * keys), an array of `[label, value]` pairs, or an object mapping labels to values.
+ *
+ * @param {unknown} data - The structured data
+ * @returns {DataPoint[]} The data points, empty if the data has an unknown shape
+ */
+export function parseStructuredData(data: unknown): DataPoint[] {
+  const points: DataPoint[] = [];
+  
+  const addPoint = (label: unknown, value: unknown, isPercentage: boolean = false) => {
+    const text = String(value ?? '').trim();
+    const numeric = typeof value === 'number' ? value : parseFloat(text);
+    if (label !== undefined && label !== null && String(label).trim() && !isNaN(numeric)) {
+      points.push({ label: String(label).trim(), value: numeric, isPercentage: isPercentage || text.endsWith('%') });
+    }
+  };
+  
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      if (Array.isArray(item) && item.length >= 2) {
+        addPoint(item[0], item[1]);
+      } else if (item && typeof item === 'object') {
+        const record = item as Record<string, unknown>;
+        const label = record.label ?? record.name ?? record.category ?? record.key;
+        if (record.percentage !== undefined || record.percent !== undefined) {
+          addPoint(label, record.percentage ?? record.percent, true);
+        } else {
+          addPoint(label, record.value ?? record.count ?? record.amount);
+        }
+      }
+    }
+  } else if (data && typeof data === 'object') {
+    for (const [label, value] of Object.entries(data as Record<string, unknown>)) {
+      addPoint(label, value);
+    }
+  }
+  
+  return points;
+}
+
+/**
+ * Extract labeled values from a text description.
+ *
+ * Recognizes inline JSON arrays or objects, CSV lines ("label,value") and
+ * phrases such as "Frontend 40%, Backend 35%, Infra 25%" or "Bugs: 12".
+ * Text before the data ("Team allocation: ...") is returned as the title.
+ *
+ * @param {string} description - The text description to analyze
+ * @returns {{title?: string, points: DataPoint[]}} The title and data points
+ */
+export function extractDataPoints(description: string): { title?: string, points: DataPoint[] } {
+  let title: string | undefined;
+  const titleMatch = description.match(/^\s*title[:\s]+([^\n.]+)/im);
+  if (titleMatch) {
+    title = titleMatch[1].trim();
+  }
+  
+  // Inline JSON
+  const jsonMatch = description.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
+  if (jsonMatch) {
+    try {
+      const points = parseStructuredData(JSON.parse(jsonMatch[1]));
+      if (points.length > 0) {
+        const prefix = description.substring(0, jsonMatch.index).replace(/^\s*title[:\s]+/i, '').replace(/[:\s]+$/, '').trim();
+        return { title: title || prefix || undefined, points };
+      }
+    } catch (error) {
+      // Not valid JSON, fall through to the text formats
+    }
+  }
+  
+  // Inline CSV: at least two "label,value" lines, optionally after a header line
+  const csvLines = description.split('\n').map(line => line.trim()).filter(line => /^[^,]+,\s*-?\d+(?:\.\d+)?\s*%?$/.test(line));
+  if (csvLines.length >= 2) {
+    const points = csvLines.map(line => {
+      const [label, value] = line.split(',');
+      return { label: label.trim().replace(/^"|"$/g, ''), value: parseFloat(value), isPercentage: value.includes('%') };
+    });
+    const firstLine = description.split('\n').map(line => line.trim()).find(Boolean) || '';
+    const prefix = csvLines.includes(firstLine) || firstLine.includes(',') ? '' : firstLine.replace(/^title[:\s]+/i, '').replace(/:$/, '');
+    return { title: title || prefix || undefined, points };
+  }
+  
+  // Free text: split into chunks and look for a number with a label before or after it
+  const points: DataPoint[] = [];
+  const chunks = description
+    .replace(/^\s*title[:\s]+[^\n.]+/im, '')
+    .split(/\s*(?:[,;\n]|\.(?:\s+|$)|\s+and\s+)\s*/);
+  
+  for (const chunk of chunks) {
+    const trailing = chunk.match(/^(.*?)\s*[:=]?\s*(\d+(?:\.\d+)?)\s*(%|percent)?$/i);
+    const leading = chunk.match(/^(\d+(?:\.\d+)?)\s*(%|percent)?\s+(?:(?:of|for|in|on)\s+)?(.+)$/i);
+    
+    let label: string;
+    let value: number;
+    let isPercentage: boolean;
+    if (trailing && trailing[1].trim()) {
+      label = trailing[1];
+      value = parseFloat(trailing[2]);
+      isPercentage = !!trailing[3];
+    } else if (leading) {
+      label = leading[3];
+      value = parseFloat(leading[1]);
+      isPercentage = !!leading[2];
+    } else {
+      continue;
+    }
+    
+    // "Bugs by component: UI" - the text before the colon is the title, kept as written
+    const colon = label.lastIndexOf(':');
+    if (colon >= 0) {
+      const prefix = label.substring(0, colon).trim();
+      label = label.substring(colon + 1);
+      if (prefix && !title && points.length === 0) {
+        title = prefix;
+      }
+    }
+    
+    // "Mobile is 60%" - the connector separates the label from its value
+    label = label.trim().replace(/\s+(?:is|are|was|were)$/i, '').replace(/^["']|["']$/g, '');
+    
+    if (label) {
+      points.push({ label, value, isPercentage });
+    }
+  }
+  
+  // Fall back to the first sentence without numbers as the title
+  if (!title) {
+    const firstSentence = description.split(/[.\n:]/)[0].trim();
+    if (firstSentence && !/\d/.test(firstSentence)) {
+      title = firstSentence;
+    }
+  }
+  
+  return { title, points };
+}
+
+/**
+ * A step in a user journey.
+ */
+export interface JourneyStep {
+  task: string;
+  score: number;
+  actors: string[];
+}
+
+/**
+ * A user journey made of sections containing scored steps.
+ */
+export interface Journey {
+  title?: string;
+  actors: string[];
+  sections: Array<{ name: string; steps: JourneyStep[] }>;
+}
+
+// Sentiment words and the satisfaction score they imply
+const SENTIMENT_SCORES: Array<{ pattern: RegExp; score: number }> = [
+  { pattern: /\b(?:love[sd]?|loving|delight\w*|excellent|great|amazing|awesome|fantastic|perfect)\b/i, score: 5 },
+  { pattern: /\b(?:frustrat\w*|angry|hate[sd]?|broken|fail\w*|painful|stuck|impossible|terrible|awful)\b/i, score: 1 },
+  { pattern: /\b(?:slow|confus\w*|annoy\w*|tedious|unclear|hard|difficult|wait\w*|lost|error\w*|complicated)\b/i, score: 2 },
+  { pattern: /\b(?:easy|easily|smooth\w*|good|quick\w*|happ\w+|fine|pleasant|simple|nice|satisf\w*|enjoy\w*|pleased)\b/i, score: 4 }
+];
+
+/**
+ * Determine the satisfaction score of a journey step.
+ *
+ * Explicit scores ("(4)", "score 2", "3/5") take precedence over sentiment words.
+ *
+ * @param {string} text - The step text
+ * @returns {{score: number, explicit: RegExp|null}} The score (1-5, 3 when neutral) and the pattern of the explicit score
+ */
+function scoreJourneyStep(text: string): { score: number, explicit: RegExp | null } {
+  const explicitPatterns = [
+    /\(\s*([1-5])(?:\s*\/\s*5)?\s*\)/,
+    /\b(?:score|scored|rated|rating|satisfaction)\s*(?:of\s*)?:?\s*([1-5])\b(?:\s*\/\s*5)?/i,
+    /\b([1-5])\s*\/\s*5\b/,
+    /:\s*([1-5])\s*$/
+  ];
+  
+  for (const pattern of explicitPatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return { score: parseInt(match[1], 10), explicit: pattern };
+    }
+  }
+  
+  for (const { pattern, score } of SENTIMENT_SCORES) {
+    const match = text.match(pattern);
+    if (match) {
+      // "not easy" or "isn't slow" flips the sentiment around neutral
+      const before = text.substring(0, match.index);
+      const negated = /\b(?:not|never|no|n't)\s+(?:\w+\s+)?$/i.test(before) || /n't\s+(?:\w+\s+)?$/i.test(before);
+      return { score: negated ? 6 - score : score, explicit: null };
+    }
+  }
+  
+  return { score: 3, explicit: null };
+}
+
+/**
+ * Extract a user journey from a text description.
+ *
+ * Recognizes sections ("During onboarding: ..."), actors ("Actors: Customer,
+ * Support"), and per-step scores given explicitly ("(4)", "score 2") or
+ * through sentiment words ("frustrating", "easy").
+ *
+ * @param {string} description - The text description to analyze
+ * @returns {Journey} The identified journey
+ */
+export function extractJourney(description: string): Journey {
+  const journey: Journey = { actors: [], sections: [] };
+  
+  const titleMatch = description.match(/^\s*title[:\s]+([^\n.]+)/im);
+  if (titleMatch) {
+    journey.title = titleMatch[1].trim();
+  }
+  
+  const actorsMatch = description.match(/\b(?:actors|personas|participants|users)\s*:\s*([^\n.]+)/i);
+  if (actorsMatch) {
+    journey.actors = actorsMatch[1].split(/\s*(?:,|\band\b|&)\s*/).map(a => a.trim()).filter(Boolean);
+  } else {
+    const personaMatch = description.match(/\b(?:[Aa]s an?|[Ff]or the|[Ff]or an?)\s+([A-Za-z][\w-]*(?:\s+[a-z][\w-]*)?)/);
+    if (personaMatch) {
+      journey.actors = [personaMatch[1].trim()];
+    }
+  }
+  if (journey.actors.length === 0) {
+    journey.actors = ['User'];
+  }
+  const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.substring(1);
+  journey.actors = journey.actors.map(capitalize);
+  
+  const sectionRegex = /^(?:(?:during|in|at|on|section|stage|phase)\s+)?(?:the\s+)?([A-Za-z][\w -]{0,40}?)(?:\s+(?:phase|stage|step))?\s*:\s*(.*)$/i;
+  let currentSection: { name: string; steps: JourneyStep[] } | undefined;
+  
+  const sentences = description.split(/\n+|\.(?:\s+|$)/);
+  for (let sentence of sentences) {
+    sentence = sentence.trim();
+    if (!sentence || /^(?:title|actors|personas|participants|users)\b/i.test(sentence)) {
+      continue;
+    }
+    
+    const sectionMatch = sentence.match(sectionRegex);
+    if (sectionMatch && !/^\s*[1-5]\s*$/.test(sectionMatch[2])) {
+      currentSection = { name: capitalize(sectionMatch[1].trim()), steps: [] };
+      journey.sections.push(currentSection);
+      sentence = sectionMatch[2];
+    }
+    
+    if (!currentSection) {
+      // Text before the first section is the title if none was given
+      if (!journey.title && journey.sections.length === 0 && !/[,;]/.test(sentence)) {
+        journey.title = sentence;
+        continue;
+      }
+      currentSection = { name: 'Journey', steps: [] };
+      journey.sections.push(currentSection);
+    }
+    
+    const escapedActors = journey.actors.map(actor => actor.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const leadingActorRegex = new RegExp(`^(?:(?:as an?|for the|for an?)\\s+)?(?:the\\s+)?(${escapedActors.join('|')})\\b,?\\s*(?:I\\s+)?`, 'i');
+    let subject = journey.actors[0];
+    
+    const steps = sentence.split(/\s*(?:;|,\s*(?:and\s+|then\s+)?|\s+(?:and\s+)?then\s+|\s+and\s+finally\s+)\s*/i);
+    for (const step of steps) {
+      if (!step.trim()) {
+        continue;
+      }
+      
+      const { score, explicit } = scoreJourneyStep(step);
+      
+      // A separate "score 2" fragment belongs to the previous step
+      const previous = currentSection.steps[currentSection.steps.length - 1];
+      if (explicit && previous && step.replace(explicit, '').trim() === '') {
+        previous.score = score;
+        continue;
+      }
+      
+      // The step's subject, followed by the other actors it mentions
+      const leadingActor = step.trim().match(leadingActorRegex);
+      if (leadingActor) {
+        subject = journey.actors.find(actor => actor.toLowerCase() === leadingActor[1].toLowerCase()) || subject;
+      }
+      const actors = [subject, ...journey.actors.filter((actor, i) =>
+        actor !== subject && new RegExp(`\\b${escapedActors[i]}\\b`, 'i').test(step))];
+      
+      let task = step.trim();
+      if (explicit) {
+        task = task.replace(explicit, '');
+      }
+      task = task
+        .replace(/\s*\([^)]*\)/g, '')
+        .replace(/\s+[-–—]\s+.*$/, '')
+        .replace(leadingActorRegex, '')
+        .replace(/[:#;]/g, '')
+        .trim();
+      
+      if (task) {
+        currentSection.steps.push({ task: capitalize(task), score, actors });
+      }
+    }
+  }
+  
+  journey.sections = journey.sections.filter(section => section.steps.length > 0);
+  return journey;
+}
+
+/**
+ * An item positioned on a quadrant chart, with coordinates in [0, 1].
+ */
+export interface QuadrantItem {
+  name: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * The axes, quadrant labels and items of a quadrant chart.
+ *
+ * Quadrants are numbered like Mermaid: 1 top right, 2 top left,
+ * 3 bottom left, 4 bottom right.
+ */
+export interface QuadrantData {
+  title?: string;
+  xAxis?: string;
+  yAxis?: string;
+  quadrants: Record<number, string>;
+  items: QuadrantItem[];
+}
+
+// Names commonly given to the quadrants of prioritization matrices
+const QUADRANT_LABEL_NAMES = /^(?:quick\s+wins?|major\s+projects?|big\s+bets?|fill[\s-]?ins?|thankless\s+tasks?|money\s+pits?|time\s+sinks?|low[\s-]hanging\s+fruits?|strategic\s+bets?|do\s+first|schedule|delegate|eliminate)$/i;
+
+// Qualitative positions on an axis
+const QUALIFIER_POSITIONS: Record<string, number> = {
+  'very low': 0.1,
+  'low': 0.25,
+  'medium': 0.5,
+  'mid': 0.5,
+  'moderate': 0.5,
+  'high': 0.75,
+  'very high': 0.9
+};
+
+/**
+ * Extract axes, quadrant labels and items for a quadrant chart.
+ *
+ * Axes come from "effort vs impact" (x first, y second) or "x-axis: effort"
+ * phrasing, quadrant labels from "quadrant 1: Quick wins", "top left is
+ * Quick wins", "Quick wins: low effort, high impact" or a list such as
+ * "Quadrants: Quick wins, Major projects, ..." naming quadrants 1 to 4 in
+ * order, and items either carry
+ * explicit coordinates ("Login (0.3, 0.8)") or low/medium/high qualifiers
+ * ("SSO is high effort and medium impact", "Feature C medium effort high impact").
+ *
+ * @param {string} description - The text description to analyze
+ * @returns {QuadrantData} The identified chart data
+ */
+export function extractQuadrantData(description: string): QuadrantData {
+  const data: QuadrantData = { quadrants: {}, items: [] };
+  
+  const titleMatch = description.match(/^\s*title[:\s]+([^\n.]+)/im);
+  if (titleMatch) {
+    data.title = titleMatch[1].trim();
+  }
+  
+  // Axes: explicit "x-axis: effort" or "effort vs impact"
+  const xAxisMatch = description.match(/\bx[\s-]?axis\s*(?::|is|=)?\s*([A-Za-z][\w ]*?)\s*(?:[,;.\n]|$)/i);
+  const yAxisMatch = description.match(/\by[\s-]?axis\s*(?::|is|=)?\s*([A-Za-z][\w ]*?)\s*(?:[,;.\n]|$)/i);
+  const versusMatch = description.match(/\b([A-Za-z][\w-]*)\s+(?:vs\.?|versus|against)\s+([A-Za-z][\w-]*)/i);
+  data.xAxis = xAxisMatch?.[1] || versusMatch?.[1];
+  data.yAxis = yAxisMatch?.[1] || versusMatch?.[2];
+  
+  const positionNames: Array<{ pattern: string; quadrant: number }> = [
+    { pattern: '(?:top|upper)[\\s-]+right', quadrant: 1 },
+    { pattern: '(?:top|upper)[\\s-]+left', quadrant: 2 },
+    { pattern: '(?:bottom|lower)[\\s-]+left', quadrant: 3 },
+    { pattern: '(?:bottom|lower)[\\s-]+right', quadrant: 4 }
+  ];
+  
+  const qualifier = '(very\\s+low|very\\s+high|low|medium|mid|moderate|high)';
+  const qualifiedAxis = `${qualifier}(?:[\\s-]+([A-Za-z]+))?`;
+  const explicitItemRegex = /([A-Za-z][\w .&/'-]*?)\s*[:=]?\s*[[(]\s*(-?\d+(?:\.\d+)?)\s*%?\s*,\s*(-?\d+(?:\.\d+)?)\s*%?\s*[\])]/g;
+  const qualitativeItemRegex = new RegExp(
+    `([A-Z][\\w .&/'-]*?)\\s*(?:\\(|:|,|\\s+is\\s+|\\s+are\\s+|\\s+has\\s+|\\s+[-–—]\\s+|\\s)\\s*${qualifiedAxis}(?:\\s*(?:,|\\band\\b|\\/|&|\\s)\\s*${qualifiedAxis})?`,
+    'gi'
+  );
+  
+  // Read the items of a segment described with low/medium/high qualifiers
+  const readQualifiedItems = (segment: string): QuadrantItem[] => {
+    const items: QuadrantItem[] = [];
+    let match;
+    qualitativeItemRegex.lastIndex = 0;
+    while ((match = qualitativeItemRegex.exec(segment)) !== null) {
+      const name = match[1].replace(/^(?:and|,|\s)+/i, '').trim();
+      const position: { x?: number; y?: number } = {};
+      
+      for (const [level, axisWord] of [[match[2], match[3]], [match[4], match[5]]]) {
+        if (!level) {
+          continue;
+        }
+        const value = QUALIFIER_POSITIONS[level.toLowerCase().replace(/\s+/g, ' ')];
+        const word = (axisWord || '').toLowerCase();
+        const matchesAxis = (axis?: string) => !!axis && !!word &&
+          (axis.toLowerCase().startsWith(word) || word.startsWith(axis.toLowerCase()));
+        
+        if (matchesAxis(data.xAxis) && position.x === undefined) {
+          position.x = value;
+        } else if (matchesAxis(data.yAxis) && position.y === undefined) {
+          position.y = value;
+        } else if (position.x === undefined) {
+          position.x = value;
+        } else {
+          position.y = value;
+        }
+      }
+      
+      if (name) {
+        items.push({ name, x: position.x ?? 0.5, y: position.y ?? 0.5 });
+      }
+    }
+    return items;
+  };
+  
+  const segments = description
+    .split(/\n+|;|\.(?:\s+|$)/)
+    .map(segment => segment.trim())
+    .filter(segment => segment && !/^title\b/i.test(segment) && !/^[xy][\s-]?axis\b/i.test(segment));
+  
+  // Quadrant labels are read first, so the segments naming them are not taken for items:
+  // "quadrant 1: Quick wins", "top left is Quick wins", "Quick wins in the top left"
+  // or "Quick wins: low effort, high impact"
+  const itemSegments: string[] = [];
+  for (const segment of segments) {
+    const listMatch = segment.match(/^quadrants\s*(?::|are|=|-)\s*(.+)$/i);
+    if (listMatch) {
+      listMatch[1].split(/\s*,\s*(?:and\s+)?|\s+and\s+/).filter(Boolean).slice(0, 4).forEach((label, index) => {
+        data.quadrants[index + 1] = label.trim();
+      });
+      continue;
+    }
+    
+    const numberedMatch = segment.match(/^quadrant[\s-]*([1-4])\s*(?::|is|=|-)\s*(.+)$/i);
+    if (numberedMatch) {
+      data.quadrants[parseInt(numberedMatch[1], 10)] = numberedMatch[2].trim();
+      continue;
+    }
+    
+    let isQuadrantLabel = false;
+    for (const { pattern, quadrant } of positionNames) {
+      const leading = segment.match(new RegExp(`^(?:the\\s+)?${pattern}(?:\\s+quadrant)?\\s*(?::|is|=|-)\\s*(.+)$`, 'i'));
+      const trailing = segment.match(new RegExp(`^(.+?)\\s+(?:are|is|go|goes)?\\s*(?:in|at)\\s+the\\s+${pattern}(?:\\s+quadrant)?$`, 'i'));
+      const label = leading?.[1] || trailing?.[1];
+      if (label) {
+        data.quadrants[quadrant] = label.trim();
+        isQuadrantLabel = true;
+        break;
+      }
+    }
+    if (isQuadrantLabel) {
+      continue;
+    }
+    
+    // A well-known quadrant name, or a name followed by "quadrant", placed by its qualifiers
+    const qualified = readQualifiedItems(segment);
+    if (qualified.length === 1) {
+      const [{ name, x, y }] = qualified;
+      const label = name.replace(/^(?:the\s+)?quadrant\s+|\s+quadrant$/i, '');
+      if ((label !== name || QUADRANT_LABEL_NAMES.test(name)) && x !== 0.5 && y !== 0.5) {
+        data.quadrants[y > 0.5 ? (x > 0.5 ? 1 : 2) : (x > 0.5 ? 4 : 3)] = label;
+        continue;
+      }
+    }
+    
+    itemSegments.push(segment);
+  }
+  
+  const explicitItems: Array<{ name: string; x: number; y: number }> = [];
+  for (const segment of itemSegments) {
+    // Items with explicit coordinates
+    let match;
+    let foundExplicit = false;
+    explicitItemRegex.lastIndex = 0;
+    while ((match = explicitItemRegex.exec(segment)) !== null) {
+      const name = match[1].replace(/^(?:and|,|\s)+/i, '').trim();
+      if (name) {
+        explicitItems.push({ name, x: parseFloat(match[2]), y: parseFloat(match[3]) });
+        foundExplicit = true;
+      }
+    }
+    if (foundExplicit) {
+      continue;
+    }
+    
+    // Items with low/medium/high qualifiers
+    data.items.push(...readQualifiedItems(segment));
+  }
+  
+  // Explicit coordinates on a 1-10 or 1-100 scale are scaled down to [0, 1], the same scale for all items
+  const maxValue = Math.max(0, ...explicitItems.flatMap(item => [item.x, item.y]));
+  const scale = maxValue > 10 ? 100 : maxValue > 1 ? 10 : 1;
+  const clamp = (value: number) => Math.min(1, Math.max(0, value / scale));
+  for (const item of explicitItems) {
+    data.items.push({ name: item.name, x: clamp(item.x), y: clamp(item.y) });
+  }
+  
+  return data;
+}
+
+/**
+ * A requirement in a requirement diagram.
+ */
+export interface Requirement {
+  name: string;
+  id: string;
+  text: string;
+  type: 'requirement' | 'functionalRequirement' | 'performanceRequirement' | 'interfaceRequirement' | 'physicalRequirement' | 'designConstraint';
+  risk?: 'Low' | 'Medium' | 'High';
+  verifyMethod?: 'Analysis' | 'Inspection' | 'Test' | 'Demonstration';
+}
+
+/**
+ * The requirements, elements and relations described in a specification text.
+ */
+export interface RequirementModel {
+  requirements: Requirement[];
+  elements: Array<{ name: string; type: string }>;
+  relations: Array<{ from: string; to: string; type: 'contains' | 'copies' | 'derives' | 'satisfies' | 'verifies' | 'refines' | 'traces' }>;
+}
+
+// Words that end the name of an element satisfying or verifying a requirement
+const REQUIREMENT_STOP_WORDS = /^(?:the|a|an|and|or|but|also|then|which|that|this|it|its|both|while|whereas|moreover|furthermore|by|of|in|on|for|with|to|from|is|are|was|were|be|fully|partially|now)$/i;
+
+// Longest element name, in words
+const MAX_ELEMENT_WORDS = 4;
+
+/**
+ * Determine the requirement type from the wording of its text.
+ *
+ * @param {string} text - The requirement text
+ * @returns {Requirement['type']} The requirement type
+ */
+function classifyRequirement(text: string): Requirement['type'] {
+  if (/\b(?:within\s+\d+|\d+\s*(?:ms|milliseconds?|seconds?|s)\b|latency|throughput|response time|per second|concurrent|performance|uptime|availability)\b/i.test(text)) {
+    return 'performanceRequirement';
+  }
+  if (/\b(?:interface|api|protocol|endpoint|integrat\w*)\b/i.test(text)) {
+    return 'interfaceRequirement';
+  }
+  if (/\b(?:weigh\w*|temperature|dimensions?|physical|voltage|enclosure)\b/i.test(text)) {
+    return 'physicalRequirement';
+  }
+  if (/\b(?:constraint|shall (?:be written in|use|comply)|must (?:be written in|use|comply)|compliant)\b/i.test(text)) {
+    return 'designConstraint';
+  }
+  if (/\b(?:shall|must|will)\s+(?:not\s+)?(?:be\s+able\s+to\s+)?[a-z]+/i.test(text)) {
+    return 'functionalRequirement';
+  }
+  return 'requirement';
+}
+
+/**
+ * Extract requirements, elements and relations from a specification text.
+ *
+ * Recognizes requirement lists like "REQ-12: The system shall encrypt data
+ * at rest. Risk high. Verified by test." together with relations such as
+ * "Satisfied by AuthService", "Storage module satisfies REQ-12",
+ * "REQ-13 derives from REQ-12" and "traces to REQ-12". Element names are
+ * phrases of up to four words, from which their identifiers are built. Sentences with
+ * "shall" or "must" without an identifier become numbered requirements.
+ *
+ * @param {string} description - The text description to analyze
+ * @returns {RequirementModel} The identified requirements, elements and relations
+ */
+export function extractRequirements(description: string): RequirementModel {
+  const model: RequirementModel = { requirements: [], elements: [], relations: [] };
+  
+  const idPattern = '[A-Z][A-Z0-9]*[-_]?\\d+(?:\\.\\d+)*';
+  const toName = (id: string) => id.replace(/[^A-Za-z0-9_]/g, '_');
+  const verifyMethods: Record<string, Requirement['verifyMethod']> = {
+    test: 'Test', testing: 'Test', tests: 'Test',
+    inspection: 'Inspection', review: 'Inspection',
+    analysis: 'Analysis',
+    demonstration: 'Demonstration', demo: 'Demonstration'
+  };
+  
+  const addElement = (name: string) => {
+    if (!model.elements.some(element => element.name === name)) {
+      model.elements.push({ name, type: /(?:test|spec|suite)s?$/i.test(name) ? 'test' : 'component' });
+    }
+  };
+  const addRelation = (from: string, to: string, type: RequirementModel['relations'][number]['type']) => {
+    if (!model.relations.some(r => r.from === from && r.to === to && r.type === type)) {
+      model.relations.push({ from, to, type });
+    }
+  };
+  
+  // Relations are resolved once all requirement ids are known
+  const pending: Array<{ requirement?: Requirement; sentence: string }> = [];
+  let current: Requirement | undefined;
+  
+  for (let sentence of description.split(/\n+|(?<=[.!?])\s+/)) {
+    sentence = sentence.trim().replace(/[.!?]$/, '');
+    if (!sentence) {
+      continue;
+    }
+    
+    const idMatch = sentence.match(new RegExp(`^(${idPattern})\\s*[:.)-]\\s*(.*)$`));
+    if (idMatch) {
+      current = {
+        name: toName(idMatch[1]),
+        id: idMatch[1],
+        text: idMatch[2].trim(),
+        type: 'requirement'
+      };
+      model.requirements.push(current);
+    } else if (/\b(?:shall|must)\b/i.test(sentence) && (!current || current.text)) {
+      const number = model.requirements.length + 1;
+      current = { name: `R${number}`, id: String(number), text: sentence, type: 'requirement' };
+      model.requirements.push(current);
+    } else if (current && !current.text && !/^(?:risk|verif|satisf|derive|trace|refine|contain)/i.test(sentence)) {
+      current.text = sentence;
+    }
+    
+    if (current) {
+      const riskMatch = sentence.match(/\brisk\s*(?:is|:|=|of)?\s*(low|medium|high)\b|\b(low|medium|high)[\s-]+risk\b/i);
+      if (riskMatch) {
+        const level = (riskMatch[1] || riskMatch[2]).toLowerCase();
+        current.risk = (level.charAt(0).toUpperCase() + level.substring(1)) as Requirement['risk'];
+      }
+      
+      const verifyMatch = sentence.match(/\bverified\s+(?:by|through|via|with)\s+(?:an?\s+|the\s+)?(\w+)/i);
+      if (verifyMatch) {
+        const method = verifyMethods[verifyMatch[1].toLowerCase()];
+        if (method) {
+          current.verifyMethod = method;
+        }
+      }
+    }
+    
+    pending.push({ requirement: current, sentence });
+  }
+  
+  // Classify and tidy the requirement texts
+  for (const requirement of model.requirements) {
+    requirement.text = requirement.text
+      .replace(/"/g, "'")
+      .replace(/\s*,\s*(?:(?:low|medium|high)\s+risk|risk|verified|satisfied)\b.*$/i, '')
+      .replace(/\s*[.;]\s*$/, '');
+    requirement.type = classifyRequirement(requirement.text);
+  }
+  
+  const toRelationType = (verb: string): RequirementModel['relations'][number]['type'] => {
+    const word = verb.toLowerCase().replace(/^is\s+/, '');
+    if (word.startsWith('derive')) return 'derives';
+    if (word.startsWith('trace')) return 'traces';
+    return word.split(/\s+/)[0] as RequirementModel['relations'][number]['type'];
+  };
+  const findRequirement = (id: string) => model.requirements.find(r => r.id === id || r.name === toName(id));
+  
+  // Element names are phrases of up to four words, bounded by stop words: "the Storage module satisfies"
+  const toElementName = (words: string[]) => toName(words.slice(0, MAX_ELEMENT_WORDS).join(' '));
+  const lastPhrase = (text: string) => {
+    const words = text.split(/\s+/);
+    while (words.length > 0 && REQUIREMENT_STOP_WORDS.test(words[words.length - 1])) {
+      words.pop();
+    }
+    const stop = words.map(word => REQUIREMENT_STOP_WORDS.test(word)).lastIndexOf(true);
+    return toElementName(words.slice(stop + 1).slice(-MAX_ELEMENT_WORDS));
+  };
+  const firstPhrase = (text: string) => {
+    const words = text.split(/\s+/);
+    const stop = words.findIndex(word => REQUIREMENT_STOP_WORDS.test(word));
+    return toElementName(stop === -1 ? words : words.slice(0, stop));
+  };
+  
+  for (const { requirement, sentence } of pending) {
+    // "AuthService satisfies REQ-12", "The Storage module satisfies REQ-12", "REQ-13 derives from REQ-12"
+    const explicitRegex = new RegExp(`([A-Za-z][\\w-]*(?:\\s+[A-Za-z][\\w-]*)*)\\s+(satisfies|verifies|derives\\s+from|is\\s+derived\\s+from|traces\\s+to|refines|contains|copies)\\s+(${idPattern})`, 'g');
+    let match;
+    while ((match = explicitRegex.exec(sentence)) !== null) {
+      const target = findRequirement(match[3]);
+      if (!target) {
+        continue;
+      }
+      const type = toRelationType(match[2]);
+      const source = findRequirement(match[1].split(/\s+/).pop());
+      const name = lastPhrase(match[1]);
+      if (source) {
+        addRelation(source.name, target.name, type);
+      } else if (name) {
+        addElement(name);
+        addRelation(name, target.name, type);
+      }
+    }
+    
+    if (!requirement) {
+      continue;
+    }
+    
+    // "Satisfied by AuthService", "verified by LoginTest"
+    const byRegex = new RegExp(`\\b(${keywords('satisfied', 'verified', 'implemented', 'fulfilled')})\\s+(?:by|in)\\s+(?:the\\s+)?([A-Z][\\w-]*(?:\\s+[A-Za-z][\\w-]*)*)`, 'g');
+    while ((match = byRegex.exec(sentence)) !== null) {
+      const name = firstPhrase(match[2]);
+      if (!name || verifyMethods[name.toLowerCase()]) {
+        continue;
+      }
+      addElement(name);
+      addRelation(name, requirement.name, match[1].toLowerCase() === 'verified' ? 'verifies' : 'satisfies');
+      if (match[1].toLowerCase() === 'verified' && !requirement.verifyMethod) {
+        requirement.verifyMethod = 'Test';
+      }
+    }
+    
+    // "derives from REQ-12", "traces to REQ-3" inside a requirement's own sentences
+    const ownRegex = new RegExp(`^(?:it\\s+|this\\s+requirement\\s+)?(derives\\s+from|is\\s+derived\\s+from|derived\\s+from|traces\\s+to|traced\\s+to|refines|contains|copies)\\s+(${idPattern})`, 'i');
+    const ownMatch = sentence.replace(new RegExp(`^${idPattern}\\s*[:.)-]\\s*`), '').match(ownRegex);
+    if (ownMatch) {
+      const target = findRequirement(ownMatch[2]);
+      if (target && target !== requirement) {
+        addRelation(requirement.name, target.name, toRelationType(ownMatch[1]));
+      }
+    }
+  }
+  
+  return model;
+}
+
+/**
+ * A step in a described git workflow.
+ */
+export type GitOperation =
+  | { type: 'branch'; branch: string; from?: string }
+  | { type: 'checkout'; branch: string }
+  | { type: 'commit'; count: number; message?: string; branch?: string }
+  | { type: 'merge'; source?: string; target?: string }
+  | { type: 'tag'; name: string; branch?: string }
+  | { type: 'cherry-pick'; ref: string; target?: string };
+
+// Spelled-out counts used in workflow descriptions
+const COUNT_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, single: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10, couple: 2, few: 2, several: 3
+};
+
+/**
+ * Extract git operations from a description of a branching workflow.
+ *
+ * Recognizes phrases such as "branch feature/login from develop",
+ * "two commits", "commit id: fix1", "merge into develop", "tag v1.2 on main",
+ * "checkout main" and "cherry-pick hotfix", in the order they appear. A
+ * single commit may be named by a quoted message, `id: <id>` or a bare id
+ * ("commit fix1").
+ *
+ * @param {string} description - The text description to analyze
+ * @returns {GitOperation[]} The operations in order
+ */
+export function extractGitOperations(description: string): GitOperation[] {
+  const operations: GitOperation[] = [];
+  const ref = '([\\w][\\w/.-]*[\\w])';
+  const current = /^(?:it|this|that|them|the\s+branch)$/i;
+  // Words after "commit" that are not the id of the commit
+  const commitWords = 'on|to|onto|into|in|the|a|an|it|them|this|that|changes|again|once|twice|thrice|more|and|then';
+  
+  const patterns: Array<{ regex: RegExp; build: (match: RegExpMatchArray) => GitOperation }> = [
+    {
+      regex: new RegExp(`\\bcherry[- ]?pick(?:s|ed)?\\s+(?:the\\s+)?(?:commit\\s+)?(?:id:?\\s*)?(?:["']([^"']+)["']|${ref})(?:\\s+commit)?(?:\\s+(?:onto|into|to|on)\\s+${ref})?`, 'i'),
+      build: match => ({ type: 'cherry-pick', ref: match[1] || match[2], target: match[3] })
+    },
+    {
+      regex: new RegExp(`\\bmerge[sd]?\\s+(?:${ref}\\s+)?(?:back\\s+)?(?:into|to|onto)\\s+${ref}`, 'i'),
+      build: match => ({ type: 'merge', source: match[1] && !current.test(match[1]) ? match[1] : undefined, target: match[2] })
+    },
+    {
+      regex: new RegExp(`\\bmerge[sd]?\\s+(?:in\\s+)?${ref}`, 'i'),
+      build: match => ({ type: 'merge', source: current.test(match[1]) ? undefined : match[1] })
+    },
+    {
+      regex: new RegExp(`\\btag(?:ged|s)?\\s+(?:it\\s+)?(?:as\\s+|with\\s+)?${ref}(?:\\s+(?:on|at)\\s+${ref})?`, 'i'),
+      build: match => ({ type: 'tag', name: match[1], branch: match[2] })
+    },
+    {
+      regex: new RegExp(`\\bbranch(?:es|ed)?\\s+(?:off\\s+)?(?:called\\s+|named\\s+)?${ref}(?:\\s+(?:from|off(?:\\s+of)?)\\s+${ref})?`, 'i'),
+      build: match => ({ type: 'branch', branch: match[1], from: match[2] })
+    },
+    {
+      regex: new RegExp(`\\b(?:checkout|check\\s+out|switch(?:es)?(?:\\s+back)?\\s+to|go(?:es)?\\s+back\\s+to|back\\s+(?:on|to))\\s+${ref}`, 'i'),
+      build: match => ({ type: 'checkout', branch: match[1] })
+    },
+    {
+      regex: new RegExp(`\\b(?:(\\d+|${Object.keys(COUNT_WORDS).join('|')})\\s+(?:of\\s+)?(?:more\\s+|new\\s+)?)?commit(?:s|ted)?\\b(?:\\s+(twice|thrice|\\d+\\s+times))?(?:\\s+(?:id:?\\s*)?["']([^"']+)["']|\\s+id:?\\s*${ref}|\\s+(?!(?:${commitWords})\\b)${ref})?(?:\\s+(?:on|to)\\s+${ref})?`, 'i'),
+      build: match => {
+        const repeat = match[2] ? ({ twice: 2, thrice: 3 } as Record<string, number>)[match[2].toLowerCase()] || parseInt(match[2], 10) : 0;
+        const count = match[1] ? (parseInt(match[1], 10) || COUNT_WORDS[match[1].toLowerCase()] || 1) : 1;
+        return { type: 'commit', count: repeat || count, message: match[3] || match[4] || match[5], branch: match[6] };
+      }
+    }
+  ];
+  
+  const clauses = description.split(/\s*(?:[,;\n]|\.(?:\s+|$)|\s+then\s+|\s+and\s+(?:then\s+)?)\s*/i);
+  for (const clause of clauses) {
+    // Find every operation in the clause and keep the non-overlapping ones in order
+    const found: Array<{ index: number; end: number; operation: GitOperation }> = [];
+    for (const { regex, build } of patterns) {
+      const match = clause.match(regex);
+      if (match && match.index !== undefined) {
+        const end = match.index + match[0].length;
+        if (!found.some(f => match.index! < f.end && end > f.index)) {
+          found.push({ index: match.index, end, operation: build(match) });
+        }
+      }
+    }
+    
+    found.sort((a, b) => a.index - b.index);
+    operations.push(...found.map(f => f.operation));
+  }
+  
+  return operations;
+}
+
+/**
+ * An element of an architecture description, classified for C4 diagrams.
+ */
+export interface ArchitectureElement {
+  name: string;
+  kind: 'person' | 'system' | 'external' | 'container' | 'database' | 'queue';
+  technology?: string;
+}
+
+/**
+ * The elements and relationships of an architecture description.
+ */
+export interface ArchitectureModel {
+  title?: string;
+  systemName?: string;
+  level: 'context' | 'container';
+  elements: ArchitectureElement[];
+  relationships: Array<{ from: string; to: string; label: string; technology?: string }>;
+}
+
+// Capitalized words that start sentences rather than name entities
+const ENTITY_STOP_WORDS = [
+  'The', 'A', 'An', 'It', 'Its', 'This', 'That', 'These', 'Those', 'They', 'Their', 'There', 'We', 'Our',
+  'When', 'Then', 'And', 'Or', 'Each', 'All', 'Both', 'Also', 'If', 'In', 'On', 'For', 'With', 'From',
+  'To', 'Finally', 'First', 'Next', 'After', 'Before', 'Every', 'Which', 'Who'
+];
+
+const PERSON_WORDS = /^(?:users?|customers?|admins?|administrators?|managers?|employees?|staff|operators?|visitors?|members?|persons?|people|developers?|agents?|clients?|buyers?|sellers?|patients?|students?|teachers?|drivers?|guests?|subscribers?|analysts?)$/i;
+const DATABASE_WORDS = /\b(?:database|db|datastore|store|cache|redis|postgres(?:ql)?|mysql|mariadb|mongo(?:db)?|dynamodb|elasticsearch|cassandra|sqlite|s3|bucket|warehouse)\b/i;
+const DATABASE_PRODUCTS = /\b(?:Redis|Postgres(?:QL)?|MySQL|MariaDB|Mongo(?:DB)?|DynamoDB|Elasticsearch|Cassandra|SQLite|S3|Kafka|RabbitMQ|SQS|SNS|NATS)\b/i;
+const QUEUE_WORDS = /\b(?:queue|topic|kafka|rabbitmq|sqs|sns|pub\/?sub|event\s*bus|message\s*bus|broker|nats)\b/i;
+const EXTERNAL_VENDORS = /^(?:stripe|paypal|twilio|sendgrid|mailchimp|mailgun|google|github|gitlab|aws|azure|salesforce|slack|auth0|okta|facebook|twitter|shopify|zendesk|hubspot|braintree|adyen|plaid)$/i;
+const CONTAINER_WORDS = /\b(?:containers?|web\s*app(?:lication)?|spa|mobile\s*app|app|api|backend|frontend|gateway|microservices?|services?|workers?|lambda|functions?)\b/i;
+const SYSTEM_WORDS = /\s(?:System|Platform|Application)$/;
+const PROTOCOLS = /\b(HTTPS?|REST|gRPC|GraphQL|SQL|JDBC|AMQP|MQTT|SMTP|WebSockets?|SOAP|TCP|SFTP)\b/;
+// Section headings such as "Containers:" or "## External systems:" that name no element
+const SECTION_HEADINGS = /^[ \t]*(?:#+[ \t]*)?(?:[A-Z][\w-]*(?:[ \t]+[\w-]+){0,3}[ \t]*:[ \t]*$|(?:External[ \t]+)?(?:Containers|Systems|People|Persons|Actors|Users|Components|Services|Databases|Relationships|Elements)[ \t]*:)/gm;
+
+/**
+ * Extract an architecture model for C4 diagrams from a text description.
+ *
+ * Names are runs of capitalized words ("Order Service", "Order API"). Each is
+ * classified as a person, system, external system, container, database or
+ * queue from its name and wording such as "external", "third-party" or a
+ * technology in parentheses ("Web App (React)"), an appositive ("Email
+ * System, an external system", "Order API, a Node.js service") or "is a" and
+ * "which is" ("The Web App is a React container"). Section headings such as
+ * "Containers:" are skipped. A relationship is read from
+ * the words between two names in the same clause ("calls", "stores orders
+ * in"), and a protocol such as HTTPS or gRPC becomes its technology. Any
+ * container, database or queue selects the container level, otherwise the
+ * system context level is used.
+ *
+ * @param {string} description - The text description to analyze
+ * @returns {ArchitectureModel} The identified architecture
+ */
+export function extractArchitecture(description: string): ArchitectureModel {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  
+  const titleMatch = description.match(/^\s*title[:\s]+([^\n]+)/im);
+  const body = description.replace(/^\s*title[:\s]+[^\n]+\n?/im, '').replace(SECTION_HEADINGS, '');
+  const sentences = body.split(/(?<=[.!?])\s+|\n+/).filter(sentence => sentence.trim());
+  
+  // Names and the keys of their technologies are written without leading sentence starters
+  const withoutStopWords = (text: string) => {
+    const words = text.split(/\s+/);
+    while (words.length > 0 && ENTITY_STOP_WORDS.includes(words[0])) {
+      words.shift();
+    }
+    return words.join(' ');
+  };
+  
+  // Technologies: "Web App (React)", "Order API is built with Node.js"
+  const technologies = new Map<string, string>();
+  const parenRegex = /\b([A-Z][\w-]*(?:[ \t]+[A-Z][\w-]*)*)\s*\(([^)]+)\)/g;
+  let match;
+  while ((match = parenRegex.exec(body)) !== null) {
+    const technology = match[2].replace(/\b(?:external|third[- ]party)\b/gi, '').replace(/^[\s,]+|[\s,]+$/g, '');
+    if (technology) {
+      technologies.set(withoutStopWords(match[1]), technology);
+    }
+  }
+  const builtWithRegex = /\b([A-Z][\w-]*(?:[ \t]+[A-Z][\w-]*)*)\s+(?:is\s+)?(?:built|written|implemented|runs|running)\s+(?:with|in|on|using)\s+([A-Z][\w.+#-]*(?:[ \t]+[A-Z][\w.+#-]*)?)/g;
+  while ((match = builtWithRegex.exec(body)) !== null) {
+    // The technology ends with the sentence: "built with Node.js. The ..."
+    technologies.set(withoutStopWords(match[1]), match[2].split(/\.\s/)[0].replace(/\.$/, ''));
+  }
+  // Technologies as qualifiers: "The Web App is a React container", "Database which is PostgreSQL", "Order API, a Node.js service"
+  const qualifierRegex = /\b([A-Z][\w-]*(?:[ \t]+[A-Z][\w-]*)*)(?:\s*,\s*an?|\s+(?:(?:which|that)\s+)?is(?:\s+an?)?)\s+([A-Z][\w.+#-]*(?:[ \t]+[A-Z][\w.+#-]*)*)/g;
+  while ((match = qualifierRegex.exec(body)) !== null) {
+    technologies.set(withoutStopWords(match[1]), match[2].split(/\.\s/)[0].replace(/\.$/, ''));
+  }
+  const isTechnology = (name: string) => PROTOCOLS.test(name) && name.split(/\s+/).length === 1 ||
+    Array.from(technologies.values()).some(technology => new RegExp(`(?:^|[\\s,/])${escape(name)}(?:$|[\\s,/.])`).test(technology));
+  
+  // Names: runs of capitalized words without leading sentence starters
+  const names: string[] = [];
+  const nameRegex = /\b[A-Z][\w-]*(?:[ \t]+[A-Z][\w-]*)*/g;
+  while ((match = nameRegex.exec(body)) !== null) {
+    // Dotted names such as Node.js or ASP.NET are technologies
+    const dotted = /^\.\w/.test(body.substring(match.index + match[0].length));
+    const name = withoutStopWords(match[0]);
+    if (name.length > 1 && !dotted && !isTechnology(name) && !names.includes(name)) {
+      names.push(name);
+    }
+  }
+  
+  // The system being described: "the Shop system" or a name like "Banking System"
+  const systemMatch = body.match(/\b([A-Z][\w-]*(?:[ \t]+[A-Z][\w-]*)*)\s+(?:system|platform|application)\b/);
+  let systemName = systemMatch ? names.find(name => name === withoutStopWords(systemMatch[1])) : undefined;
+  const isExternal = (name: string) => EXTERNAL_VENDORS.test(name) || new RegExp(
+    `\\b(?:external|third[- ]party)\\s+(?:\\w+\\s+)?${escape(name)}\\b|` +
+    `\\b${escape(name)}\\s*\\([^)]*\\b(?:external|third[- ]party)\\b|` +
+    `\\b${escape(name)}(?:\\s*,|\\s+(?:(?:which|that)\\s+)?is)\\s+(?:an?\\s+)?(?:external|third[- ]party)\\b`, 'i'
+  ).test(body);
+  if (!systemName) {
+    systemName = names.find(name => SYSTEM_WORDS.test(name) && !isExternal(name));
+  }
+  
+  const elements: ArchitectureElement[] = names
+    .filter(name => name !== systemName)
+    .map(name => {
+      const external = isExternal(name);
+      
+      let kind: ArchitectureElement['kind'];
+      if (PERSON_WORDS.test(name.split(/\s+/).pop() as string) && !external) {
+        kind = 'person';
+      } else if (external) {
+        kind = 'external';
+      } else if (QUEUE_WORDS.test(name)) {
+        kind = 'queue';
+      } else if (DATABASE_WORDS.test(name)) {
+        kind = 'database';
+      } else if (CONTAINER_WORDS.test(name) || technologies.has(name)) {
+        kind = 'container';
+      } else {
+        kind = 'system';
+      }
+      
+      let technology = technologies.get(name);
+      if (!technology && (kind === 'database' || kind === 'queue')) {
+        const product = name.match(DATABASE_PRODUCTS);
+        technology = product ? product[0] : undefined;
+      }
+      
+      return { name, kind, technology };
+    });
+  
+  const isContainerLevel = /\bcontainers?\b/i.test(body) ||
+    elements.some(element => ['container', 'database', 'queue'].includes(element.kind));
+  
+  // In a context diagram, internal parts are shown as systems
+  if (!isContainerLevel) {
+    for (const element of elements) {
+      if (element.kind === 'container' || element.kind === 'queue') {
+        element.kind = 'system';
+      }
+    }
+  }
+  
+  // Relationships: the words between two names in the same clause
+  const allNames = systemName ? [...elements.map(element => element.name), systemName] : elements.map(element => element.name);
+  const relationships: ArchitectureModel['relationships'] = [];
+  for (const sentence of sentences) {
+    const mentions: Array<{name: string, start: number, end: number}> = [];
+    for (const name of [...allNames].sort((a, b) => b.length - a.length)) {
+      const mentionRegex = new RegExp(`\\b${escape(name)}\\b`, 'g');
+      while ((match = mentionRegex.exec(sentence)) !== null) {
+        const start = match.index;
+        const end = start + name.length;
+        if (!mentions.some(mention => start < mention.end && end > mention.start)) {
+          mentions.push({ name, start, end });
+        }
+      }
+    }
+    mentions.sort((a, b) => a.start - b.start);
+    
+    for (let i = 0; i < mentions.length - 1; i++) {
+      const from = mentions[i];
+      const to = mentions[i + 1];
+      if (from.name === to.name) {
+        continue;
+      }
+      
+      const between = sentence.substring(from.end, to.start)
+        .replace(/^\s*\([^)]*\)/, '')
+        .replace(/^[\s,]*(?:which|that|who)?\s*/i, '')
+        .replace(/(?:\s+(?:the|a|an|to|with|external|third[- ]party))+\s*$/i, '')
+        .trim();
+      if (!between || /[,;:]|\band\b|\bis\b|\bare\b/.test(between) || between.split(/\s+/).length > 6) {
+        continue;
+      }
+      
+      const following = sentence.substring(to.end, i + 2 < mentions.length ? mentions[i + 2].start : sentence.length);
+      const protocol = (between + following).match(PROTOCOLS);
+      if (!relationships.some(relationship => relationship.from === from.name && relationship.to === to.name)) {
+        relationships.push({
+          from: from.name,
+          to: to.name,
+          label: between,
+          technology: protocol ? protocol[1] : undefined
+        });
+      }
+    }
+  }
+  
+  return {
+    title: titleMatch ? titleMatch[1].trim() : undefined,
+    systemName,
+    level: isContainerLevel ? 'container' : 'context',
+    elements,
+    relationships
+  };
+}
@@ -9,7 +9,10 @@
 import * as git from 'isomorphic-git';
 import { fs as memfs } from 'memfs';
 import { Dirent } from 'fs';
+import { createHash, randomUUID } from 'crypto';
 import http from 'isomorphic-git/http/web/index.cjs';
+import { analyzeCodeDependencies } from './language-analyzers.js';
+import { FetchOptions, TreeEntry, fetchTreeFiles, selectCodeFiles } from './repository-files.js';
 
 /**
  * Repository commit information
@@ -17,32 +20,113 @@ import http from 'isomorphic-git/http/web/index.cjs';
 export interface CommitInfo {
   sha: string;
   message: string;
+  // More than one parent for merge commits
+  parents: string[];
   author: {
     name: string;
     email: string;
     timestamp: number;
   };
+  // Changes against the first parent, so a merge commit lists the changes of the merged branch
   files: {
     path: string;
     type: 'add' | 'modify' | 'delete';
   }[];
 }
 
+/**
+ * A commit of the commit graph of a repository
+ */
+export interface GraphCommit {
+  sha: string;
+  message: string;
+  parents: string[];
+  timestamp: number;
+}
+
+/**
+ * Commit graph of a repository, with its branches and tags
+ */
+export interface CommitGraph {
+  defaultBranch: string;
+  branches: { name: string; sha: string }[];
+  tags: { name: string; sha: string }[];
+  commits: GraphCommit[];
+}
+
+/**
+ * Module dependency graph of a repository at a commit
+ */
+export interface ArchitectureSnapshot {
+  sha: string;
+  timestamp: number;
+  // The analyzed code files, with a hash of their content to tell changed modules
+  modules: { path: string; hash: string }[];
+  dependencies: { from: string; to: string; isReExport?: boolean }[];
+}
+
+/**
+ * Options for cloning a repository
+ */
+export interface CloneOptions {
+  // Number of commits fetched of each branch
+  depth?: number;
+  // Maximum number of branches to fetch, including the default branch
+  maxBranches?: number;
+}
+
+/**
+ * Date range of the commits to read, by commit date
+ */
+export interface CommitRange {
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Number of commits fetched of each branch unless a depth is given
+ */
+const DEFAULT_CLONE_DEPTH = 10;
+
+/**
+ * Maximum number of fetches made to deepen the history for one query
+ */
+const MAX_DEEPEN_FETCHES = 5;
+
+/**
+ * Branches that usually live alongside the default branch, fetched before feature branches
+ */
+const LONG_LIVED_BRANCHES = /^(?:develop|development|dev|staging|release|hotfix)(?:$|[\/-])/;
+
 /**
  * In-memory git repository
  */
 export class InMemoryGit {
   private fs = memfs.promises;
   private dir: string;
+  private url?: string;
+  private headers?: Record<string, string>;
   
   /**
    * Create a new in-memory git repository
+   * 
+   * The virtual file system is shared by all instances, so each instance
+   * gets a directory of its own unless one is given.
+   * 
    * @param {string} dir - The directory path in the virtual file system
    */
-  constructor(dir: string = '/repo') {
+  constructor(dir: string = `/repo-${randomUUID()}`) {
     this.dir = dir;
   }
   
+  /**
+   * Remove the repository from the virtual file system
+   * @returns {Promise<void>}
+   */
+  async dispose(): Promise<void> {
+    await this.fs.rm(this.dir, { recursive: true, force: true });
+  }
+  
   /**
    * Initialize a new git repository
    * @returns {Promise<void>}
@@ -57,12 +141,27 @@ export class InMemoryGit {
   
   /**
    * Clone a repository from a URL
+   * 
+   * Only the latest `depth` commits of each branch are fetched; queries
+   * needing older commits deepen the history later on. The default branch
+   * is cloned first, then up to `maxBranches - 1` other
+   * branches are fetched, long-lived branches such as `develop` and
+   * `release/*` first. Tags are recorded as refs to the commits they point to,
+   * as shallow single-branch fetches do not transfer them.
+   * 
    * @param {string} url - The URL of the repository to clone
    * @param {string} token - GitHub token for authentication (optional)
+   * @param {CloneOptions} options - The depth and number of branches to fetch
    * @returns {Promise<void>}
    */
-  async clone(url: string, token?: string): Promise<void> {
+  async clone(url: string, token?: string, options: CloneOptions = {}): Promise<void> {
+    const { depth = DEFAULT_CLONE_DEPTH, maxBranches = 10 } = options;
     const headers = token ? { Authorization: `token ${token}` } : undefined;
+    this.url = url;
+    this.headers = headers;
+    
+    // A repository cloned earlier into the directory is replaced
+    await this.fs.rm(this.dir, { recursive: true, force: true });
     
     await git.clone({
       fs: memfs,
@@ -70,17 +169,182 @@ export class InMemoryGit {
       dir: this.dir,
       url,
       singleBranch: true,
-      depth: 10, // Limit to 10 commits as requested
+      depth,
       headers
     });
+    
+    // Annotated tags are peeled, so every tag ref points to a commit
+    const tags = await git.listServerRefs({ http, url, prefix: 'refs/tags/', peelTags: true, headers });
+    for (const tag of tags) {
+      if (!tag.ref.endsWith('^{}')) {
+        await git.writeRef({ fs: memfs, dir: this.dir, ref: tag.ref, value: tag.peeled || tag.oid, force: true });
+      }
+    }
+    
+    if (maxBranches <= 1) {
+      return;
+    }
+    
+    const defaultBranch = await git.currentBranch({ fs: memfs, dir: this.dir });
+    const refs = await git.listServerRefs({ http, url, prefix: 'refs/heads/', headers });
+    const branches = refs
+      .map(ref => ref.ref.replace(/^refs\/heads\//, ''))
+      .filter(name => name !== defaultBranch)
+      .sort((a, b) => Number(!LONG_LIVED_BRANCHES.test(a)) - Number(!LONG_LIVED_BRANCHES.test(b)))
+      .slice(0, maxBranches - 1);
+    
+    for (const branch of branches) {
+      await git.fetch({
+        fs: memfs,
+        http,
+        dir: this.dir,
+        url,
+        ref: branch,
+        singleBranch: true,
+        depth,
+        headers
+      });
+    }
+  }
+  
+  /**
+   * Deepen the history of the default branch for a query
+   * 
+   * More history is fetched until `limit` commits in the date range and the
+   * parent of the oldest one are available, the fetched history reaches back
+   * before the start of the range, or the history is complete. The start of a
+   * range is fetched with one shallow-since fetch, further commits by doubling
+   * the depth.
+   * 
+   * @param {number} limit - Number of commits the query reads
+   * @param {CommitRange} range - Date range of the query (optional)
+   * @returns {Promise<void>}
+   */
+  async deepen(limit: number, range: CommitRange = {}): Promise<void> {
+    // Repositories that were not cloned have no remote to fetch from
+    const ref = await git.currentBranch({ fs: memfs, dir: this.dir });
+    if (!this.url || !ref) {
+      return;
+    }
+    
+    for (let fetches = 0; fetches < MAX_DEEPEN_FETCHES; fetches++) {
+      if ((await this.getShallowCommits()).length === 0) {
+        return;
+      }
+      
+      const log = await git.log({ fs: memfs, dir: this.dir });
+      const matching = log.filter(commit => isInRange(commit.commit.committer.timestamp, range)).length;
+      const reachesSince = range.since && log.some(commit => commit.commit.committer.timestamp * 1000 < range.since.getTime());
+      if (matching > limit || reachesSince) {
+        return;
+      }
+      
+      await git.fetch({
+        fs: memfs,
+        http,
+        dir: this.dir,
+        url: this.url,
+        ref,
+        singleBranch: true,
+        ...(range.since && fetches === 0
+          ? { since: range.since }
+          : { depth: Math.max(limit + 1 - matching, log.length), relative: true }),
+        headers: this.headers
+      });
+    }
+  }
+  
+  /**
+   * Get the commits at the boundary of a shallow clone
+   * @returns {Promise<string[]>} The SHAs of the commits whose parents were not fetched
+   */
+  private async getShallowCommits(): Promise<string[]> {
+    try {
+      const shallow = await this.fs.readFile(`${this.dir}/.git/shallow`, 'utf8');
+      return shallow.toString().split('\n').filter(Boolean);
+    } catch (error) {
+      // A complete clone has no shallow file
+      return [];
+    }
+  }
+  
+  /**
+   * Get the commit graph of the fetched branches
+   * 
+   * Each branch contributes its latest `limit` commits in the date range,
+   * so merged feature branches are included as far as they are reachable
+   * from the fetched history. Branches are drawn from their latest commit in
+   * the range, and branches without one are left out.
+   * 
+   * @param {number} limit - Maximum number of commits to read per branch
+   * @param {CommitRange} range - Date range of the commits (optional)
+   * @returns {Promise<CommitGraph>} The commits, branches and tags
+   */
+  async getCommitGraph(limit: number = 10, range: CommitRange = {}): Promise<CommitGraph> {
+    const defaultBranch = await git.currentBranch({ fs: memfs, dir: this.dir });
+    
+    if (!defaultBranch) {
+      throw new Error('No current branch found');
+    }
+    
+    await this.deepen(limit, range);
+    
+    // The default branch is read from its local ref, the others from the remote-tracking refs
+    const branches: { name: string; sha: string }[] = [
+      { name: defaultBranch, sha: await git.resolveRef({ fs: memfs, dir: this.dir, ref: defaultBranch }) }
+    ];
+    for (const name of await git.listBranches({ fs: memfs, dir: this.dir, remote: 'origin' })) {
+      if (name !== 'HEAD' && name !== defaultBranch) {
+        branches.push({ name, sha: await git.resolveRef({ fs: memfs, dir: this.dir, ref: `refs/remotes/origin/${name}` }) });
+      }
+    }
+    
+    const commits = new Map<string, GraphCommit>();
+    for (const branch of [...branches]) {
+      const log = (await git.log({ fs: memfs, dir: this.dir, ref: branch.sha, since: range.since }))
+        .filter(commit => isInRange(commit.commit.committer.timestamp, range))
+        .slice(0, limit);
+      
+      if (log.length === 0) {
+        branches.splice(branches.indexOf(branch), 1);
+        continue;
+      }
+      branch.sha = log[0].oid;
+      
+      for (const commit of log) {
+        commits.set(commit.oid, {
+          sha: commit.oid,
+          message: commit.commit.message,
+          parents: commit.commit.parent || [],
+          timestamp: commit.commit.committer.timestamp
+        });
+      }
+    }
+    
+    // Tags pointing outside the fetched history are left out
+    const tags: { name: string; sha: string }[] = [];
+    for (const name of await git.listTags({ fs: memfs, dir: this.dir })) {
+      const sha = await git.resolveRef({ fs: memfs, dir: this.dir, ref: `refs/tags/${name}` });
+      if (commits.has(sha)) {
+        tags.push({ name, sha });
+      }
+    }
+    
+    return { defaultBranch, branches, tags, commits: Array.from(commits.values()) };
   }
   
   /**
    * Get the list of commits in the repository
+   * 
+   * The history is deepened first when the clone does not hold enough of it.
+   * Commits whose parent was still not fetched cannot be diffed, so the list
+   * stops before them and a warning reports the truncated history.
+   * 
    * @param {number} limit - Maximum number of commits to return
+   * @param {CommitRange} range - Date range of the commits (optional)
    * @returns {Promise<CommitInfo[]>} The list of commits
    */
-  async getCommits(limit: number = 10): Promise<CommitInfo[]> {
+  async getCommits(limit: number = 10, range: CommitRange = {}): Promise<CommitInfo[]> {
     // Get the current branch
     const currentBranch = await git.currentBranch({
       fs: memfs,
@@ -91,12 +355,22 @@ export class InMemoryGit {
       throw new Error('No current branch found');
     }
     
-    // Get the commit log
-    const commits = await git.log({
+    await this.deepen(limit, range);
+    
+    // Get the commit log, the whole fetched log if commits are skipped up to the end of the range
+    const commits = (await git.log({
       fs: memfs,
       dir: this.dir,
-      depth: limit
-    });
+      depth: range.until ? undefined : limit,
+      since: range.since
+    })).filter(commit => isInRange(commit.commit.committer.timestamp, range)).slice(0, limit);
+    
+    const shallowCommits = new Set(await this.getShallowCommits());
+    const boundary = commits.findIndex(commit => shallowCommits.has(commit.oid) && (commit.commit.parent || []).length > 0);
+    if (boundary !== -1) {
+      console.warn(`The history of ${currentBranch} could not be fetched further and was truncated after ${boundary} commits`);
+      commits.splice(boundary);
+    }
     
     // Transform the commits to our format
     return Promise.all(commits.map(async commit => {
@@ -106,7 +380,10 @@ export class InMemoryGit {
       // Check if the commit has parents
       const parents = commit.commit.parent || [];
       
-      if (parents.length > 0) {
+      if (parents.length === 0) {
+        // Every file of the first commit is added
+        files.push(...(await this.getFilesAtCommit(commit.oid)).map(path => ({ path, type: 'add' as const })));
+      } else {
         const diff = await git.walk({
           fs: memfs,
           dir: this.dir,
@@ -115,14 +392,22 @@ export class InMemoryGit {
             git.TREE({ ref: commit.oid })
           ],
           map: async (filepath: string, [a, b]: any[]) => {
+            // Unchanged subtrees are skipped, changed directories are walked into
+            if (a && b && await a.oid() === await b.oid()) {
+              return null;
+            }
+            if (await a?.type() === 'tree' || await b?.type() === 'tree') {
+              return undefined;
+            }
+            
             if (!a && b) {
               files.push({ path: filepath, type: 'add' });
             } else if (a && !b) {
               files.push({ path: filepath, type: 'delete' });
-            } else if (a && b && a.oid !== b.oid) {
+            } else {
               files.push({ path: filepath, type: 'modify' });
             }
-            return null;
+            return undefined;
           }
         });
       }
@@ -130,6 +415,7 @@ export class InMemoryGit {
       return {
         sha: commit.oid,
         message: commit.commit.message,
+        parents,
         author: {
           name: commit.commit.author.name,
           email: commit.commit.author.email,
@@ -163,6 +449,27 @@ export class InMemoryGit {
     }
   }
   
+  /**
+   * Count the lines of files at a specific commit
+   * @param {string[]} filepaths - The paths of the files
+   * @param {string} commitSha - The commit SHA
+   * @returns {Promise<Map<string, number>>} The line count of each file that exists at the commit
+   */
+  async getLineCounts(filepaths: string[], commitSha: string): Promise<Map<string, number>> {
+    const lineCounts = new Map<string, number>();
+    
+    for (const filepath of filepaths) {
+      try {
+        const content = await this.getFileAtCommit(filepath, commitSha);
+        lineCounts.set(filepath, content.split('\n').length - (content.endsWith('\n') ? 1 : 0));
+      } catch (error) {
+        // The file was deleted, skip
+      }
+    }
+    
+    return lineCounts;
+  }
+  
   /**
    * Get the list of files in the repository at a specific commit
    * @param {string} commitSha - The commit SHA (optional, defaults to HEAD)
@@ -178,16 +485,86 @@ export class InMemoryGit {
       dir: this.dir,
       trees: [git.TREE({ ref })],
       map: async (filepath: string, [entry]: any[]) => {
-        if (entry && typeof entry.type === 'string' && entry.type === 'blob') {
+        if (!entry) {
+          return null;
+        }
+        if (await entry.type() === 'blob') {
           files.push(filepath);
         }
-        return null;
+        return undefined;
       }
     });
     
     return files;
   }
   
+  /**
+   * Rebuild the module dependency graph of the repository at a commit
+   * 
+   * The code files are selected and limited the same way as for repositories
+   * fetched from a hosting provider, and their imports are resolved by the
+   * language analyzers.
+   * 
+   * @param {string} commitSha - The commit SHA
+   * @param {FetchOptions} options - Limits on the number and size of the analyzed files
+   * @returns {Promise<ArchitectureSnapshot>} The modules and dependencies at the commit
+   */
+  async getArchitectureSnapshot(commitSha: string, options: FetchOptions = {}): Promise<ArchitectureSnapshot> {
+    return this.takeArchitectureSnapshot(commitSha, await this.getFilesAtCommit(commitSha), options);
+  }
+  
+  /**
+   * Rebuild the module dependency graphs of the repository at several commits
+   * 
+   * The code files are selected once, among the files of all the commits, so
+   * a file ranked below the limits at one commit but not at another is not
+   * reported as added or removed between them.
+   * 
+   * @param {string[]} commitShas - The commit SHAs
+   * @param {FetchOptions} options - Limits on the number and size of the analyzed files
+   * @returns {Promise<ArchitectureSnapshot[]>} The modules and dependencies at each commit, in the order of the commits
+   */
+  async getArchitectureSnapshots(commitShas: string[], options: FetchOptions = {}): Promise<ArchitectureSnapshot[]> {
+    const filesByCommit = new Map<string, string[]>();
+    for (const sha of commitShas) {
+      filesByCommit.set(sha, await this.getFilesAtCommit(sha));
+    }
+    
+    const entries: TreeEntry[] = Array.from(new Set(Array.from(filesByCommit.values()).flat()))
+      .map(path => ({ path, type: 'blob', sha: path }));
+    const codePaths = new Set(selectCodeFiles(entries, Infinity, Infinity).map(entry => entry.path));
+    const selectedPaths = new Set(selectCodeFiles(entries, options.maxFiles || 50, options.maxBytes || 1000000).map(entry => entry.path));
+    
+    // Code files left out at one commit are left out at all of them, other files are kept for the configuration
+    const snapshots: ArchitectureSnapshot[] = [];
+    for (const sha of commitShas) {
+      const files = filesByCommit.get(sha)!.filter(path => selectedPaths.has(path) || !codePaths.has(path));
+      snapshots.push(await this.takeArchitectureSnapshot(sha, files, options));
+    }
+    return snapshots;
+  }
+  
+  /**
+   * Rebuild the module dependency graph of the repository from some of the files at a commit
+   * @param {string} commitSha - The commit SHA
+   * @param {string[]} files - The paths of the files to choose the analyzed files from
+   * @param {FetchOptions} options - Limits on the number and size of the analyzed files
+   * @returns {Promise<ArchitectureSnapshot>} The modules and dependencies at the commit
+   */
+  private async takeArchitectureSnapshot(commitSha: string, files: string[], options: FetchOptions): Promise<ArchitectureSnapshot> {
+    const { commit } = await git.readCommit({ fs: memfs, dir: this.dir, oid: commitSha });
+    const entries: TreeEntry[] = files.map(path => ({ path, type: 'blob', sha: path }));
+    
+    const { codeFiles, configFiles } = await fetchTreeFiles(entries, '', options, entry => this.getFileAtCommit(entry.path, commitSha));
+    
+    return {
+      sha: commitSha,
+      timestamp: commit.committer.timestamp,
+      modules: codeFiles.map(file => ({ path: file.path, hash: createHash('sha1').update(file.content).digest('hex') })),
+      dependencies: analyzeCodeDependencies(codeFiles, configFiles)
+    };
+  }
+  
   /**
    * Get the diff between two commits
    * @param {string} oldCommitSha - The old commit SHA
@@ -240,14 +617,15 @@ export class InMemoryGit {
    * Get the evolution of a file across commits
    * @param {string} filepath - The path of the file
    * @param {number} limit - Maximum number of commits to analyze
+   * @param {CommitRange} range - Date range of the commits (optional)
    * @returns {Promise<{sha: string, message: string, content: string}[]>} The file evolution
    */
-  async getFileEvolution(filepath: string, limit: number = 10): Promise<{
+  async getFileEvolution(filepath: string, limit: number = 10, range: CommitRange = {}): Promise<{
     sha: string;
     message: string;
     content: string;
   }[]> {
-    const commits = await this.getCommits(limit);
+    const commits = await this.getCommits(limit, range);
     const evolution: { sha: string; message: string; content: string }[] = [];
     
     for (const commit of commits) {
@@ -306,4 +684,14 @@ export class InMemoryGit {
     
     return structure;
   }
-}
\ No newline at end of file
+}
+/**
+ * Determine whether a commit date lies in a date range
+ * @param {number} timestamp - The commit date in seconds since the epoch
+ * @param {CommitRange} range - The date range
+ * @returns {boolean} True if the date is in the range
+ */
+function isInRange(timestamp: number, range: CommitRange): boolean {
+  return (!range.since || timestamp * 1000 >= range.since.getTime())
+    && (!range.until || timestamp * 1000 <= range.until.getTime());
+}
@@ -0,0 +1,150 @@
+/**
+ * Gitea API Utilities
+ *
+ * This file contains utility functions for interacting with the API of Gitea
+ * and Forgejo instances, such as Codeberg, to fetch repository data for
+ * diagram generation in the same shape as the GitHub repository data.
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { RepoNotFoundError } from './repository-errors.js';
+import { FetchOptions, MAX_TREE_ENTRIES, RepositoryTarget, TreeEntry, fetchTreeFiles, isWithinPath, listDirectoryContents, restrictCredentials, toRepositoryError } from './repository-files.js';
+
+/**
+ * Base URL of the API of Codeberg, the instance a Gitea token is used with unless another one is configured.
+ */
+export const CODEBERG_API_BASE_URL = 'https://codeberg.org/api/v1';
+
+/**
+ * Create an axios instance configured for Gitea API requests.
+ *
+ * The token is only sent to the configured API, or to the API of Codeberg,
+ * never to other hosts named by repository URLs.
+ *
+ * @param {string|undefined} token - Gitea access token
+ * @param {string|undefined} apiBaseUrl - Configured base URL of the API of the instance the token belongs to
+ * @returns {AxiosInstance} Configured axios instance
+ */
+export function createGiteaApiClient(token?: string, apiBaseUrl?: string): AxiosInstance {
+  const client = axios.create();
+  if (token) {
+    restrictCredentials(client, { Authorization: `token ${token}` }, [apiBaseUrl || CODEBERG_API_BASE_URL]);
+  }
+  return client;
+}
+
+/**
+ * Fetch repository data from the Gitea API.
+ *
+ * The file tree is listed page by page with the Git Trees API, up to
+ * `MAX_TREE_ENTRIES` entries, and the highest ranked code files are then
+ * fetched in parallel.
+ *
+ * @param {AxiosInstance} apiClient - Axios instance for making API requests
+ * @param {string} owner - The repository owner
+ * @param {string} repo - The repository name
+ * @param {FetchOptions} options - The API base URL, ref, path and limits of the fetch
+ * @returns {Promise<any>} A promise that resolves to the repository data
+ * @throws {RepoNotFoundError} If the repository, ref or path does not exist
+ * @throws {AuthRequiredError} If Gitea requires a valid token
+ * @throws {RateLimitedError} If the Gitea API rate limit is exhausted
+ */
+export async function fetchGiteaRepositoryData(
+  apiClient: AxiosInstance,
+  owner: string,
+  repo: string,
+  options: FetchOptions = {}
+): Promise<any> {
+  if (!options.apiBaseUrl) {
+    throw new Error('The API base URL of the Gitea instance is required');
+  }
+  const repoUrl = `${options.apiBaseUrl.replace(/\/+$/, '')}/repos/${owner}/${repo}`;
+  const scopePath = (options.path || '').replace(/^\/+|\/+$/g, '');
+
+  // Fetch repository information
+  let repoResponse: AxiosResponse;
+  try {
+    repoResponse = await apiClient.get(repoUrl);
+  } catch (error) {
+    throw toRepositoryError(error, 'Gitea', `Repository ${owner}/${repo} was not found. Private repositories are only visible with a Gitea token that has access to them.`);
+  }
+  const ref: string = options.ref || repoResponse.data.default_branch;
+
+  try {
+    // Fetch languages used in the repository
+    const languagesResponse = await apiClient.get(`${repoUrl}/languages`);
+
+    // Fetch the whole file tree of the ref, which Gitea returns in pages
+    const entries: TreeEntry[] = [];
+    for (let page = 1; ; page++) {
+      const treeResponse = await apiClient.get(`${repoUrl}/git/trees/${encodeURIComponent(ref)}`, {
+        params: { recursive: true, per_page: 1000, page }
+      });
+      const tree: TreeEntry[] = treeResponse.data.tree || [];
+      entries.push(...tree.map(item => ({ path: item.path, type: item.type, sha: item.sha, size: item.size })));
+      if (!treeResponse.data.truncated || tree.length === 0) {
+        break;
+      }
+      if (entries.length >= MAX_TREE_ENTRIES) {
+        console.warn(`The file tree of ${owner}/${repo} is too large and was truncated after ${entries.length} entries`);
+        break;
+      }
+    }
+    if (scopePath && !entries.some(entry => isWithinPath(entry.path, scopePath))) {
+      throw new RepoNotFoundError(`The path ${scopePath} was not found at ref ${ref} of ${owner}/${repo}.`);
+    }
+
+    // Fetch the code files to analyze and the configuration files
+    const { codeFiles, configFiles } = await fetchTreeFiles(entries, scopePath, options, async (entry: TreeEntry) => {
+      const blobResponse = await apiClient.get(`${repoUrl}/git/blobs/${entry.sha}`);
+      return Buffer.from(blobResponse.data.content || '', blobResponse.data.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8');
+    });
+
+    // Return combined repository data
+    return {
+      info: repoResponse.data,
+      contents: listDirectoryContents(entries, scopePath),
+      languages: languagesResponse.data,
+      codeFiles: codeFiles,
+      configFiles: configFiles,
+      ref: ref,
+      path: scopePath || undefined
+    };
+  } catch (error) {
+    throw toRepositoryError(error, 'Gitea', scopePath
+      ? `The path ${scopePath} was not found at ref ${ref} of ${owner}/${repo}.`
+      : `The ref ${ref} was not found in ${owner}/${repo}.`);
+  }
+}
+
+/**
+ * Parse a Gitea URL into the repository, ref and path it targets.
+ *
+ * Besides repository URLs, `/src/branch/<ref>/<path>`, `/src/tag/<ref>/<path>`
+ * and `/src/commit/<sha>/<path>` URLs are understood; refs containing
+ * slashes have to be given separately.
+ *
+ * @param {string} url - Gitea repository or source URL
+ * @returns {RepositoryTarget} The targeted repository, ref and path
+ * @throws {Error} If the URL is not a valid Gitea repository URL
+ */
+export function parseGiteaUrl(url: string): RepositoryTarget {
+  const match = url.trim().match(/^(?:(https?):\/\/|[\w.-]+@)?([^\/:@\s]+(?::\d+)?)[\/:]([^\/\s]+)\/([^\/?#\s]+)(.*)$/);
+  if (!match) {
+    throw new Error('Invalid Gitea repository URL');
+  }
+
+  const [, protocol = 'https', host, owner, repo, rest] = match;
+  const target: RepositoryTarget = { owner, repo: repo.replace(/\.git$/, ''), apiBaseUrl: `${protocol}://${host}/api/v1` };
+
+  const srcMatch = rest.match(/^\/(?:src|raw)\/(?:branch|tag|commit)\/([^\/?#]+)(?:\/([^?#]*))?/);
+  if (srcMatch) {
+    target.ref = decodeURIComponent(srcMatch[1]);
+    const path = decodeURIComponent(srcMatch[2] || '').replace(/\/+$/, '');
+    if (path) {
+      target.path = path;
+    }
+  }
+
+  return target;
+}
@@ -5,154 +5,329 @@
  * to fetch repository data for diagram generation.
  */
 
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse } from 'axios';
+import { AuthRequiredError, RateLimitedError, RepositoryError } from './repository-errors.js';
+import { FetchOptions, RepositoryTarget, TreeEntry, fetchTreeFiles, isTrustedUrl, restrictCredentials, toRepositoryError } from './repository-files.js';
+
+/**
+ * Base URL of the public GitHub API.
+ */
+export const GITHUB_API_BASE_URL = 'https://api.github.com';
+
+/**
+ * Maximum number of retries of a request hitting a secondary rate limit or a server error.
+ */
+const MAX_RETRIES = 3;
+
+/**
+ * Longest wait before a retry, in seconds. Longer waits are reported as a rate limit instead.
+ */
+const MAX_RETRY_WAIT = 60;
+
+/**
+ * Maximum number of responses kept for conditional requests.
+ */
+const MAX_CACHED_RESPONSES = 500;
 
 /**
  * Create an axios instance configured for GitHub API requests.
  * 
+ * The instance makes conditional requests with the ETag of earlier responses,
+ * which GitHub answers with `304 Not Modified` without counting them against
+ * the rate limit. Requests hitting a secondary rate limit or a server error
+ * are retried with backoff. An exhausted primary rate limit is raised as a
+ * `RateLimitedError` and a rejected or missing token as an `AuthRequiredError`.
+ * 
+ * The token is only sent to api.github.com and to the configured API base
+ * URL, never to other hosts named by repository URLs.
+ * 
  * @param {string|undefined} token - GitHub API token for authenticated requests
+ * @param {string|undefined} apiBaseUrl - Configured base URL of the API, such as a GitHub Enterprise Server API
  * @returns {AxiosInstance} Configured axios instance
  */
-export function createGitHubApiClient(token?: string): AxiosInstance {
-  return axios.create({
-    headers: token ? {
-      Authorization: `token ${token}`
-    } : {}
+export function createGitHubApiClient(token?: string, apiBaseUrl?: string): AxiosInstance {
+  const client = axios.create({
+    validateStatus: status => (status >= 200 && status < 300) || status === 304
+  });
+  const trustedBaseUrls = [GITHUB_API_BASE_URL, ...(apiBaseUrl ? [apiBaseUrl] : [])];
+  if (token) {
+    restrictCredentials(client, { Authorization: `token ${token}` }, trustedBaseUrls);
+  }
+  const cache = new Map<string, {etag: string, data: any}>();
+  
+  client.interceptors.request.use(config => {
+    const cached = (config.method || 'get') === 'get' ? cache.get(getCacheKey(client, config)) : undefined;
+    if (cached) {
+      config.headers.set('If-None-Match', cached.etag);
+    }
+    return config;
   });
+  
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      const key = getCacheKey(client, response.config);
+      if (response.status === 304 && cache.has(key)) {
+        // Move the entry to the end, so the least recently used entries are evicted first
+        const cached = cache.get(key);
+        cache.delete(key);
+        cache.set(key, cached);
+        response.data = cached.data;
+      } else if (response.headers.etag && (response.config.method || 'get') === 'get') {
+        cache.delete(key);
+        cache.set(key, { etag: response.headers.etag, data: response.data });
+        if (cache.size > MAX_CACHED_RESPONSES) {
+          cache.delete(cache.keys().next().value);
+        }
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      const { config, response } = error;
+      if (!config) {
+        throw error;
+      }
+      
+      const retries: number = (config as any).retries || 0;
+      const authenticated = Boolean(token) && isTrustedUrl(client.getUri(config), trustedBaseUrls);
+      const status = response?.status;
+      const headers: Record<string, any> = response?.headers || {};
+      
+      if (status === 401) {
+        throw new AuthRequiredError(authenticated
+          ? 'The GitHub token was rejected. Check that it is valid and has not expired.'
+          : 'GitHub requires authentication for this request. Set the GITHUB_TOKEN environment variable.');
+      }
+      
+      if (status === 403 || status === 429) {
+        // The primary rate limit is exhausted until the reset time in the headers
+        if (headers['x-ratelimit-remaining'] === '0') {
+          const resetAt = new Date(Number(headers['x-ratelimit-reset']) * 1000);
+          throw new RateLimitedError(authenticated
+            ? 'The GitHub API rate limit is exhausted.'
+            : 'The GitHub API rate limit for unauthenticated requests is exhausted. Set the GITHUB_TOKEN environment variable for a higher limit.', resetAt);
+        }
+        
+        // Secondary rate limits ask to wait with a `retry-after` header or in the message
+        const message = String((response?.data as any)?.message || '');
+        if (headers['retry-after'] || /secondary rate limit/i.test(message)) {
+          const wait = headers['retry-after'] !== undefined ? Number(headers['retry-after']) : 2 ** retries * 5;
+          if (retries >= MAX_RETRIES || wait > MAX_RETRY_WAIT) {
+            throw new RateLimitedError('A GitHub API secondary rate limit was hit.', new Date(Date.now() + wait * 1000));
+          }
+          return retryRequest(client, config, retries, wait);
+        }
+        
+        if (!authenticated) {
+          throw new AuthRequiredError(`GitHub refused the request: ${message || 'access denied'}. Set the GITHUB_TOKEN environment variable.`);
+        }
+      }
+      
+      // Server errors and network failures are usually transient
+      if ((status === undefined || status >= 500) && retries < MAX_RETRIES) {
+        return retryRequest(client, config, retries, 2 ** retries);
+      }
+      
+      throw error;
+    }
+  );
+  
+  return client;
+}
+
+/**
+ * Get the key of a request in the response cache.
+ *
+ * The `Accept` header is part of the key, since it selects the format of the response.
+ *
+ * @param {AxiosInstance} client - The client making the request
+ * @param {any} config - The request configuration
+ * @returns {string} The cache key
+ */
+function getCacheKey(client: AxiosInstance, config: any): string {
+  return `${client.getUri(config)} ${config.headers?.Accept || config.headers?.accept || ''}`;
+}
+
+/**
+ * Repeat a failed request after a delay.
+ *
+ * @param {AxiosInstance} client - The client to send the request with
+ * @param {any} config - The configuration of the failed request
+ * @param {number} retries - The number of retries made so far
+ * @param {number} wait - The delay before retrying, in seconds
+ * @returns {Promise<AxiosResponse>} The response of the repeated request
+ */
+async function retryRequest(client: AxiosInstance, config: any, retries: number, wait: number): Promise<AxiosResponse> {
+  console.warn(`Retrying ${config.url} in ${wait}s`);
+  await new Promise(resolve => setTimeout(resolve, wait * 1000));
+  return client.request({ ...config, retries: retries + 1 });
 }
 
 /**
  * Fetch repository data from GitHub API.
  * 
  * This function fetches repository data including structure, files, and metadata
- * to be used for diagram generation.
+ * to be used for diagram generation. The whole file tree is listed with a
+ * single Git Trees API request, and the highest ranked code files are then
+ * fetched in parallel.
  * 
  * @param {AxiosInstance} apiClient - Axios instance for making API requests
  * @param {string} owner - The repository owner
  * @param {string} repo - The repository name
+ * @param {FetchOptions} options - Limits on the number and size of the fetched files
  * @returns {Promise<any>} A promise that resolves to the repository data
+ * @throws {RepoNotFoundError} If the repository, ref or path does not exist
+ * @throws {AuthRequiredError} If GitHub requires a valid token
+ * @throws {RateLimitedError} If the GitHub API rate limit is exhausted
  */
-export async function fetchRepositoryData(apiClient: AxiosInstance, owner: string, repo: string): Promise<any> {
+export async function fetchRepositoryData(
+  apiClient: AxiosInstance,
+  owner: string,
+  repo: string,
+  options: FetchOptions = {}
+): Promise<any> {
+  const apiBaseUrl = (options.apiBaseUrl || GITHUB_API_BASE_URL).replace(/\/+$/, '');
+  let scopePath = (options.path || '').replace(/^\/+|\/+$/g, '');
+  
+  // Fetch repository information
+  let repoResponse: AxiosResponse;
   try {
-    // Fetch repository information
-    const repoResponse = await apiClient.get(
-      `https://api.github.com/repos/${owner}/${repo}`
+    repoResponse = await apiClient.get(
+      `${apiBaseUrl}/repos/${owner}/${repo}`
     );
-    
-    // Fetch repository contents (top-level files and directories)
+  } catch (error) {
+    throw toRepositoryError(error, 'GitHub', `Repository ${owner}/${repo} was not found. Private repositories are only visible with a GitHub token that has access to them.`);
+  }
+  let ref: string = options.ref || repoResponse.data.default_branch;
+  if (options.refPath) {
+    ({ ref, path: scopePath } = await resolveRefPath(apiClient, `${apiBaseUrl}/repos/${owner}/${repo}`, options.refPath));
+  }
+  
+  try {
+    // Fetch repository contents (top-level files and directories of the targeted path)
     const contentsResponse = await apiClient.get(
-      `https://api.github.com/repos/${owner}/${repo}/contents`
+      `${apiBaseUrl}/repos/${owner}/${repo}/contents${scopePath ? `/${scopePath.split('/').map(encodeURIComponent).join('/')}` : ''}`,
+      { params: { ref } }
     );
     
     // Fetch languages used in the repository
     const languagesResponse = await apiClient.get(
-      `https://api.github.com/repos/${owner}/${repo}/languages`
+      `${apiBaseUrl}/repos/${owner}/${repo}/languages`
+    );
+    
+    // Fetch the whole file tree of the ref
+    const treeResponse = await apiClient.get(
+      `${apiBaseUrl}/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`
     );
+    if (treeResponse.data.truncated) {
+      console.warn(`The file tree of ${owner}/${repo} is too large and was truncated by GitHub`);
+    }
     
-    // Fetch code files for analysis
-    const codeFiles = await fetchCodeFiles(apiClient, owner, repo, contentsResponse.data);
+    // Fetch the code files to analyze and the configuration files
+    const { codeFiles, configFiles } = await fetchTreeFiles(treeResponse.data.tree, scopePath, options, async (entry: TreeEntry) => {
+      const blobResponse = await apiClient.get(
+        `${apiBaseUrl}/repos/${owner}/${repo}/git/blobs/${entry.sha}`,
+        { headers: { Accept: 'application/vnd.github.raw' }, responseType: 'text' }
+      );
+      return blobResponse.data;
+    });
     
     // Return combined repository data
     return {
       info: repoResponse.data,
       contents: contentsResponse.data,
       languages: languagesResponse.data,
-      codeFiles: codeFiles
+      codeFiles: codeFiles,
+      configFiles: configFiles,
+      ref: ref,
+      path: scopePath || undefined
     };
   } catch (error) {
-    console.error('Error fetching repository data:', error);
-    throw new Error('Failed to fetch repository data from GitHub API');
+    const hint = options.refPath ? ' If the ref contains slashes and is not a branch or tag, pass it as ref.' : '';
+    throw toRepositoryError(error, 'GitHub', scopePath
+      ? `The path ${scopePath} was not found at ref ${ref} of ${owner}/${repo}.${hint}`
+      : `The ref ${ref} was not found in ${owner}/${repo}.${hint}`);
   }
 }
 
 /**
- * Fetch code files from a GitHub repository for analysis.
+ * Split the ref and path of a tree or blob URL where the ref ends.
  *
- * This function recursively fetches code files from the repository,
- * focusing on files that are likely to contain code (based on extension).
+ * Refs may contain slashes, such as `release/2.0`, so like GitHub the
+ * longest leading segments naming a branch or tag are taken as the ref.
+ * If none do, as for commit SHAs, the first segment is the ref.
  *
  * @param {AxiosInstance} apiClient - Axios instance for making API requests
- * @param {string} owner - The repository owner
- * @param {string} repo - The repository name
- * @param {any[]} contents - The contents of the current directory
- * @param {string} path - The current path within the repository
- * @param {number} maxFiles - Maximum number of files to fetch
- * @returns {Promise<Array<{path: string, content: string, language: string}>>} A promise that resolves to an array of code files
+ * @param {string} repoUrl - The API URL of the repository
+ * @param {string} refPath - The ref followed by the path, such as `release/2.0/services`
+ * @returns {Promise<{ref: string, path: string}>} The ref and the path relative to the repository root
  */
-async function fetchCodeFiles(
-  apiClient: AxiosInstance,
-  owner: string,
-  repo: string,
-  contents: any[],
-  path: string = '',
-  maxFiles: number = 20
-): Promise<Array<{path: string, content: string, language: string}>> {
-  const codeFiles: Array<{path: string, content: string, language: string}> = [];
-  const codeExtensions = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.rb', '.go', '.php', '.cs', '.cpp', '.c', '.h'];
+async function resolveRefPath(apiClient: AxiosInstance, repoUrl: string, refPath: string): Promise<{ref: string, path: string}> {
+  const segments = refPath.replace(/^\/+|\/+$/g, '').split('/');
+  const refs = new Set<string>();
   
-  // Process each item in the contents
-  for (const item of contents) {
-    // Stop if we've reached the maximum number of files
-    if (codeFiles.length >= maxFiles) {
-      break;
-    }
-    
-    if (item.type === 'file') {
-      // Check if this is a code file based on extension
-      const fileExt = item.name.substring(item.name.lastIndexOf('.'));
-      if (codeExtensions.includes(fileExt)) {
-        try {
-          // Fetch the file content
-          const contentResponse = await apiClient.get(item.download_url);
-          
-          // Determine the language based on file extension
-          let language = 'unknown';
-          if (['.js', '.jsx'].includes(fileExt)) language = 'javascript';
-          else if (['.ts', '.tsx'].includes(fileExt)) language = 'typescript';
-          else if (fileExt === '.py') language = 'python';
-          else if (fileExt === '.java') language = 'java';
-          else if (fileExt === '.rb') language = 'ruby';
-          else if (fileExt === '.go') language = 'go';
-          else if (fileExt === '.php') language = 'php';
-          else if (fileExt === '.cs') language = 'csharp';
-          else if (['.cpp', '.c', '.h'].includes(fileExt)) language = 'cpp';
-          
-          // Add the file to our collection
-          codeFiles.push({
-            path: item.path,
-            content: contentResponse.data,
-            language: language
-          });
-        } catch (error) {
-          console.error(`Error fetching file ${item.path}:`, error);
-        }
-      }
-    } else if (item.type === 'dir') {
+  // Branches and tags starting with the first segment are the only candidates
+  if (!/^[0-9a-f]{40}$/i.test(segments[0])) {
+    for (const namespace of ['heads', 'tags']) {
       try {
-        // Fetch the contents of the subdirectory
-        const subdirResponse = await apiClient.get(
-          `https://api.github.com/repos/${owner}/${repo}/contents/${item.path}`
-        );
-        
-        // Recursively fetch code files from the subdirectory
-        const subdirFiles = await fetchCodeFiles(
-          apiClient,
-          owner,
-          repo,
-          subdirResponse.data,
-          item.path,
-          maxFiles - codeFiles.length
-        );
-        
-        // Add the subdirectory files to our collection
-        codeFiles.push(...subdirFiles);
+        const response = await apiClient.get(`${repoUrl}/git/matching-refs/${namespace}/${encodeURIComponent(segments[0])}`);
+        for (const item of response.data) {
+          refs.add(item.ref.replace(/^refs\/(?:heads|tags)\//, ''));
+        }
       } catch (error) {
-        console.error(`Error fetching directory ${item.path}:`, error);
+        // Older GitHub Enterprise Server versions do not list matching refs
+        if (error instanceof RepositoryError) {
+          throw error;
+        }
       }
     }
   }
   
-  return codeFiles;
+  for (let length = segments.length; length > 1; length--) {
+    const ref = segments.slice(0, length).join('/');
+    if (refs.has(ref)) {
+      return { ref, path: segments.slice(length).join('/') };
+    }
+  }
+  return { ref: segments[0], path: segments.slice(1).join('/') };
+}
+
+/**
+ * Parse a GitHub URL into the repository, ref and path it targets.
+ *
+ * Besides repository URLs, `/tree/<ref>/<path>` and `/blob/<ref>/<path>` URLs
+ * are understood. The first segment after `tree` or `blob` is taken as the
+ * ref, and the segments after it as the path. Since refs may contain
+ * slashes, `refPath` keeps them together for `fetchRepositoryData` to split
+ * where the ref ends.
+ *
+ * URLs of other hosts are taken to be GitHub Enterprise Server URLs, whose
+ * API is served under `/api/v3` of the same host.
+ *
+ * @param {string} url - GitHub repository, tree or blob URL
+ * @returns {RepositoryTarget} The targeted repository, ref and path
+ * @throws {Error} If the URL is not a valid GitHub repository URL
+ */
+export function parseGitHubUrl(url: string): RepositoryTarget {
+  const match = url.trim().match(/^(?:(https?):\/\/|[\w.-]+@)?([^\/:@\s]+(?::\d+)?)[\/:]([^\/\s]+)\/([^\/?#\s]+)(.*)$/);
+  if (!match) {
+    throw new Error('Invalid GitHub repository URL');
+  }
+  
+  const [, protocol = 'https', host, owner, repo, rest] = match;
+  const apiBaseUrl = /^(?:www\.)?github\.com$/i.test(host) ? GITHUB_API_BASE_URL : `${protocol}://${host}/api/v3`;
+  const target: RepositoryTarget = { owner, repo: repo.replace(/\.git$/, ''), apiBaseUrl };
+  
+  const treeMatch = rest.match(/^\/(?:tree|blob)\/([^\/?#]+)(?:\/([^?#]*))?/);
+  if (treeMatch) {
+    target.ref = decodeURIComponent(treeMatch[1]);
+    const path = decodeURIComponent(treeMatch[2] || '').replace(/\/+$/, '');
+    if (path) {
+      target.path = path;
+      target.refPath = `${target.ref}/${path}`;
+    }
+  }
+  
+  return target;
 }
 
 /**
@@ -163,10 +338,6 @@ async function fetchCodeFiles(
  * @throws {Error} If the URL is not a valid GitHub repository URL
  */
 export function extractRepoInfoFromUrl(url: string): [string, string] {
-  const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-  if (!match) {
-    throw new Error('Invalid GitHub repository URL');
-  }
-  
-  return [match[1], match[2]];
-}
\ No newline at end of file
+  const { owner, repo } = parseGitHubUrl(url);
+  return [owner, repo];
+}
@@ -0,0 +1,158 @@
+/**
+ * GitLab API Utilities
+ *
+ * This file contains utility functions for interacting with the GitLab API,
+ * on gitlab.com or a self-hosted instance, to fetch repository data for
+ * diagram generation in the same shape as the GitHub repository data.
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { RepoNotFoundError } from './repository-errors.js';
+import { FetchOptions, MAX_TREE_ENTRIES, RepositoryTarget, TreeEntry, fetchTreeFiles, listDirectoryContents, restrictCredentials, toRepositoryError } from './repository-files.js';
+
+/**
+ * Base URL of the API of gitlab.com.
+ */
+export const GITLAB_API_BASE_URL = 'https://gitlab.com/api/v4';
+
+/**
+ * Create an axios instance configured for GitLab API requests.
+ *
+ * The token is only sent to the API of gitlab.com, or to the configured API
+ * of a self-hosted instance, never to other hosts named by project URLs.
+ *
+ * @param {string|undefined} token - GitLab personal, project or group access token
+ * @param {string|undefined} apiBaseUrl - Configured base URL of the API of a self-hosted instance
+ * @returns {AxiosInstance} Configured axios instance
+ */
+export function createGitLabApiClient(token?: string, apiBaseUrl?: string): AxiosInstance {
+  const client = axios.create();
+  if (token) {
+    restrictCredentials(client, { 'PRIVATE-TOKEN': token }, [apiBaseUrl || GITLAB_API_BASE_URL]);
+  }
+  return client;
+}
+
+/**
+ * Fetch repository data from the GitLab API.
+ *
+ * The file tree is listed page by page with the repository tree API, up to
+ * `MAX_TREE_ENTRIES` entries, and the highest ranked code files are then
+ * fetched in parallel.
+ *
+ * @param {AxiosInstance} apiClient - Axios instance for making API requests
+ * @param {string} owner - The group path of the project, including subgroups
+ * @param {string} repo - The project name
+ * @param {FetchOptions} options - The ref, path and limits of the fetch
+ * @returns {Promise<any>} A promise that resolves to the repository data
+ * @throws {RepoNotFoundError} If the project, ref or path does not exist
+ * @throws {AuthRequiredError} If GitLab requires a valid token
+ * @throws {RateLimitedError} If the GitLab API rate limit is exhausted
+ */
+export async function fetchGitLabRepositoryData(
+  apiClient: AxiosInstance,
+  owner: string,
+  repo: string,
+  options: FetchOptions = {}
+): Promise<any> {
+  const apiBaseUrl = (options.apiBaseUrl || GITLAB_API_BASE_URL).replace(/\/+$/, '');
+  const projectUrl = `${apiBaseUrl}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  const scopePath = (options.path || '').replace(/^\/+|\/+$/g, '');
+
+  // Fetch project information
+  let projectResponse: AxiosResponse;
+  try {
+    projectResponse = await apiClient.get(projectUrl);
+  } catch (error) {
+    throw toRepositoryError(error, 'GitLab', `Project ${owner}/${repo} was not found. Private projects are only visible with a GitLab token that has access to them.`);
+  }
+  const ref: string = options.ref || projectResponse.data.default_branch;
+
+  try {
+    // Fetch languages used in the project, as percentages
+    const languagesResponse = await apiClient.get(`${projectUrl}/languages`);
+
+    // Fetch the whole file tree of the ref, which GitLab returns in pages
+    const entries: TreeEntry[] = [];
+    let page: string | undefined = '1';
+    while (page) {
+      const treeResponse = await apiClient.get(`${projectUrl}/repository/tree`, {
+        params: { ref, recursive: true, per_page: 100, page }
+      });
+      for (const item of treeResponse.data) {
+        entries.push({ path: item.path, type: item.type, sha: item.id });
+      }
+      page = treeResponse.headers['x-next-page'] || undefined;
+      if (page && entries.length >= MAX_TREE_ENTRIES) {
+        console.warn(`The file tree of ${owner}/${repo} is too large and was truncated after ${entries.length} entries`);
+        break;
+      }
+    }
+    if (scopePath && !entries.some(entry => entry.path === scopePath)) {
+      throw new RepoNotFoundError(`The path ${scopePath} was not found at ref ${ref} of ${owner}/${repo}.`);
+    }
+
+    // Fetch the code files to analyze and the configuration files
+    const { codeFiles, configFiles } = await fetchTreeFiles(entries, scopePath, options, async (entry: TreeEntry) => {
+      const blobResponse = await apiClient.get(`${projectUrl}/repository/blobs/${entry.sha}/raw`, { responseType: 'text' });
+      return blobResponse.data;
+    });
+
+    // Return combined repository data
+    return {
+      info: {
+        ...projectResponse.data,
+        full_name: projectResponse.data.path_with_namespace,
+        html_url: projectResponse.data.web_url
+      },
+      contents: listDirectoryContents(entries, scopePath),
+      languages: languagesResponse.data,
+      codeFiles: codeFiles,
+      configFiles: configFiles,
+      ref: ref,
+      path: scopePath || undefined
+    };
+  } catch (error) {
+    throw toRepositoryError(error, 'GitLab', scopePath
+      ? `The path ${scopePath} was not found at ref ${ref} of ${owner}/${repo}.`
+      : `The ref ${ref} was not found in ${owner}/${repo}.`);
+  }
+}
+
+/**
+ * Parse a GitLab URL into the project, ref and path it targets.
+ *
+ * Projects may be nested in subgroups, so everything before the project name
+ * is the owner. `/-/tree/<ref>/<path>` and `/-/blob/<ref>/<path>` URLs are
+ * understood; refs containing slashes have to be given separately.
+ *
+ * @param {string} url - GitLab project, tree or blob URL
+ * @returns {RepositoryTarget} The targeted project, ref and path
+ * @throws {Error} If the URL is not a valid GitLab project URL
+ */
+export function parseGitLabUrl(url: string): RepositoryTarget {
+  const match = url.trim().match(/^(?:(https?):\/\/|[\w.-]+@)?([^\/:@\s]+(?::\d+)?)[\/:]([^?#\s]*)/);
+  const [projectPath, rest = ''] = match ? match[3].split('/-/') : [];
+  const segments = (projectPath || '').replace(/\/+$/, '').replace(/\.git$/, '').split('/');
+  if (!match || segments.length < 2) {
+    throw new Error('Invalid GitLab project URL');
+  }
+
+  const [, protocol = 'https', host] = match;
+  const target: RepositoryTarget = {
+    owner: segments.slice(0, -1).join('/'),
+    repo: segments[segments.length - 1],
+    apiBaseUrl: /^gitlab\.com$/i.test(host) ? GITLAB_API_BASE_URL : `${protocol}://${host}/api/v4`
+  };
+
+  const treeMatch = rest.match(/^(?:tree|blob)\/([^\/]+)(?:\/(.*))?/);
+  if (treeMatch) {
+    target.ref = decodeURIComponent(treeMatch[1]);
+    const path = decodeURIComponent(treeMatch[2] || '').replace(/\/+$/, '');
+    if (path) {
+      target.path = path;
+    }
+  }
+
+  return target;
+}
@@ -0,0 +1,126 @@
+/**
+ * Hotspot Analyzer Utilities
+ *
+ * This file contains utility functions for finding the hotspots of a
+ * repository: the code files that change often and are large, which are
+ * usually the most rewarding refactoring targets. Churn is counted from the
+ * file changes of the commits read by `InMemoryGit.getCommits`.
+ */
+
+import { CommitInfo } from './git-memory.js';
+
+/**
+ * Churn and size of a code file.
+ */
+export interface FileHotspot {
+  path: string;
+  // Number of analyzed commits that changed the file
+  commits: number;
+  lines: number;
+  // Commits times lines, the measure hotspots are ranked by
+  score: number;
+}
+
+/**
+ * Churn and size of the code files directly inside a directory.
+ */
+export interface DirectoryHotspot {
+  // Directory path, or '' for the repository root
+  path: string;
+  // Number of analyzed commits that changed a file of the directory
+  commits: number;
+  lines: number;
+  files: number;
+  score: number;
+}
+
+/**
+ * Hotspots of a repository, highest score first.
+ */
+export interface HotspotAnalysis {
+  // Number of analyzed commits
+  commits: number;
+  files: FileHotspot[];
+  directories: DirectoryHotspot[];
+}
+
+/**
+ * Get the paths of the files changed by commits, other than deleted ones.
+ *
+ * @param {CommitInfo[]} commits - The commits
+ * @returns {string[]} The changed file paths
+ */
+export function getChangedFiles(commits: CommitInfo[]): string[] {
+  const paths = new Set<string>();
+  for (const commit of commits) {
+    for (const file of commit.files) {
+      if (file.type !== 'delete') {
+        paths.add(file.path);
+      }
+    }
+  }
+  return Array.from(paths);
+}
+
+/**
+ * Rank the code files and directories of a repository by churn and size.
+ *
+ * Only the files with a line count are ranked, so files that were deleted
+ * since or are not code files are left out by leaving them out of
+ * `lineCounts`. A commit listed more than once is counted once. Merge
+ * commits are left out, since the changes they bring in are counted at the
+ * commits of the merged branch.
+ *
+ * @param {CommitInfo[]} commits - The analyzed commits
+ * @param {Map<string, number>} lineCounts - The line count of each code file at the newest commit
+ * @returns {HotspotAnalysis} The ranked files and directories
+ */
+export function analyzeHotspots(commits: CommitInfo[], lineCounts: Map<string, number>): HotspotAnalysis {
+  const fileCommits = new Map<string, Set<string>>();
+  const directoryCommits = new Map<string, Set<string>>();
+  const analyzed = commits.filter(commit => commit.parents.length <= 1);
+
+  for (const commit of analyzed) {
+    for (const file of commit.files) {
+      if (!lineCounts.has(file.path)) {
+        continue;
+      }
+      const directory = getDirectory(file.path);
+      fileCommits.set(file.path, (fileCommits.get(file.path) || new Set()).add(commit.sha));
+      directoryCommits.set(directory, (directoryCommits.get(directory) || new Set()).add(commit.sha));
+    }
+  }
+
+  const files: FileHotspot[] = Array.from(fileCommits, ([path, shas]) => ({
+    path,
+    commits: shas.size,
+    lines: lineCounts.get(path),
+    score: shas.size * lineCounts.get(path)
+  })).sort((a, b) => b.score - a.score || b.commits - a.commits || a.path.localeCompare(b.path));
+
+  const directories = new Map<string, DirectoryHotspot>();
+  for (const file of files) {
+    const path = getDirectory(file.path);
+    const directory = directories.get(path) || { path, commits: directoryCommits.get(path).size, lines: 0, files: 0, score: 0 };
+    directory.lines += file.lines;
+    directory.files++;
+    directory.score += file.score;
+    directories.set(path, directory);
+  }
+
+  return {
+    commits: new Set(analyzed.map(commit => commit.sha)).size,
+    files,
+    directories: Array.from(directories.values()).sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+  };
+}
+
+/**
+ * Get the directory of a file path.
+ *
+ * @param {string} filePath - The file path
+ * @returns {string} The directory path, or '' for files in the repository root
+ */
+function getDirectory(filePath: string): string {
+  return filePath.substring(0, Math.max(0, filePath.lastIndexOf('/')));
+}
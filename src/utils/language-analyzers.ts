@@ -0,0 +1,252 @@
+/**
+ * Language Analyzer Registry
+ *
+ * This file contains the registry of language analyzers, which recognize the
+ * code files of a language and find their imports, types and calls for
+ * repository diagrams. Support for another language is added by registering
+ * an analyzer, for example when embedding Archy as a library:
+ *
+ * ```ts
+ * registerLanguageAnalyzer({
+ *   language: 'kotlin',
+ *   displayName: 'Kotlin',
+ *   extensions: ['.kt', '.kts'],
+ *   detectTypes: files => extractKotlinClasses(files)
+ * });
+ * ```
+ */
+
+import { extractTypeScriptClasses, ClassInfo, ClassRelationship } from './typescript-analyzer.js';
+import { extractModuleSpecifiers, readPathAliases, resolveModuleSpecifier } from './module-resolver.js';
+import { extractPythonClasses, extractPythonImports, resolvePythonImport } from './python-analyzer.js';
+import { extractStructuredTypes, STRUCTURE_EXTRACTORS } from './structure-extractors.js';
+
+/**
+ * A code file of a repository, tagged with the language of its analyzer.
+ */
+export interface CodeFile {
+  path: string;
+  content: string;
+  language: string;
+}
+
+/**
+ * The repository files available to an analyzer.
+ */
+export interface AnalysisContext {
+  codeFiles: CodeFile[];
+  configFiles: Array<{path: string, content: string}>;
+}
+
+/**
+ * Recognizes and analyzes the code files of one language.
+ *
+ * Only `language` and `extensions` are required; a diagram leaves out the
+ * files whose analyzer lacks the detector it needs.
+ */
+export interface LanguageAnalyzer {
+  // Identifier stored in the `language` of code files, such as 'typescript'
+  language: string;
+  displayName?: string;
+  // File extensions including the leading dot, such as ['.ts', '.tsx']
+  extensions: string[];
+
+  /**
+   * Find the repository files imported by a file.
+   *
+   * @param {CodeFile} file - The file to analyze
+   * @param {AnalysisContext} context - The files of the repository
+   * @returns {Array<{path: string, isReExport?: boolean}>} The imported files
+   */
+  detectImports?(file: CodeFile, context: AnalysisContext): Array<{path: string, isReExport?: boolean}>;
+
+  /**
+   * Find the types declared by the files of this language, and their relationships.
+   *
+   * @param {CodeFile[]} files - The files of this language
+   * @param {AnalysisContext} context - The files of the repository
+   * @returns {{classes: ClassInfo[], relationships: ClassRelationship[]}} Types and relationships
+   */
+  detectTypes?(files: CodeFile[], context: AnalysisContext): {classes: ClassInfo[], relationships: ClassRelationship[]};
+
+  /**
+   * Find the calls a file makes to methods of the given components.
+   *
+   * @param {CodeFile} file - The file to analyze
+   * @param {string[]} components - The names of the components of the repository
+   * @returns {Array<{to: string, method: string}>} The called components and methods
+   */
+  detectCalls?(file: CodeFile, components: string[]): Array<{to: string, method: string}>;
+}
+
+const analyzers = new Map<string, LanguageAnalyzer>();
+
+/**
+ * Register a language analyzer, replacing any analyzer of the same language.
+ *
+ * @param {LanguageAnalyzer} analyzer - The analyzer to register
+ */
+export function registerLanguageAnalyzer(analyzer: LanguageAnalyzer): void {
+  analyzers.set(analyzer.language, analyzer);
+}
+
+/**
+ * Get the analyzer of a language.
+ *
+ * @param {string} language - The language identifier
+ * @returns {LanguageAnalyzer | undefined} The analyzer, or undefined if none is registered
+ */
+export function getLanguageAnalyzer(language: string): LanguageAnalyzer | undefined {
+  return analyzers.get(language);
+}
+
+/**
+ * Get the analyzer for a file extension.
+ *
+ * Analyzers registered later take precedence, so a registered analyzer can
+ * claim an extension of a built-in one.
+ *
+ * @param {string} fileExt - The file extension, including the leading dot
+ * @returns {LanguageAnalyzer | undefined} The analyzer, or undefined if no analyzer handles the extension
+ */
+export function getLanguageAnalyzerForExtension(fileExt: string): LanguageAnalyzer | undefined {
+  const extension = fileExt.toLowerCase();
+  return Array.from(analyzers.values()).reverse().find(analyzer => analyzer.extensions.includes(extension));
+}
+
+/**
+ * Get all registered language analyzers.
+ *
+ * @returns {LanguageAnalyzer[]} The analyzers, in registration order
+ */
+export function getLanguageAnalyzers(): LanguageAnalyzer[] {
+  return Array.from(analyzers.values());
+}
+
+/**
+ * Find calls of the form `Component.method` in code.
+ *
+ * @param {string} content - The code to search
+ * @param {string[]} components - The names of the components
+ * @param {string} separator - Regex of the member access operator, such as `\.` or `(?:::|->)`
+ * @returns {Array<{to: string, method: string}>} The called components and methods
+ */
+export function detectMemberCalls(content: string, components: string[], separator: string = '\\.'): Array<{to: string, method: string}> {
+  const calls: Array<{to: string, method: string}> = [];
+  for (const component of components) {
+    const componentRegex = new RegExp(`\\b${component}${separator}(\\w+)`, 'g');
+    let match;
+    while ((match = componentRegex.exec(content)) !== null) {
+      calls.push({ to: component, method: match[1] });
+    }
+  }
+  return calls;
+}
+
+/**
+ * Analyze code dependencies between files.
+ *
+ * This function analyzes the code files to identify dependencies
+ * (imports, requires, re-exports, etc.) between files, using the language
+ * analyzer of each file to find and resolve its imports.
+ *
+ * @param {Array<{path: string, content: string, language: string}>} codeFiles - The code files to analyze
+ * @param {Array<{path: string, content: string}>} configFiles - The configuration files, for `tsconfig` path aliases
+ * @returns {Array<{from: string, to: string, isReExport?: boolean}>} An array of dependencies
+ */
+export function analyzeCodeDependencies(
+  codeFiles: Array<{path: string, content: string, language: string}>,
+  configFiles: Array<{path: string, content: string}> = []
+): Array<{from: string, to: string, isReExport?: boolean}> {
+  const dependencies: Array<{from: string, to: string, isReExport?: boolean}> = [];
+  const context = { codeFiles, configFiles };
+
+  // Analyze each file for imports/requires
+  for (const file of codeFiles) {
+    const analyzer = getLanguageAnalyzer(file.language);
+    if (!analyzer?.detectImports) {
+      continue;
+    }
+
+    for (const { path, isReExport = false } of analyzer.detectImports(file, context)) {
+      const existing = dependencies.find(dep => dep.from === file.path && dep.to === path);
+      if (existing) {
+        // An import and a re-export of the same module is drawn as an import
+        existing.isReExport = existing.isReExport && isReExport;
+      } else if (file.path !== path) {
+        dependencies.push({ from: file.path, to: path, isReExport });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+// TypeScript and JavaScript share the resolver and the compiler-based extractor
+const detectScriptImports = (file: CodeFile, context: AnalysisContext) => {
+  const filePaths = new Set(context.codeFiles.map(codeFile => codeFile.path));
+  const aliases = readPathAliases(context.configFiles);
+  return extractModuleSpecifiers(file.path, file.content)
+    .map(({ specifier, isReExport }) => ({ path: resolveModuleSpecifier(file.path, specifier, filePaths, aliases), isReExport }))
+    .filter((dependency): dependency is {path: string, isReExport: boolean} => !!dependency.path);
+};
+
+registerLanguageAnalyzer({
+  language: 'javascript',
+  displayName: 'JavaScript',
+  extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+  detectImports: detectScriptImports,
+  detectTypes: files => extractTypeScriptClasses(files),
+  detectCalls: (file, components) => detectMemberCalls(file.content, components)
+});
+
+registerLanguageAnalyzer({
+  language: 'typescript',
+  displayName: 'TypeScript',
+  extensions: ['.ts', '.tsx', '.mts', '.cts'],
+  detectImports: detectScriptImports,
+  detectTypes: files => extractTypeScriptClasses(files),
+  detectCalls: (file, components) => detectMemberCalls(file.content, components)
+});
+
+registerLanguageAnalyzer({
+  language: 'python',
+  displayName: 'Python',
+  extensions: ['.py'],
+  detectImports: (file, context) => {
+    const filePaths = new Set(context.codeFiles.map(codeFile => codeFile.path));
+    return extractPythonImports(file.content)
+      .flatMap(pythonImport => resolvePythonImport(file.path, pythonImport, filePaths))
+      .map(path => ({ path }));
+  },
+  detectTypes: files => extractPythonClasses(files),
+  detectCalls: (file, components) => detectMemberCalls(file.content, components)
+});
+
+// Go, Java, C#, Ruby and PHP use the pattern-based structure extractors
+const structureLanguages: Array<[string, string, string[], string]> = [
+  ['go', 'Go', ['.go'], '\\.'],
+  ['java', 'Java', ['.java'], '\\.'],
+  ['csharp', 'C#', ['.cs'], '\\.'],
+  ['ruby', 'Ruby', ['.rb'], '(?:\\.|::)'],
+  ['php', 'PHP', ['.php'], '(?:::|->)']
+];
+for (const [language, displayName, extensions, separator] of structureLanguages) {
+  registerLanguageAnalyzer({
+    language,
+    displayName,
+    extensions,
+    detectImports: (file, context) => STRUCTURE_EXTRACTORS[language]
+      .extractDependencies(file, context.codeFiles, context.configFiles)
+      .map(path => ({ path })),
+    detectTypes: files => extractStructuredTypes(files),
+    detectCalls: (file, components) => detectMemberCalls(file.content, components, separator)
+  });
+}
+
+// C and C++ files are recognized for language statistics only
+registerLanguageAnalyzer({
+  language: 'cpp',
+  displayName: 'C++',
+  extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.c', '.h']
+});
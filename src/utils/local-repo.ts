@@ -0,0 +1,182 @@
+/**
+ * Local Repository Utilities
+ *
+ * This file contains utility functions for reading a repository checkout from
+ * the local file system. The data is returned in the same shape as the data
+ * fetched from the GitHub API, so it can be fed to the same diagram builders.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getLanguageForExtension, isConfigFile } from './repository-files.js';
+
+/**
+ * Directories that are never walked when reading a local repository.
+ */
+const IGNORED_DIRECTORIES = ['.git', 'node_modules', 'build', 'dist', 'coverage', '.venv', '__pycache__'];
+
+/**
+ * Convert a glob pattern to a regular expression.
+ *
+ * Supports `**` (any number of directories), `*` (anything except a path
+ * separator), `?` (a single character) and `{a,b}` alternatives.
+ *
+ * @param {string} pattern - The glob pattern to convert
+ * @returns {RegExp} A regular expression matching relative POSIX paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      regex += '(?:';
+      inGroup = true;
+    } else if (char === '}' && inGroup) {
+      regex += ')';
+      inGroup = false;
+    } else if (char === ',' && inGroup) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Read the owner of a local repository from the URL of its `origin` remote.
+ *
+ * @param {string} rootDir - Absolute path to the repository on disk
+ * @returns {Promise<string>} The owner, or '' if the checkout has no remote to tell it
+ */
+async function readRemoteOwner(rootDir: string): Promise<string> {
+  let config: string;
+  try {
+    config = await fs.readFile(path.join(rootDir, '.git', 'config'), 'utf8');
+  } catch (error) {
+    // Not the root of a checkout, or a worktree whose configuration lives elsewhere
+    return '';
+  }
+
+  const origin = config.match(/^\s*\[remote\s+"origin"\]([^[]*)/m)?.[1] || '';
+  const url = origin.match(/^\s*url\s*=\s*(\S+)/m)?.[1] || '';
+
+  // Everything between the host and the repository name, such as a user or nested groups
+  const repoPath = url.match(/^[\w+-]+:\/\/(?:[^@\/]+@)?[^\/]+\/(.*)$|^(?:[^@\/]+@)?[^\/:]+:(?!\/)(.*)$/);
+  const segments = (repoPath?.[1] ?? repoPath?.[2] ?? '').replace(/\.git\/?$/, '').split('/').filter(Boolean);
+  return segments.slice(0, -1).join('/');
+}
+
+/**
+ * Read repository data from a local directory.
+ *
+ * This function walks the directory, collects the files matching the given
+ * glob patterns and returns them together with the top-level contents,
+ * language statistics and configuration files, mirroring the structure of
+ * `fetchRepositoryData`. The owner is read from the `origin` remote of the
+ * checkout, and left empty without one.
+ *
+ * @param {string} repoPath - Path to the repository on disk
+ * @param {string[]} filePatterns - Glob patterns of files to analyze, relative to the repository root
+ * @param {number} maxFiles - Maximum number of code files to read
+ * @returns {Promise<any>} A promise that resolves to the repository data
+ * @throws {Error} If the path does not exist or is not a directory
+ */
+export async function readLocalRepositoryData(
+  repoPath: string,
+  filePatterns: string[] = ['**/*.ts', '**/*.js'],
+  maxFiles: number = 50
+): Promise<any> {
+  const rootDir = path.resolve(repoPath);
+
+  let stats;
+  try {
+    stats = await fs.stat(rootDir);
+  } catch (error) {
+    throw new Error(`Repository path not found: ${repoPath}`);
+  }
+
+  if (!stats.isDirectory()) {
+    throw new Error(`Repository path is not a directory: ${repoPath}`);
+  }
+
+  const matchers = filePatterns.map(globToRegExp);
+  const codeFiles: Array<{path: string, content: string, language: string}> = [];
+  const configFiles: Array<{path: string, content: string}> = [];
+  const languages: Record<string, number> = {};
+
+  // Walk the directory tree breadth-first so top-level files are preferred
+  const queue: string[] = [''];
+  while (queue.length > 0 && codeFiles.length < maxFiles) {
+    const relativeDir = queue.shift() as string;
+    const entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.includes(entry.name)) {
+          queue.push(relativePath);
+        }
+      } else if (entry.isFile() && isConfigFile(entry.name)) {
+        const content = await fs.readFile(path.join(rootDir, relativePath), 'utf8');
+        configFiles.push({ path: relativePath, content });
+      } else if (entry.isFile() && matchers.some(matcher => matcher.test(relativePath))) {
+        if (codeFiles.length >= maxFiles) {
+          break;
+        }
+
+        const content = await fs.readFile(path.join(rootDir, relativePath), 'utf8');
+        const language = getLanguageForExtension(path.extname(entry.name));
+
+        codeFiles.push({ path: relativePath, content, language });
+
+        if (language !== 'unknown') {
+          languages[language] = (languages[language] || 0) + Buffer.byteLength(content);
+        }
+      }
+    }
+  }
+
+  // Describe the top-level entries the same way the GitHub contents API does
+  const topLevelEntries = await fs.readdir(rootDir, { withFileTypes: true });
+  const contents = topLevelEntries
+    .filter(entry => !(entry.isDirectory() && IGNORED_DIRECTORIES.includes(entry.name)))
+    .map(entry => ({
+      name: entry.name,
+      path: entry.name,
+      type: entry.isDirectory() ? 'dir' : 'file'
+    }));
+
+  return {
+    info: {
+      name: path.basename(rootDir),
+      full_name: rootDir,
+      owner: { login: await readRemoteOwner(rootDir) }
+    },
+    contents,
+    languages,
+    codeFiles,
+    configFiles
+  };
+}
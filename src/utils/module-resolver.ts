@@ -0,0 +1,191 @@
+/**
+ * Module Resolver Utilities
+ *
+ * This file contains utility functions for finding the imports of TypeScript
+ * and JavaScript files and resolving them to files of the repository, which
+ * are used for generating module dependency graphs.
+ */
+
+import ts from 'typescript';
+
+/**
+ * Path aliases read from a `tsconfig.json` or `jsconfig.json`.
+ *
+ * `baseUrl` is relative to the repository root, and each alias pattern maps
+ * to targets relative to `baseUrl`, as in `{"@/*": ["src/*"]}`.
+ */
+export interface PathAliases {
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * A module imported or re-exported by a file.
+ */
+export interface ModuleSpecifier {
+  specifier: string;
+  isReExport: boolean;
+}
+
+// Extensions tried when an import omits them, in order of preference
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// ESM imports name the emitted file, which is compiled from a TypeScript source
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+/**
+ * Normalize a POSIX path, resolving `.` and `..` segments.
+ *
+ * @param {string} filePath - The path to normalize
+ * @returns {string} The normalized path, without leading `./`
+ */
+function normalizePath(filePath: string): string {
+  const parts: string[] = [];
+  for (const part of filePath.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+/**
+ * Read the path aliases of a repository from its `tsconfig.json` or
+ * `jsconfig.json`.
+ *
+ * Comments and trailing commas are allowed, as in the files the TypeScript
+ * compiler reads. The configuration closest to the repository root is used.
+ *
+ * @param {Array<{path: string, content: string}>} configFiles - The configuration files of the repository
+ * @returns {PathAliases} The path aliases, empty if there is no configuration
+ */
+export function readPathAliases(configFiles: Array<{path: string, content: string}>): PathAliases {
+  const configs = configFiles
+    .filter(file => /(?:^|\/)[tj]sconfig\.json$/.test(file.path))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+
+  for (const file of configs) {
+    const { config } = ts.parseConfigFileTextToJson(file.path, file.content);
+    const compilerOptions = config?.compilerOptions;
+    if (!compilerOptions || (!compilerOptions.baseUrl && !compilerOptions.paths)) {
+      continue;
+    }
+
+    const configDir = file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '';
+    return {
+      baseUrl: normalizePath(`${configDir}/${compilerOptions.baseUrl || '.'}`),
+      paths: compilerOptions.paths || {}
+    };
+  }
+
+  return { paths: {} };
+}
+
+/**
+ * Find the modules imported or re-exported by a TypeScript or JavaScript file.
+ *
+ * Static imports, side-effect imports, `export ... from` re-exports, dynamic
+ * `import()` calls and CommonJS `require()` calls are all recognized.
+ *
+ * @param {string} filePath - The path of the file, used to pick the parser
+ * @param {string} content - The file content
+ * @returns {ModuleSpecifier[]} The imported modules, in source order
+ */
+export function extractModuleSpecifiers(filePath: string, content: string): ModuleSpecifier[] {
+  const scriptKind = /\.[jt]sx$/.test(filePath) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+  const specifiers: ModuleSpecifier[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      specifiers.push({ specifier: node.moduleSpecifier.text, isReExport: false });
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      specifiers.push({ specifier: node.moduleSpecifier.text, isReExport: true });
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) &&
+        ts.isStringLiteral(node.moduleReference.expression)) {
+      specifiers.push({ specifier: node.moduleReference.expression.text, isReExport: false });
+    } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0]) &&
+        (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+          (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      specifiers.push({ specifier: node.arguments[0].text, isReExport: false });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return specifiers;
+}
+
+/**
+ * Resolve a module specifier to a file of the repository.
+ *
+ * Relative specifiers are resolved against the importing file; other
+ * specifiers are matched against the `paths` aliases and the `baseUrl`.
+ * A specifier may omit its extension, name a directory with an index file,
+ * or name the `.js` file emitted for a `.ts` source.
+ *
+ * @param {string} fromPath - The path of the importing file
+ * @param {string} specifier - The module specifier
+ * @param {Set<string>} filePaths - The paths of the files of the repository
+ * @param {PathAliases} aliases - The path aliases of the repository
+ * @returns {string | undefined} The path of the imported file, or undefined for packages and unknown files
+ */
+export function resolveModuleSpecifier(
+  fromPath: string,
+  specifier: string,
+  filePaths: Set<string>,
+  aliases: PathAliases = { paths: {} }
+): string | undefined {
+  const candidates: string[] = [];
+
+  if (specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..') {
+    const fromDir = fromPath.includes('/') ? fromPath.substring(0, fromPath.lastIndexOf('/')) : '';
+    candidates.push(normalizePath(`${fromDir}/${specifier}`));
+  } else if (specifier.startsWith('/')) {
+    candidates.push(normalizePath(specifier));
+  } else {
+    const baseUrl = aliases.baseUrl || '';
+    for (const [pattern, targets] of Object.entries(aliases.paths)) {
+      const [prefix, suffix] = pattern.includes('*') ? pattern.split('*') : [pattern, undefined];
+      const matches = suffix === undefined
+        ? specifier === prefix
+        : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length;
+      if (!matches) {
+        continue;
+      }
+
+      const wildcard = suffix === undefined ? '' : specifier.substring(prefix.length, specifier.length - suffix.length);
+      for (const target of targets) {
+        candidates.push(normalizePath(`${baseUrl}/${target.replace('*', wildcard)}`));
+      }
+    }
+    if (aliases.baseUrl !== undefined) {
+      candidates.push(normalizePath(`${baseUrl}/${specifier}`));
+    }
+  }
+
+  for (const candidate of candidates) {
+    const extension = candidate.substring(candidate.lastIndexOf('.'));
+    const withoutExtension = candidate.substring(0, candidate.length - extension.length);
+    const attempts = [
+      candidate,
+      ...(EMITTED_EXTENSIONS[extension] || []).map(sourceExtension => `${withoutExtension}${sourceExtension}`),
+      ...RESOLVE_EXTENSIONS.map(ext => `${candidate}${ext}`),
+      ...RESOLVE_EXTENSIONS.map(ext => `${candidate ? `${candidate}/` : ''}index${ext}`)
+    ];
+
+    const resolved = attempts.find(attempt => filePaths.has(attempt));
+    if (resolved) {
+      return resolved;
+    }
+  }
+
+  return undefined;
+}
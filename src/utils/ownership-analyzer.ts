@@ -0,0 +1,252 @@
+/**
+ * Ownership Analyzer Utilities
+ *
+ * This file contains utility functions for finding who maintains the
+ * components of a repository from the authors of its commits, which
+ * components depend on a single person, and whether the owners declared in
+ * a `CODEOWNERS` file are still the people changing the code.
+ */
+
+import { CommitInfo } from './git-memory.js';
+import { globToRegExp } from './local-repo.js';
+
+/**
+ * Paths a `CODEOWNERS` file is looked up at, in the order GitHub and GitLab read them.
+ */
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+
+/**
+ * An author of commits.
+ */
+export interface Contributor {
+  name: string;
+  email: string;
+  // Number of analyzed commits of the author that changed the component
+  commits: number;
+}
+
+/**
+ * A rule of a `CODEOWNERS` file.
+ */
+export interface CodeOwnersRule {
+  pattern: string;
+  regex: RegExp;
+  // Users (`@name`), teams (`@org/team`) or email addresses
+  owners: string[];
+}
+
+/**
+ * How the declared owners of a component compare with its contributors.
+ *
+ * - `matches`: a declared owner is one of the top contributors
+ * - `differs`: people are declared as owners, but none of them is a top contributor
+ * - `team`: only teams are declared, whose members cannot be told from the history
+ * - `unowned`: no owner is declared
+ */
+export type OwnershipStatus = 'matches' | 'differs' | 'team' | 'unowned';
+
+/**
+ * Contributors of a component of a repository.
+ */
+export interface ComponentOwnership {
+  // Directory path, or '' for the files in the repository root
+  path: string;
+  // Number of analyzed commits that changed the component
+  commits: number;
+  // Contributors, most commits first
+  contributors: Contributor[];
+  // Smallest number of contributors who made more than half of the commits
+  busFactor: number;
+  // Owners declared in CODEOWNERS, if a CODEOWNERS file was given
+  declaredOwners?: string[];
+  status?: OwnershipStatus;
+}
+
+/**
+ * Ownership of the components of a repository, most changed component first.
+ */
+export interface OwnershipAnalysis {
+  // Number of analyzed commits
+  commits: number;
+  components: ComponentOwnership[];
+  hasCodeOwners: boolean;
+}
+
+/**
+ * Parse the rules of a `CODEOWNERS` file.
+ *
+ * Patterns follow the gitignore rules used by GitHub and GitLab: patterns
+ * without a slash match at any depth, patterns with a leading or inner slash
+ * are relative to the repository root, and directory patterns match
+ * everything below them. GitLab section headers are skipped.
+ *
+ * @param {string} content - The content of the CODEOWNERS file
+ * @returns {CodeOwnersRule[]} The rules, in file order
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/(?:^|\s)#.*$/, '').trim();
+    if (!line || /^\^?\[/.test(line)) {
+      continue;
+    }
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    let glob = pattern.replace(/^\//, '');
+    if (!pattern.startsWith('/') && !glob.replace(/\/$/, '').includes('/')) {
+      glob = `**/${glob}`;
+    }
+    if (glob.endsWith('/')) {
+      glob += '**';
+    }
+
+    // A pattern naming a directory also matches the files below it, but `dir/*` only the files directly inside
+    const sources = [globToRegExp(glob).source];
+    if (!glob.endsWith('/*')) {
+      sources.push(globToRegExp(`${glob}/**`).source);
+    }
+    rules.push({ pattern, regex: new RegExp(sources.join('|')), owners });
+  }
+
+  return rules;
+}
+
+/**
+ * Get the owners of a file from the rules of a `CODEOWNERS` file.
+ *
+ * @param {CodeOwnersRule[]} rules - The rules, in file order
+ * @param {string} filePath - The path of the file, relative to the repository root
+ * @returns {string[]} The owners of the last matching rule, or none
+ */
+export function getCodeOwners(rules: CodeOwnersRule[], filePath: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(filePath)) {
+      return rules[i].owners;
+    }
+  }
+  return [];
+}
+
+/**
+ * Determine whether a declared owner is a contributor.
+ *
+ * Email owners are compared with the author email. User owners are compared
+ * with the user name of GitHub no-reply addresses, the local part of the
+ * email and the author name.
+ *
+ * @param {string} owner - The declared owner, such as `@octocat` or `jane@example.com`
+ * @param {Contributor} contributor - The contributor
+ * @returns {boolean} True if the owner is the contributor
+ */
+export function isOwnerContributor(owner: string, contributor: Contributor): boolean {
+  const email = contributor.email.toLowerCase();
+  if (!owner.startsWith('@')) {
+    return owner.toLowerCase() === email;
+  }
+
+  const user = owner.substring(1).toLowerCase();
+  const localPart = email.substring(0, email.indexOf('@')).replace(/^\d+\+/, '');
+  return user === localPart || user === contributor.name.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Map the components of a repository to their contributors.
+ *
+ * A component is a directory `depth` levels deep, or shallower for files
+ * closer to the root. Only the changes to the given files count, so files
+ * that are not code can be left out. Contributors are told apart by email.
+ * Merge commits are left out, so whoever merges a branch is not credited
+ * with the changes of its authors.
+ *
+ * @param {CommitInfo[]} commits - The analyzed commits
+ * @param {Set<string>} files - The files whose changes count
+ * @param {number} depth - Number of directory levels of a component path
+ * @param {CodeOwnersRule[]} codeOwners - The rules of the CODEOWNERS file, if the repository has one
+ * @param {number} topContributors - Number of contributors declared owners are compared with
+ * @returns {OwnershipAnalysis} The components, most changed first
+ */
+export function analyzeOwnership(
+  commits: CommitInfo[],
+  files: Set<string>,
+  depth: number = 2,
+  codeOwners?: CodeOwnersRule[],
+  topContributors: number = 3
+): OwnershipAnalysis {
+  const componentCommits = new Map<string, Set<string>>();
+  const authorCommits = new Map<string, Map<string, Set<string>>>();
+  const authors = new Map<string, { name: string; email: string }>();
+  const componentFiles = new Map<string, Set<string>>();
+  const analyzed = new Set<string>();
+
+  for (const commit of commits) {
+    if (analyzed.has(commit.sha) || commit.parents.length > 1) {
+      continue;
+    }
+    analyzed.add(commit.sha);
+
+    // Commits are read newest first, so the latest name of an author is kept
+    const email = commit.author.email.toLowerCase();
+    if (!authors.has(email)) {
+      authors.set(email, { name: commit.author.name, email: commit.author.email });
+    }
+
+    for (const file of commit.files) {
+      if (!files.has(file.path)) {
+        continue;
+      }
+      const component = file.path.split('/').slice(0, -1).slice(0, depth).join('/');
+      componentCommits.set(component, (componentCommits.get(component) || new Set()).add(commit.sha));
+      componentFiles.set(component, (componentFiles.get(component) || new Set()).add(file.path));
+
+      const byAuthor = authorCommits.get(component) || new Map<string, Set<string>>();
+      byAuthor.set(email, (byAuthor.get(email) || new Set()).add(commit.sha));
+      authorCommits.set(component, byAuthor);
+    }
+  }
+
+  const components: ComponentOwnership[] = [];
+  for (const [path, shas] of componentCommits) {
+    const contributors = Array.from(authorCommits.get(path), ([email, authored]) => ({ ...authors.get(email), commits: authored.size }))
+      .sort((a, b) => b.commits - a.commits || a.name.localeCompare(b.name));
+
+    let busFactor = 0;
+    for (let covered = 0; covered * 2 <= shas.size; busFactor++) {
+      covered += contributors[busFactor].commits;
+    }
+
+    const component: ComponentOwnership = { path, commits: shas.size, contributors, busFactor };
+    if (codeOwners) {
+      const owners = new Set<string>();
+      for (const filePath of componentFiles.get(path)) {
+        getCodeOwners(codeOwners, filePath).forEach(owner => owners.add(owner));
+      }
+      component.declaredOwners = Array.from(owners);
+      component.status = getOwnershipStatus(component.declaredOwners, contributors.slice(0, topContributors));
+    }
+    components.push(component);
+  }
+
+  return {
+    commits: analyzed.size,
+    components: components.sort((a, b) => b.commits - a.commits || a.path.localeCompare(b.path)),
+    hasCodeOwners: Boolean(codeOwners)
+  };
+}
+
+/**
+ * Compare the declared owners of a component with its top contributors.
+ *
+ * @param {string[]} owners - The declared owners
+ * @param {Contributor[]} contributors - The top contributors
+ * @returns {OwnershipStatus} How the owners compare with the contributors
+ */
+function getOwnershipStatus(owners: string[], contributors: Contributor[]): OwnershipStatus {
+  if (owners.length === 0) {
+    return 'unowned';
+  }
+  if (owners.some(owner => contributors.some(contributor => isOwnerContributor(owner, contributor)))) {
+    return 'matches';
+  }
+  return owners.every(owner => /^@[^\/]+\//.test(owner)) ? 'team' : 'differs';
+}
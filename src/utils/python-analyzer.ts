@@ -0,0 +1,487 @@
+/**
+ * Python Analyzer Utilities
+ *
+ * This file contains utility functions for analyzing Python code, which are
+ * used for generating class diagrams and module dependency graphs from
+ * repository code. Python has no parser available here, so classes and
+ * methods are scoped by their indentation.
+ */
+
+import { ClassInfo, ClassRelationship, locateRelationships } from './typescript-analyzer.js';
+
+/**
+ * A module imported by a Python file.
+ *
+ * `level` is the number of leading dots of a relative import, so
+ * `from ..core import x` has level 2, module `core` and names `['x']`.
+ */
+export interface PythonImport {
+  module: string;
+  level: number;
+  names: string[];
+}
+
+// Generic types whose arguments are the element types of a collection
+const COLLECTION_TYPES = ['List', 'list', 'Set', 'set', 'FrozenSet', 'frozenset', 'Dict', 'dict', 'Tuple', 'tuple',
+  'Sequence', 'Iterable', 'Mapping', 'MutableMapping', 'Collection', 'DefaultDict', 'deque'];
+
+// Bases that mark a kind of class rather than a superclass worth drawing
+const MARKER_BASES: Record<string, string | undefined> = {
+  'object': undefined,
+  'ABC': 'abstract',
+  'Protocol': 'interface',
+  'Enum': 'enumeration',
+  'IntEnum': 'enumeration',
+  'StrEnum': 'enumeration',
+  'Flag': 'enumeration',
+  'IntFlag': 'enumeration'
+};
+
+/**
+ * Split a comma-separated list, ignoring commas inside brackets.
+ *
+ * @param {string} text - The list, such as parameters or base classes
+ * @returns {string[]} The trimmed, non-empty items
+ */
+function splitTopLevel(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    }
+    if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current.trim());
+  return items.filter(Boolean);
+}
+
+/**
+ * Convert a Python type hint to a type that Mermaid can display.
+ *
+ * @param {string | undefined} hint - The type hint, such as `List[Order]`
+ * @returns {string | undefined} The display type, such as `List~Order~`
+ */
+function formatTypeHint(hint: string | undefined): string | undefined {
+  if (!hint) {
+    return undefined;
+  }
+  // Forward references are quoted: `Optional["Customer"]`
+  return hint.trim().replace(/['"]/g, '').replace(/\s+/g, ' ').replace(/[[\]]/g, '~');
+}
+
+/**
+ * Get the visibility marker of a Python name from its underscores.
+ *
+ * @param {string} name - The attribute or method name
+ * @returns {string} '-' for name-mangled names, '#' for protected names, '+' otherwise
+ */
+function getVisibility(name: string): string {
+  if (name.startsWith('__') && !name.endsWith('__')) {
+    return '-';
+  }
+  return name.startsWith('_') ? '#' : '+';
+}
+
+/**
+ * Get the indentation width of a line.
+ *
+ * @param {string} line - The line
+ * @returns {number} The number of leading whitespace characters, with tabs counted as 4
+ */
+function indentOf(line: string): number {
+  const match = line.match(/^[ \t]*/) as RegExpMatchArray;
+  return match[0].replace(/\t/g, '    ').length;
+}
+
+/**
+ * Join the lines of a Python file into logical lines.
+ *
+ * Statements continued inside brackets or with a trailing backslash are
+ * joined into one line, and comments and blank lines are dropped.
+ *
+ * @param {string} content - The file content
+ * @returns {Array<{text: string, indent: number}>} The logical lines
+ */
+function toLogicalLines(content: string): Array<{text: string, indent: number}> {
+  const lines: Array<{text: string, indent: number}> = [];
+  let buffer = '';
+  let indent = 0;
+  let depth = 0;
+  let inDocstring: string | undefined;
+
+  for (const rawLine of content.split('\n')) {
+    // Skip the contents of docstrings and other triple-quoted strings
+    if (inDocstring) {
+      if (rawLine.includes(inDocstring)) {
+        inDocstring = undefined;
+      }
+      continue;
+    }
+    const tripleQuote = rawLine.match(/("""|''')/);
+    if (tripleQuote && rawLine.split(tripleQuote[1]).length === 2) {
+      inDocstring = tripleQuote[1];
+      continue;
+    }
+
+    const line = rawLine.replace(/(^|\s)#.*$/, '').replace(/\s+$/, '');
+    if (!buffer) {
+      if (!line.trim()) {
+        continue;
+      }
+      indent = indentOf(line);
+    }
+    buffer += buffer ? ` ${line.trim()}` : line.trim();
+
+    for (const char of line.replace(/(['"])(?:\\.|(?!\1).)*\1/g, '')) {
+      if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+
+    if (buffer.endsWith('\\')) {
+      buffer = buffer.slice(0, -1);
+    } else if (depth === 0) {
+      lines.push({ text: buffer, indent });
+      buffer = '';
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Find the modules imported by a Python file.
+ *
+ * @param {string} content - The file content
+ * @returns {PythonImport[]} The imports, in source order
+ */
+export function extractPythonImports(content: string): PythonImport[] {
+  const imports: PythonImport[] = [];
+
+  for (const { text } of toLogicalLines(content)) {
+    const fromMatch = text.match(/^from\s+(\.*)([\w.]*)\s+import\s+\(?(.+?)\)?$/);
+    if (fromMatch) {
+      imports.push({
+        module: fromMatch[2],
+        level: fromMatch[1].length,
+        names: splitTopLevel(fromMatch[3]).map(name => name.split(/\s+as\s+/)[0].trim())
+      });
+      continue;
+    }
+
+    const importMatch = text.match(/^import\s+(.+)$/);
+    if (importMatch) {
+      for (const module of splitTopLevel(importMatch[1])) {
+        imports.push({ module: module.split(/\s+as\s+/)[0].trim(), level: 0, names: [] });
+      }
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Resolve a Python import to the files of the repository.
+ *
+ * Relative imports are resolved against the package of the importing file.
+ * Absolute imports are looked up from the repository root and from any
+ * directory containing the top-level package, such as `src/`. A package
+ * resolves to its `__init__.py`. For `from package import name`, a `name`
+ * that is a submodule resolves to the submodule.
+ *
+ * @param {string} fromPath - The path of the importing file
+ * @param {PythonImport} pythonImport - The import to resolve
+ * @param {Set<string>} filePaths - The paths of the files of the repository
+ * @returns {string[]} The paths of the imported files
+ */
+export function resolvePythonImport(fromPath: string, pythonImport: PythonImport, filePaths: Set<string>): string[] {
+  const moduleParts = pythonImport.module ? pythonImport.module.split('.') : [];
+  const basePaths: string[] = [];
+
+  if (pythonImport.level > 0) {
+    const packageParts = fromPath.split('/').slice(0, -1);
+    if (pythonImport.level - 1 > packageParts.length) {
+      return [];
+    }
+    basePaths.push([...packageParts.slice(0, packageParts.length - (pythonImport.level - 1)), ...moduleParts].join('/'));
+  } else {
+    const modulePath = moduleParts.join('/');
+    // Source roots: directories that contain the top-level package or module
+    const roots = new Set<string>(['']);
+    for (const filePath of filePaths) {
+      const index = `/${filePath}`.indexOf(`/${moduleParts[0]}/`);
+      const moduleIndex = `/${filePath}`.indexOf(`/${moduleParts[0]}.py`);
+      const position = index !== -1 ? index : moduleIndex;
+      if (position > 0) {
+        roots.add(filePath.substring(0, position - 1));
+      }
+    }
+    for (const root of roots) {
+      basePaths.push(root ? `${root}/${modulePath}` : modulePath);
+    }
+  }
+
+  const findModule = (modulePath: string): string | undefined => {
+    return [`${modulePath}.py`, `${modulePath ? `${modulePath}/` : ''}__init__.py`].find(candidate => filePaths.has(candidate));
+  };
+
+  const resolved = new Set<string>();
+  for (const basePath of basePaths) {
+    const module = findModule(basePath);
+    // Names imported from a package may be its submodules
+    const submodules = pythonImport.names
+      .map(name => findModule(basePath ? `${basePath}/${name}` : name))
+      .filter((submodule): submodule is string => !!submodule);
+
+    submodules.forEach(submodule => resolved.add(submodule));
+    if (module && submodules.length < pythonImport.names.length || module && pythonImport.names.length === 0) {
+      resolved.add(module);
+    }
+    if (resolved.size > 0) {
+      break;
+    }
+  }
+
+  return Array.from(resolved).filter(filePath => filePath !== fromPath);
+}
+
+/**
+ * Extract classes and their relationships from Python files.
+ *
+ * Methods and attributes are scoped to their class by indentation. Class
+ * attributes, dataclass fields, `self.` attributes assigned in `__init__`,
+ * type hints, and static, class and abstract methods are recorded. `ABC`,
+ * `Protocol` and `Enum` bases mark abstract classes, interfaces and
+ * enumerations. A field whose type is another extracted class creates a
+ * composition when the field is assigned a new instance and an association
+ * otherwise.
+ *
+ * @param {Array<{path: string, content: string, language: string}>} codeFiles - The code files to analyze
+ * @returns {{classes: ClassInfo[], relationships: ClassRelationship[]}} Classes and relationships
+ */
+export function extractPythonClasses(codeFiles: Array<{path: string, content: string, language: string}>): {
+  classes: ClassInfo[],
+  relationships: ClassRelationship[]
+} {
+  const classes: ClassInfo[] = [];
+  const relationships: ClassRelationship[] = [];
+  const fieldReferences: Array<{owner: string, path: string, name: string, hint?: string, createdType?: string}> = [];
+
+  for (const file of codeFiles) {
+    if (file.language !== 'python') {
+      continue;
+    }
+
+    const lines = toLogicalLines(file.content);
+    for (let i = 0; i < lines.length; i++) {
+      const classMatch = lines[i].text.match(/^class\s+(\w+)\s*(?:\((.*)\))?\s*:/);
+      if (!classMatch) {
+        continue;
+      }
+
+      const classIndent = lines[i].indent;
+      const decorators: string[] = [];
+      for (let j = i - 1; j >= 0 && lines[j].indent === classIndent && lines[j].text.startsWith('@'); j--) {
+        decorators.push(lines[j].text);
+      }
+
+      // The class body: the following lines that are indented deeper than the class
+      let end = i + 1;
+      while (end < lines.length && lines[end].indent > classIndent) {
+        end++;
+      }
+      const body = lines.slice(i + 1, end);
+      const memberIndent = body.length > 0 ? body[0].indent : classIndent + 4;
+
+      const cls = extractPythonClass(classMatch[1], file.path, classMatch[2] || '', decorators, body, memberIndent, relationships, fieldReferences);
+      if (!classes.some(existing => existing.name === cls.name && existing.path === cls.path)) {
+        classes.push(cls);
+      }
+    }
+  }
+
+  const classNames = new Set(classes.map(cls => cls.name));
+  for (const reference of fieldReferences) {
+    const names = (reference.hint || '').match(/[A-Za-z_][\w.]*/g) || [];
+    const isCollection = names.some(name => COLLECTION_TYPES.includes(name));
+    const targets = new Set([reference.createdType, ...names.map(name => name.split('.').pop())]);
+
+    for (const target of targets) {
+      if (!target || !classNames.has(target) || target === reference.owner) {
+        continue;
+      }
+      if (!relationships.some(rel => rel.from === reference.owner && rel.fromPath === reference.path && rel.to === target && rel.label === reference.name)) {
+        relationships.push({
+          from: reference.owner,
+          to: target,
+          type: reference.createdType === target ? '*--' : '-->',
+          label: reference.name,
+          cardinality: isCollection ? '*' : undefined,
+          fromPath: reference.path
+        });
+      }
+    }
+  }
+
+  return { classes, relationships: locateRelationships(classes, relationships) };
+}
+
+/**
+ * Extract one Python class from its header and body.
+ *
+ * @param {string} name - The class name
+ * @param {string} path - The file declaring the class
+ * @param {string} bases - The text between the parentheses of the class header
+ * @param {string[]} decorators - The decorators of the class
+ * @param {Array<{text: string, indent: number}>} body - The logical lines of the class body
+ * @param {number} memberIndent - The indentation of the class members
+ * @param {ClassRelationship[]} relationships - Collects inheritance relationships
+ * @param {Array<{owner: string, path: string, name: string, hint?: string, createdType?: string}>} fieldReferences - Collects fields for composition and association
+ * @returns {ClassInfo} The extracted class
+ */
+function extractPythonClass(
+  name: string,
+  path: string,
+  bases: string,
+  decorators: string[],
+  body: Array<{text: string, indent: number}>,
+  memberIndent: number,
+  relationships: ClassRelationship[],
+  fieldReferences: Array<{owner: string, path: string, name: string, hint?: string, createdType?: string}>
+): ClassInfo {
+  const cls: ClassInfo = { name, path, properties: [], methods: [] };
+
+  for (const base of splitTopLevel(bases)) {
+    // Keyword arguments such as `metaclass=ABCMeta`
+    if (/^\w+\s*=/.test(base)) {
+      if (/metaclass\s*=\s*(?:abc\.)?ABCMeta/.test(base)) {
+        cls.annotation = 'abstract';
+      }
+      continue;
+    }
+
+    const genericMatch = base.match(/^(?:typing\.)?Generic\[(.+)\]$/);
+    if (genericMatch) {
+      cls.typeParameters = splitTopLevel(genericMatch[1]);
+      continue;
+    }
+
+    const baseName = base.replace(/\[.*\]$/, '').split('.').pop() as string;
+    if (baseName in MARKER_BASES) {
+      cls.annotation = MARKER_BASES[baseName] || cls.annotation;
+      continue;
+    }
+    relationships.push({ from: name, to: baseName, type: '<|--', label: 'inherits', fromPath: path });
+  }
+
+  if (decorators.some(decorator => /^@(?:dataclasses\.)?dataclass\b/.test(decorator))) {
+    cls.annotation = cls.annotation || 'dataclass';
+  }
+
+  const addProperty = (propertyName: string, hint: string | undefined, value: string | undefined, isStatic: boolean) => {
+    if (cls.properties.some(prop => prop.name === propertyName)) {
+      return;
+    }
+    const createdMatch = value?.match(/^([A-Z]\w*)\(/);
+    const createdType = createdMatch ? createdMatch[1] : undefined;
+    // Without a type hint, the type of a literal value is used
+    const literalType = !value ? undefined
+      : /^-?\d+$/.test(value) ? 'int'
+      : /^-?\d*\.\d+$/.test(value) ? 'float'
+      : /^(?:True|False)$/.test(value) ? 'bool'
+      : /^[rbfu]?['"]/i.test(value) ? 'str'
+      : /^\[/.test(value) ? 'list'
+      : /^\{/.test(value) ? 'dict'
+      : undefined;
+    cls.properties.push({
+      name: propertyName,
+      type: cls.annotation === 'enumeration' ? '' : (formatTypeHint(hint) || createdType || literalType || 'Any'),
+      visibility: getVisibility(propertyName),
+      isStatic
+    });
+    fieldReferences.push({ owner: name, path, name: propertyName, hint, createdType });
+  };
+
+  let pendingDecorators: string[] = [];
+  for (let i = 0; i < body.length; i++) {
+    const line = body[i];
+    if (line.indent !== memberIndent) {
+      continue;
+    }
+
+    if (line.text.startsWith('@')) {
+      pendingDecorators.push(line.text);
+      continue;
+    }
+
+    const defMatch = line.text.match(/^(?:async\s+)?def\s+(\w+)\s*\((.*)\)\s*(?:->\s*(.+?))?\s*:/);
+    if (defMatch) {
+      const [, methodName, parameterText, returnHint] = defMatch;
+      const isProperty = pendingDecorators.some(decorator => /^@(?:\w+\.)?(?:property|cached_property)\b/.test(decorator));
+      const isStatic = pendingDecorators.some(decorator => /^@(?:staticmethod|classmethod)\b/.test(decorator));
+      const isAbstract = pendingDecorators.some(decorator => /^@(?:abc\.)?abstract\w*\b/.test(decorator));
+      pendingDecorators = [];
+
+      // Attributes assigned in the constructor: `self.repo: Repository = Repository()`
+      if (methodName === '__init__') {
+        for (let j = i + 1; j < body.length && body[j].indent > memberIndent; j++) {
+          const assignment = body[j].text.match(/^self\.(\w+)\s*(?::\s*([^=]+?))?\s*=\s*(.+)$/);
+          if (assignment) {
+            addProperty(assignment[1], assignment[2], assignment[3], false);
+          }
+        }
+      }
+
+      if (isProperty) {
+        addProperty(methodName, returnHint, undefined, false);
+        continue;
+      }
+      // Dunder methods are an implementation detail of the class
+      if (methodName.startsWith('__') && methodName.endsWith('__')) {
+        continue;
+      }
+
+      const parameters = splitTopLevel(parameterText)
+        .filter(parameter => !['/', '*'].includes(parameter))
+        .map(parameter => {
+          const [declaration] = parameter.split(/=(?![^[]*\])/);
+          const [parameterName, hint] = declaration.split(/:(.*)/s);
+          return { name: parameterName.trim().replace(/^\*+/, ''), type: formatTypeHint(hint) };
+        })
+        .filter((parameter, index) => !(index === 0 && !isStatic && parameter.name === 'self') &&
+          !(index === 0 && parameter.name === 'cls'));
+
+      cls.methods.push({
+        name: methodName,
+        visibility: getVisibility(methodName),
+        parameters,
+        returnType: formatTypeHint(returnHint),
+        isStatic,
+        isAbstract
+      });
+      continue;
+    }
+    pendingDecorators = [];
+
+    // Class attributes and dataclass fields: `name: Type = value`, `name = value`
+    const attributeMatch = line.text.match(/^([A-Za-z_]\w*)\s*(?::\s*([^=]+?))?\s*(?:=\s*(.+))?$/);
+    if (attributeMatch && (attributeMatch[2] || attributeMatch[3]) && !/^(?:pass|return|raise)$/.test(attributeMatch[1])) {
+      // Annotated names are instance fields, unless annotated as `ClassVar`
+      const isClassVariable = !attributeMatch[2] || /^(?:typing\.)?ClassVar\b/.test(attributeMatch[2]);
+      addProperty(attributeMatch[1], attributeMatch[2], attributeMatch[3], cls.annotation !== 'enumeration' && isClassVariable);
+    }
+  }
+
+  return cls;
+}
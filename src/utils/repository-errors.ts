@@ -0,0 +1,52 @@
+/**
+ * Repository Error Utilities
+ *
+ * This file contains the errors raised while fetching repository data, so
+ * callers can tell a missing repository, a missing token and an exhausted
+ * rate limit apart and react to each.
+ */
+
+/**
+ * Base class of the errors raised while fetching repository data.
+ */
+export class RepositoryError extends Error {
+  /**
+   * @param {string} code - Machine-readable error code, such as 'RepoNotFound'
+   * @param {string} message - Human-readable error message
+   */
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The repository, or the ref or path targeted in it, does not exist or is not visible.
+ */
+export class RepoNotFoundError extends RepositoryError {
+  constructor(message: string) {
+    super('RepoNotFound', message);
+  }
+}
+
+/**
+ * The request needs a token, or the configured token was rejected.
+ */
+export class AuthRequiredError extends RepositoryError {
+  constructor(message: string) {
+    super('AuthRequired', message);
+  }
+}
+
+/**
+ * The API rate limit is exhausted until `resetAt`.
+ */
+export class RateLimitedError extends RepositoryError {
+  /**
+   * @param {string} message - Human-readable error message
+   * @param {Date} resetAt - When requests are allowed again
+   */
+  constructor(message: string, public readonly resetAt: Date) {
+    super('RateLimited', `${message} The limit resets at ${resetAt.toISOString()}.`);
+  }
+}
@@ -0,0 +1,459 @@
+/**
+ * Repository File Utilities
+ *
+ * This file contains utility functions shared by the repository sources
+ * (GitHub, GitLab, Bitbucket and Gitea) for choosing which files of a
+ * repository tree to fetch, fetching them and shaping the repository data
+ * used for diagram generation.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { getLanguageAnalyzerForExtension } from './language-analyzers.js';
+import { AuthRequiredError, RateLimitedError, RepoNotFoundError, RepositoryError } from './repository-errors.js';
+
+/**
+ * Maximum number of entries of a repository tree listed by the providers that list trees page by page.
+ */
+export const MAX_TREE_ENTRIES = 10000;
+
+/**
+ * Options limiting how much of a repository is fetched for analysis.
+ */
+export interface FetchOptions {
+  // Maximum number of code files to fetch
+  maxFiles?: number;
+  // Maximum total size of the fetched code files, in bytes
+  maxBytes?: number;
+  // Maximum number of file contents fetched at the same time
+  concurrency?: number;
+  // Branch, tag or commit SHA to read, instead of the default branch
+  ref?: string;
+  // Directory or file to scope the analysis to, relative to the repository root
+  path?: string;
+  // Ref followed by a path, as in tree URLs, to split where the ref ends instead of using `ref` and `path`
+  refPath?: string;
+  // Base URL of the API, such as `https://github.example.com/api/v3` for GitHub Enterprise Server
+  apiBaseUrl?: string;
+}
+
+/**
+ * A repository, or a part of it, targeted by a repository URL.
+ */
+export interface RepositoryTarget {
+  // The owner of the repository, such as a user, organization, group or workspace
+  owner: string;
+  repo: string;
+  // Base URL of the API of the host serving the repository
+  apiBaseUrl: string;
+  ref?: string;
+  path?: string;
+  // Ref and path as they appear in the URL, if the ref may contain slashes and end further into the path
+  refPath?: string;
+}
+
+/**
+ * A file or directory in the tree of a repository.
+ */
+export interface TreeEntry {
+  path: string;
+  // 'blob' for files and 'tree' for directories
+  type: string;
+  // Identifier the provider fetches the file content by, such as the blob SHA
+  sha: string;
+  // Size in bytes, if the provider lists it
+  size?: number;
+}
+
+/**
+ * Determine the language of a code file based on its extension.
+ *
+ * Languages are recognized by the registered language analyzers.
+ *
+ * @param {string} fileExt - The file extension, including the leading dot
+ * @returns {string} The language name, or 'unknown' if the extension is not recognized
+ */
+export function getLanguageForExtension(fileExt: string): string {
+  return getLanguageAnalyzerForExtension(fileExt)?.language || 'unknown';
+}
+
+/**
+ * Determine whether a file describes how the repository is built or deployed.
+ *
+ * Dockerfiles, Docker Compose files and `package.json` manifests are read
+ * alongside the code files to infer the containers of the repository,
+ * `tsconfig.json` or `jsconfig.json` files to resolve import path aliases and
+ * `go.mod` files to resolve the imports of Go modules.
+ *
+ * @param {string} fileName - The file name, without its directory
+ * @returns {boolean} True if the file is a configuration file
+ */
+export function isConfigFile(fileName: string): boolean {
+  return /^(?:Dockerfile(?:\.[\w-]+)?|[\w.-]+\.dockerfile|(?:docker-)?compose(?:\.[\w-]+)?\.ya?ml|package\.json|[tj]sconfig(?:\.[\w-]+)?\.json|go\.mod)$/i.test(fileName);
+}
+
+/**
+ * Directories holding vendored, built or tooling files rather than the code of the repository.
+ */
+const SKIPPED_DIRECTORIES = /(?:^|\/)(?:node_modules|vendor|third_party|bower_components|dist|build|out|target|coverage|__pycache__|\.venv|venv|\.[^/]+)\//;
+
+/**
+ * Paths of tests, fixtures and examples.
+ */
+const TEST_PATHS = /(?:^|\/)(?:tests?|__tests__|__mocks__|spec|specs|testdata|fixtures|examples?|e2e)\/|[._-](?:test|spec)\.\w+$|_test\.go$|(?:^|\/)test_[^/]+\.py$/i;
+
+/**
+ * Paths of generated or minified files.
+ */
+const GENERATED_PATHS = /\.min\.js$|\.d\.ts$|\.pb\.go$|_pb2(?:_grpc)?\.py$|\.(?:generated|g|designer)\.\w+$|(?:^|\/)generated\//i;
+
+/**
+ * Directories that conventionally hold the source code of a repository.
+ */
+const SOURCE_ROOTS = /(?:^|\/)(?:src|lib|cmd|pkg|internal|app|source)\//;
+
+/**
+ * Get the language of a repository file from its path.
+ *
+ * @param {string} filePath - The path of the file
+ * @returns {string} The language name, or 'unknown' if the extension is not recognized
+ */
+function getLanguageForPath(filePath: string): string {
+  const fileName = filePath.substring(filePath.lastIndexOf('/') + 1);
+  return fileName.includes('.') ? getLanguageForExtension(fileName.substring(fileName.lastIndexOf('.'))) : 'unknown';
+}
+
+/**
+ * Choose the code files of a repository tree to analyze.
+ *
+ * Vendored, test and generated files are skipped. The remaining code files
+ * are ranked with files under source roots (`src/`, `lib/`, `cmd/`, ...)
+ * first and shallower files before deeper ones, and taken in that order
+ * until `maxFiles` files or `maxBytes` bytes are reached.
+ *
+ * @param {TreeEntry[]} entries - The files of the repository tree
+ * @param {number} maxFiles - Maximum number of files to choose
+ * @param {number} maxBytes - Maximum total size of the chosen files, in bytes
+ * @returns {TreeEntry[]} The chosen files, in rank order
+ */
+export function selectCodeFiles(entries: TreeEntry[], maxFiles: number, maxBytes: number): TreeEntry[] {
+  const candidates = entries.filter(entry =>
+    entry.type === 'blob'
+      && getLanguageForPath(entry.path) !== 'unknown'
+      && !SKIPPED_DIRECTORIES.test(entry.path)
+      && !TEST_PATHS.test(entry.path)
+      && !GENERATED_PATHS.test(entry.path)
+  );
+
+  const rank = (entry: TreeEntry) => [SOURCE_ROOTS.test(entry.path) ? 0 : 1, entry.path.split('/').length];
+  candidates.sort((a, b) => {
+    const [rootA, depthA] = rank(a);
+    const [rootB, depthB] = rank(b);
+    return rootA - rootB || depthA - depthB || a.path.localeCompare(b.path);
+  });
+
+  const selected: TreeEntry[] = [];
+  let totalBytes = 0;
+  for (const entry of candidates) {
+    if (selected.length >= maxFiles) {
+      break;
+    }
+
+    // Files that do not fit in the remaining budget are skipped, smaller ones may still fit
+    const size = entry.size || 0;
+    if (totalBytes + size > maxBytes) {
+      continue;
+    }
+
+    selected.push(entry);
+    totalBytes += size;
+  }
+
+  return selected;
+}
+
+/**
+ * Map items with an async function, running at most `limit` calls at the same time.
+ *
+ * @param {T[]} items - The items to map
+ * @param {number} limit - Maximum number of concurrent calls
+ * @param {Function} fn - The async function to apply to each item
+ * @returns {Promise<R[]>} The results, in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Determine whether a repository path is a given path or lies under it.
+ *
+ * @param {string} filePath - The path to check
+ * @param {string} scopePath - The directory or file path, or '' for the repository root
+ * @returns {boolean} True if the path is within the scope
+ */
+export function isWithinPath(filePath: string, scopePath: string): boolean {
+  return !scopePath || filePath === scopePath || filePath.startsWith(`${scopePath}/`);
+}
+
+/**
+ * Fetch the code and configuration files of a repository tree.
+ *
+ * The code files under `scopePath` are chosen with `selectCodeFiles` and
+ * fetched in parallel. For providers that do not list file sizes, the
+ * `maxBytes` budget is applied to the fetched contents instead. The
+ * configuration files under `scopePath` and in its parent directories are
+ * fetched too, since they apply to the targeted path as well.
+ *
+ * @param {TreeEntry[]} entries - The files of the whole repository tree
+ * @param {string} scopePath - The directory or file to analyze, or '' for the repository root
+ * @param {FetchOptions} options - Limits on the number and size of the fetched files
+ * @param {Function} fetchFile - Fetches the content of a file of the tree
+ * @returns {Promise<{codeFiles: Array<{path: string, content: string, language: string}>, configFiles: Array<{path: string, content: string}>}>} The fetched files
+ * @throws {RepositoryError} If the rate limit is exhausted or authentication is required
+ */
+export async function fetchTreeFiles(
+  entries: TreeEntry[],
+  scopePath: string,
+  options: FetchOptions,
+  fetchFile: (entry: TreeEntry) => Promise<string>
+): Promise<{codeFiles: Array<{path: string, content: string, language: string}>, configFiles: Array<{path: string, content: string}>}> {
+  const { maxFiles = 50, maxBytes = 1000000, concurrency = 5 } = options;
+
+  const fetchEntry = async (entry: TreeEntry): Promise<{path: string, content: string} | null> => {
+    try {
+      const content = await fetchFile(entry);
+      return { path: entry.path, content: typeof content === 'string' ? content : JSON.stringify(content) };
+    } catch (error) {
+      // Rate limits and authentication failures affect every file, so they abort the fetch
+      if (error instanceof RepositoryError) {
+        throw error;
+      }
+      console.error(`Error fetching file ${entry.path}:`, error);
+      return null;
+    }
+  };
+
+  const selectedFiles = selectCodeFiles(entries.filter(entry => isWithinPath(entry.path, scopePath)), maxFiles, maxBytes);
+  const codeFiles: Array<{path: string, content: string, language: string}> = [];
+  let totalBytes = 0;
+  for (const file of await mapWithConcurrency(selectedFiles, concurrency, fetchEntry)) {
+    if (!file || totalBytes + file.content.length > maxBytes) {
+      continue;
+    }
+    codeFiles.push({ ...file, language: getLanguageForPath(file.path) });
+    totalBytes += file.content.length;
+  }
+
+  const configEntries = entries.filter(entry =>
+    entry.type === 'blob'
+      && (isWithinPath(entry.path, scopePath) || isWithinPath(scopePath, entry.path.substring(0, Math.max(0, entry.path.lastIndexOf('/')))))
+      && isConfigFile(entry.path.substring(entry.path.lastIndexOf('/') + 1))
+      && !SKIPPED_DIRECTORIES.test(entry.path)
+      && !TEST_PATHS.test(entry.path)
+  );
+  const configFiles = (await mapWithConcurrency(configEntries, concurrency, fetchEntry))
+    .filter((file): file is {path: string, content: string} => file !== null);
+
+  return { codeFiles, configFiles };
+}
+
+/**
+ * List the files and directories directly inside a directory of a repository tree.
+ *
+ * The entries have the shape of the GitHub contents API, for providers
+ * without an equivalent request.
+ *
+ * @param {TreeEntry[]} entries - The files of the repository tree
+ * @param {string} scopePath - The directory to list, or '' for the repository root
+ * @returns {Array<{type: string, name: string, path: string}>} The files and directories of the directory
+ */
+export function listDirectoryContents(entries: TreeEntry[], scopePath: string): Array<{type: string, name: string, path: string}> {
+  const prefix = scopePath ? `${scopePath}/` : '';
+  const contents = new Map<string, {type: string, name: string, path: string}>();
+
+  for (const entry of entries) {
+    if (!entry.path.startsWith(prefix)) {
+      continue;
+    }
+
+    // Directories are also known from the files below them, for providers that only list files
+    const [name, ...rest] = entry.path.substring(prefix.length).split('/');
+    const type = rest.length > 0 || entry.type === 'tree' ? 'dir' : 'file';
+    if (name && !contents.has(name)) {
+      contents.set(name, { type, name, path: `${prefix}${name}` });
+    }
+  }
+
+  return Array.from(contents.values());
+}
+
+/**
+ * Count the bytes of code per language in a repository tree.
+ *
+ * This is used for providers that do not report the languages of a repository.
+ *
+ * @param {TreeEntry[]} entries - The files of the repository tree
+ * @returns {Record<string, number>} The number of bytes per language display name
+ */
+export function countLanguageBytes(entries: TreeEntry[]): Record<string, number> {
+  const languages: Record<string, number> = {};
+
+  for (const entry of entries) {
+    if (entry.type !== 'blob' || SKIPPED_DIRECTORIES.test(entry.path)) {
+      continue;
+    }
+
+    const fileName = entry.path.substring(entry.path.lastIndexOf('/') + 1);
+    const analyzer = fileName.includes('.') ? getLanguageAnalyzerForExtension(fileName.substring(fileName.lastIndexOf('.'))) : undefined;
+    if (analyzer) {
+      const language = analyzer.displayName || analyzer.language;
+      languages[language] = (languages[language] || 0) + (entry.size || 0);
+    }
+  }
+
+  return languages;
+}
+
+/**
+ * Determine whether a URL is served by one of the trusted API hosts.
+ *
+ * URLs are compared by origin, so the protocol and port have to match too.
+ *
+ * @param {string} url - The URL of a request
+ * @param {string[]} trustedBaseUrls - The API base URLs credentials were configured for
+ * @returns {boolean} True if the URL has the origin of a trusted base URL
+ */
+export function isTrustedUrl(url: string, trustedBaseUrls: string[]): boolean {
+  const origin = getOrigin(url);
+  return origin !== undefined && trustedBaseUrls.some(baseUrl => getOrigin(baseUrl) === origin);
+}
+
+/**
+ * Choose the API base URL of a repository.
+ *
+ * The configured API base URL belongs to one instance, so it is only used for
+ * repositories on the host of that instance. Repositories on other hosts use
+ * the API base URL derived from their URL.
+ *
+ * @param {string|undefined} derivedBaseUrl - The API base URL derived from the repository URL
+ * @param {string|undefined} configuredBaseUrl - The configured API base URL of a self-hosted instance
+ * @returns {string|undefined} The API base URL to fetch the repository from
+ */
+export function selectApiBaseUrl(derivedBaseUrl?: string, configuredBaseUrl?: string): string | undefined {
+  if (!derivedBaseUrl || !configuredBaseUrl) {
+    return derivedBaseUrl || configuredBaseUrl;
+  }
+  const host = getHost(derivedBaseUrl);
+  return host !== undefined && getHost(configuredBaseUrl) === host ? configuredBaseUrl : derivedBaseUrl;
+}
+
+/**
+ * Send the credentials of an API client only to the hosts they were configured for.
+ *
+ * Repository URLs name arbitrary hosts, so the credential headers are added
+ * to a request only if it goes to a trusted API host, and removed again if
+ * the request is redirected elsewhere.
+ *
+ * @param {AxiosInstance} client - The API client
+ * @param {Record<string, string>} credentials - The headers carrying the credentials
+ * @param {string[]} trustedBaseUrls - The API base URLs the credentials were configured for
+ * @returns {AxiosInstance} The client
+ */
+export function restrictCredentials(client: AxiosInstance, credentials: Record<string, string>, trustedBaseUrls: string[]): AxiosInstance {
+  const names = Object.keys(credentials).map(name => name.toLowerCase());
+
+  client.interceptors.request.use(config => {
+    if (isTrustedUrl(client.getUri(config), trustedBaseUrls)) {
+      for (const [name, value] of Object.entries(credentials)) {
+        config.headers.set(name, value);
+      }
+    }
+    config.beforeRedirect = (options: Record<string, any>) => {
+      if (!isTrustedUrl(options.href, trustedBaseUrls)) {
+        for (const name of Object.keys(options.headers || {})) {
+          if (names.includes(name.toLowerCase())) {
+            delete options.headers[name];
+          }
+        }
+      }
+    };
+    return config;
+  });
+
+  return client;
+}
+
+/**
+ * Get the origin of a URL.
+ *
+ * @param {string} url - The URL
+ * @returns {string|undefined} The protocol, host and port of the URL, or undefined if it is not a URL
+ */
+function getOrigin(url: string): string | undefined {
+  try {
+    return new URL(url).origin.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the host name of a URL.
+ *
+ * @param {string} url - The URL
+ * @returns {string|undefined} The host name of the URL, or undefined if it is not a URL
+ */
+function getHost(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert an error of a repository API request to the error reported to callers.
+ *
+ * @param {unknown} error - The error of the request
+ * @param {string} provider - The display name of the provider, such as 'GitLab'
+ * @param {string} notFoundMessage - The message to report if the requested resource does not exist
+ * @returns {Error} A `RepositoryError`, or a generic error for unexpected failures
+ */
+export function toRepositoryError(error: unknown, provider: string, notFoundMessage: string): Error {
+  if (error instanceof RepositoryError) {
+    return error;
+  }
+
+  const response = axios.isAxiosError(error) ? error.response : undefined;
+  const status = response?.status;
+
+  // GitHub answers 422 to tree requests for refs that do not exist
+  if (status === 404 || status === 422) {
+    return new RepoNotFoundError(notFoundMessage);
+  }
+
+  if (status === 401 || status === 403) {
+    return new AuthRequiredError(`${provider} refused the request. Check that a token with access to the repository is configured.`);
+  }
+
+  if (status === 429) {
+    // GitLab reports the reset time as a timestamp, others the seconds to wait
+    const reset = Number(response.headers['ratelimit-reset'] || response.headers['x-ratelimit-reset']);
+    const retryAfter = Number(response.headers['retry-after']) || 60;
+    const resetAt = reset ? new Date(reset * 1000) : new Date(Date.now() + retryAfter * 1000);
+    return new RateLimitedError(`The ${provider} API rate limit is exhausted.`, resetAt);
+  }
+
+  console.error('Error fetching repository data:', error);
+  return new Error(`Failed to fetch repository data from ${provider} API: ${error instanceof Error ? error.message : String(error)}`);
+}
@@ -0,0 +1,130 @@
+/**
+ * Repository Source Utilities
+ *
+ * This file contains the repository sources, which fetch repository data
+ * from a hosting provider (GitHub, GitLab, Bitbucket or Gitea) in the shape
+ * consumed by `generateDiagramFromGithub`, and picks the source of a
+ * repository URL.
+ */
+
+import { AxiosInstance } from 'axios';
+import { createGitHubApiClient, fetchRepositoryData, parseGitHubUrl } from './github-api.js';
+import { createGitLabApiClient, fetchGitLabRepositoryData, parseGitLabUrl } from './gitlab-api.js';
+import { createBitbucketApiClient, fetchBitbucketRepositoryData, parseBitbucketUrl } from './bitbucket-api.js';
+import { createGiteaApiClient, fetchGiteaRepositoryData, parseGiteaUrl } from './gitea-api.js';
+import { FetchOptions, RepositoryTarget } from './repository-files.js';
+
+/**
+ * A hosting provider repositories can be fetched from.
+ */
+export interface RepositorySource {
+  // Identifier of the provider, such as 'gitlab'
+  provider: string;
+  displayName: string;
+
+  /**
+   * Determine whether a host is known to be served by this provider.
+   *
+   * @param {string} host - The host name of a repository URL
+   * @returns {boolean} True if the host belongs to this provider
+   */
+  matchesHost(host: string): boolean;
+
+  /**
+   * Parse a repository URL of this provider.
+   *
+   * @param {string} url - The repository URL
+   * @returns {RepositoryTarget} The targeted repository, ref and path
+   */
+  parseUrl(url: string): RepositoryTarget;
+
+  /**
+   * Create an axios instance configured for the API of this provider.
+   *
+   * The token is only sent to the API of the provider the token belongs to.
+   *
+   * @param {string|undefined} token - Access token for authenticated requests
+   * @param {string|undefined} apiBaseUrl - Configured base URL of the API of a self-hosted instance
+   * @returns {AxiosInstance} Configured axios instance
+   */
+  createClient(token?: string, apiBaseUrl?: string): AxiosInstance;
+
+  /**
+   * Fetch the repository data used for diagram generation.
+   *
+   * @param {AxiosInstance} apiClient - Axios instance created with `createClient`
+   * @param {string} owner - The repository owner
+   * @param {string} repo - The repository name
+   * @param {FetchOptions} options - The API base URL, ref, path and limits of the fetch
+   * @returns {Promise<any>} A promise that resolves to the repository data
+   */
+  fetchRepositoryData(apiClient: AxiosInstance, owner: string, repo: string, options: FetchOptions): Promise<any>;
+}
+
+/**
+ * Repository sources by provider.
+ */
+export const REPOSITORY_SOURCES: Record<string, RepositorySource> = {
+  github: {
+    provider: 'github',
+    displayName: 'GitHub',
+    matchesHost: host => /^(?:www\.)?github\.com$|^github\./i.test(host),
+    parseUrl: parseGitHubUrl,
+    createClient: createGitHubApiClient,
+    fetchRepositoryData
+  },
+  gitlab: {
+    provider: 'gitlab',
+    displayName: 'GitLab',
+    matchesHost: host => /^gitlab\.com$|^gitlab\./i.test(host),
+    parseUrl: parseGitLabUrl,
+    createClient: createGitLabApiClient,
+    fetchRepositoryData: fetchGitLabRepositoryData
+  },
+  bitbucket: {
+    provider: 'bitbucket',
+    displayName: 'Bitbucket',
+    matchesHost: host => /^bitbucket\.org$/i.test(host),
+    parseUrl: parseBitbucketUrl,
+    createClient: createBitbucketApiClient,
+    fetchRepositoryData: fetchBitbucketRepositoryData
+  },
+  gitea: {
+    provider: 'gitea',
+    displayName: 'Gitea',
+    matchesHost: host => /^(?:codeberg\.org|gitea\.com)$|^(?:gitea|forgejo)\./i.test(host),
+    parseUrl: parseGiteaUrl,
+    createClient: createGiteaApiClient,
+    fetchRepositoryData: fetchGiteaRepositoryData
+  }
+};
+
+/**
+ * Get the repository source of a repository URL.
+ *
+ * The provider is recognized from the host of the URL. Self-hosted instances
+ * whose host name does not tell the provider need it to be given explicitly.
+ *
+ * @param {string} url - The repository URL
+ * @param {string} provider - The provider, if known, such as 'gitlab'
+ * @returns {RepositorySource} The repository source
+ * @throws {Error} If the provider is unknown or cannot be recognized from the URL
+ */
+export function getRepositorySource(url: string, provider?: string): RepositorySource {
+  const providers = Object.keys(REPOSITORY_SOURCES).join(', ');
+
+  if (provider) {
+    const source = REPOSITORY_SOURCES[provider.toLowerCase()];
+    if (!source) {
+      throw new Error(`Unknown repository provider: ${provider}. Supported providers: ${providers}`);
+    }
+    return source;
+  }
+
+  const host = url.trim().match(/^(?:https?:\/\/)?(?:[\w.-]+@)?([^\/:@\s]+)/)?.[1] || '';
+  const source = Object.values(REPOSITORY_SOURCES).find(candidate => candidate.matchesHost(host));
+  if (!source) {
+    throw new Error(`Cannot tell the provider of ${host || url}. Pass the provider explicitly (${providers})`);
+  }
+  return source;
+}
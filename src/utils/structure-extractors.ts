@@ -0,0 +1,945 @@
+/**
+ * Structure Extractor Utilities
+ *
+ * This file contains per-language extractors for Go, Java, C#, Ruby and PHP
+ * code, which find the imports and the types (structs, interfaces, classes,
+ * traits, modules and enums) of a file for class and dependency diagrams.
+ * These languages have no parser available here, so declarations are found
+ * with patterns and scoped by their braces or `end` keywords.
+ */
+
+import { ClassInfo, ClassRelationship, locateRelationships } from './typescript-analyzer.js';
+
+/**
+ * A field whose type may refer to another extracted type.
+ */
+interface FieldReference {
+  owner: string;
+  // The file declaring the field
+  path?: string;
+  name: string;
+  type: string;
+  createdType?: string;
+}
+
+/**
+ * The types found in one file.
+ */
+interface FileStructure {
+  classes: ClassInfo[];
+  relationships: ClassRelationship[];
+  fields: FieldReference[];
+}
+
+/**
+ * Extracts the structure of the files of one language.
+ *
+ * `extractDependencies` receives all code files, because imports of
+ * packages and namespaces resolve to the files that declare them, and the
+ * configuration files, such as the `go.mod` files naming Go modules.
+ */
+export interface StructureExtractor {
+  extractDependencies(
+    file: {path: string, content: string, language: string},
+    codeFiles: Array<{path: string, content: string, language: string}>,
+    configFiles?: Array<{path: string, content: string}>
+  ): string[];
+  extractTypes(file: {path: string, content: string, language: string}): FileStructure;
+}
+
+// Generic types whose arguments are the element types of a collection
+const COLLECTION_TYPES = /^(?:List|ArrayList|LinkedList|Set|HashSet|TreeSet|Collection|Iterable|IEnumerable|ICollection|IList|IReadOnlyList|Map|HashMap|Dictionary|IDictionary|Array|array|Vec|Seq)$/;
+
+/**
+ * Blank out comments and the contents of string literals, keeping offsets.
+ *
+ * @param {string} content - The source code
+ * @param {boolean} hashComments - Whether `#` starts a line comment, as in Ruby and PHP
+ * @returns {string} The code with comments and string contents replaced by spaces
+ */
+function maskCommentsAndStrings(content: string, hashComments: boolean = false): string {
+  const pattern = hashComments
+    ? /\/\*[\s\S]*?\*\/|\/\/[^\n]*|#(?!\[)[^\n]*|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`[^`]*`/g
+    : /\/\*[\s\S]*?\*\/|\/\/[^\n]*|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\\n])*'|`[^`]*`/g;
+  return content.replace(pattern, match => {
+    const blank = match.replace(/[^\n]/g, ' ');
+    // Keep the quotes of strings, so imports can still be found by position
+    return /^["'`]/.test(match) ? `${match[0]}${blank.substring(2)}${match[match.length - 1]}` : blank;
+  });
+}
+
+/**
+ * Find the index of the brace that closes the block opened at `openIndex`.
+ *
+ * @param {string} code - Code with comments and strings masked
+ * @param {number} openIndex - The index of the opening brace
+ * @returns {number} The index of the closing brace, or the end of the code
+ */
+function findClosingBrace(code: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < code.length; i++) {
+    if (code[i] === '{') {
+      depth++;
+    } else if (code[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return code.length;
+}
+
+/**
+ * Split the body of a brace-delimited type into its member declarations.
+ *
+ * Each member is the text before a `;` or before a nested `{ ... }` block at
+ * the top level of the body, so a method header is returned without its body.
+ *
+ * @param {string} body - The masked code between the braces of the type
+ * @returns {Array<{header: string, hasBlock: boolean}>} The member declarations
+ */
+function splitMembers(body: string): Array<{header: string, hasBlock: boolean}> {
+  const members: Array<{header: string, hasBlock: boolean}> = [];
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '{') {
+      members.push({ header: current.trim(), hasBlock: true });
+      i = findClosingBrace(body, i);
+      current = '';
+    } else if (char === ';') {
+      members.push({ header: current.trim(), hasBlock: false });
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) {
+    members.push({ header: current.trim(), hasBlock: false });
+  }
+  return members.filter(member => member.header);
+}
+
+/**
+ * Split a comma-separated list, ignoring commas inside brackets.
+ *
+ * @param {string} text - The list, such as parameters or base types
+ * @returns {string[]} The trimmed, non-empty items
+ */
+function splitTopLevel(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if ('(<[{'.includes(char)) {
+      depth++;
+    } else if (')>]}'.includes(char)) {
+      depth--;
+    }
+    if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current.trim());
+  return items.filter(Boolean);
+}
+
+/**
+ * Convert a type to a type that Mermaid can display.
+ *
+ * @param {string | undefined} type - The type, such as `List<Order>`
+ * @returns {string | undefined} The display type, such as `List~Order~`
+ */
+function formatType(type: string | undefined): string | undefined {
+  if (!type) {
+    return undefined;
+  }
+  return type.trim().replace(/\s+/g, ' ').replace(/[<>]/g, '~').replace(/[{}]/g, '');
+}
+
+/**
+ * Get the simple name of a possibly qualified or generic type.
+ *
+ * @param {string} type - The type, such as `com.acme.Base<T>` or `\App\Base`
+ * @returns {string} The simple name, such as `Base`
+ */
+function simpleName(type: string): string {
+  return type.replace(/<.*$/s, '').replace(/\[.*$/s, '').split(/[.\\:]+/).filter(Boolean).pop() || type;
+}
+
+/**
+ * Get the Mermaid visibility marker from access modifiers.
+ *
+ * @param {string} modifiers - The declaration text containing the modifiers
+ * @param {string} defaultVisibility - The marker when no modifier is present
+ * @returns {string} '-' for private, '#' for protected, '~' for internal, '+' for public
+ */
+function visibilityOf(modifiers: string, defaultVisibility: string = '+'): string {
+  if (/\bprivate\b/.test(modifiers)) {
+    return '-';
+  }
+  if (/\bprotected\b/.test(modifiers)) {
+    return '#';
+  }
+  if (/\binternal\b/.test(modifiers)) {
+    return '~';
+  }
+  if (/\bpublic\b/.test(modifiers)) {
+    return '+';
+  }
+  return defaultVisibility;
+}
+
+/**
+ * Find the files in a directory, without its subdirectories.
+ *
+ * @param {Array<{path: string, language: string}>} codeFiles - The code files
+ * @param {string} dir - The directory
+ * @param {string} language - The language of the files
+ * @returns {string[]} The paths of the files
+ */
+function filesInDirectory(codeFiles: Array<{path: string, language: string}>, dir: string, language: string): string[] {
+  return codeFiles
+    .filter(file => file.language === language)
+    .filter(file => (file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '') === dir)
+    .map(file => file.path);
+}
+
+/**
+ * Extract the members of brace-delimited class-like types (Java, C# and PHP).
+ *
+ * @param {string} code - The masked code of the file
+ * @param {RegExp} typeRegex - Matches a type header; groups are modifiers, kind, name, type parameters and the rest of the header
+ * @param {(cls: ClassInfo, kind: string, modifiers: string, heritage: string) => void} onType - Records the kind and supertypes of a type
+ * @param {(cls: ClassInfo, member: {header: string, hasBlock: boolean}) => void} onMember - Records one member of a type
+ * @returns {ClassInfo[]} The extracted types
+ */
+function extractBraceTypes(
+  code: string,
+  typeRegex: RegExp,
+  onType: (cls: ClassInfo, kind: string, modifiers: string, heritage: string) => void,
+  onMember: (cls: ClassInfo, member: {header: string, hasBlock: boolean}) => void
+): ClassInfo[] {
+  const classes: ClassInfo[] = [];
+  let match;
+  while ((match = typeRegex.exec(code)) !== null) {
+    const [header, modifiers, kind, name, typeParameters, heritage] = match;
+    const openIndex = match.index + header.length - 1;
+    const closeIndex = findClosingBrace(code, openIndex);
+
+    const cls: ClassInfo = {
+      name,
+      typeParameters: typeParameters ? splitTopLevel(typeParameters.slice(1, -1)).map(parameter => parameter.split(/\s/)[0]) : undefined,
+      properties: [],
+      methods: []
+    };
+    onType(cls, kind, modifiers || '', heritage || '');
+    for (const member of splitMembers(code.substring(openIndex + 1, closeIndex))) {
+      // Nested types are extracted on their own
+      if (!/\b(?:class|interface|enum|struct|record|trait)\s+\w+/.test(member.header)) {
+        onMember(cls, member);
+      }
+    }
+    classes.push(cls);
+  }
+  return classes;
+}
+
+/**
+ * Go: packages are directories, struct embedding is drawn as inheritance and
+ * a struct implements an interface when it has all of its methods.
+ */
+const goExtractor: StructureExtractor = {
+  extractDependencies(file, codeFiles, configFiles = []) {
+    const dependencies: string[] = [];
+    const importBlock = file.content.match(/^import\s*\(([\s\S]*?)\)/m);
+    const importPaths = [
+      ...Array.from(file.content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)).map(match => match[1]),
+      ...(importBlock ? Array.from(importBlock[1].matchAll(/"([^"]+)"/g)).map(match => match[1]) : [])
+    ];
+
+    // A go.mod file names the module of its directory, whose packages are imported by the module path
+    const modules = configFiles
+      .filter(config => /(?:^|\/)go\.mod$/.test(config.path))
+      .map(config => ({
+        root: config.path.includes('/') ? config.path.substring(0, config.path.lastIndexOf('/')) : '',
+        path: config.content.match(/^\s*module\s+"?([^\s"]+)"?/m)?.[1]
+      }))
+      .filter((module): module is {root: string, path: string} => !!module.path);
+
+    const dirs = new Set(codeFiles.filter(f => f.language === 'go').map(f => f.path.includes('/') ? f.path.substring(0, f.path.lastIndexOf('/')) : ''));
+    for (const importPath of importPaths) {
+      let dir: string | undefined;
+      if (modules.length > 0) {
+        const module = modules
+          .filter(candidate => importPath === candidate.path || importPath.startsWith(`${candidate.path}/`))
+          .sort((a, b) => b.path.length - a.path.length)[0];
+        if (module) {
+          dir = [module.root, importPath.substring(module.path.length + 1)].filter(Boolean).join('/');
+        }
+      } else {
+        // Without a go.mod, an import path ends with the directory of the package within the repository
+        dir = Array.from(dirs)
+          .filter(candidate => candidate && (importPath === candidate || importPath.endsWith(`/${candidate}`)))
+          .sort((a, b) => b.length - a.length)[0];
+      }
+      if (dir !== undefined) {
+        dependencies.push(...filesInDirectory(codeFiles, dir, 'go').filter(path => !path.endsWith('_test.go')));
+      }
+    }
+    return dependencies;
+  },
+
+  extractTypes(file) {
+    const code = maskCommentsAndStrings(file.content);
+    const structure: FileStructure = { classes: [], relationships: [], fields: [] };
+    const visibility = (name: string) => /^[A-Z]/.test(name) ? '+' : '-';
+
+    const typeRegex = /\btype\s+(\w+)(\[[^\]]*\])?\s+(struct|interface)\s*\{/g;
+    let match;
+    while ((match = typeRegex.exec(code)) !== null) {
+      const [header, name, typeParameters, kind] = match;
+      const openIndex = match.index + header.length - 1;
+      const body = code.substring(openIndex + 1, findClosingBrace(code, openIndex));
+      const cls: ClassInfo = {
+        name,
+        typeParameters: typeParameters ? splitTopLevel(typeParameters.slice(1, -1)).map(parameter => parameter.split(/\s/)[0]) : undefined,
+        annotation: kind === 'interface' ? 'interface' : 'struct',
+        properties: [],
+        methods: []
+      };
+
+      for (const line of body.split(/[\n;]/).map(l => l.trim()).filter(Boolean)) {
+        const methodMatch = line.match(/^(\w+)\s*\(([^)]*)\)\s*(.*)$/);
+        if (kind === 'interface' && methodMatch) {
+          cls.methods.push({
+            name: methodMatch[1],
+            visibility: visibility(methodMatch[1]),
+            parameters: splitTopLevel(methodMatch[2]).map(parameter => {
+              const [parameterName, type] = parameter.split(/\s+/);
+              return { name: type ? parameterName : '', type: formatType(type || parameterName) };
+            }),
+            returnType: formatType(methodMatch[3].replace(/^\((.*)\)$/, '$1')) || undefined
+          });
+          continue;
+        }
+
+        const fieldMatch = line.match(/^([\w, ]+?)\s+([*[\]\w.{}]+(?:\[[^\]]*\])?)\s*(?:"[^"]*"|`[^`]*`)?$/);
+        if (fieldMatch && !line.includes('(')) {
+          for (const fieldName of fieldMatch[1].split(',').map(n => n.trim())) {
+            cls.properties.push({ name: fieldName, type: formatType(fieldMatch[2]) as string, visibility: visibility(fieldName) });
+            structure.fields.push({ owner: name, name: fieldName, type: fieldMatch[2] });
+          }
+        } else if (/^\*?[\w.]+$/.test(line)) {
+          // Embedded types
+          structure.relationships.push({ from: name, to: simpleName(line.replace(/^\*/, '')), type: '<|--', label: 'embeds' });
+        }
+      }
+      structure.classes.push(cls);
+    }
+
+    // Methods are declared outside the struct, with a receiver
+    const methodRegex = /^func\s+\(\s*\w*\s*\*?(\w+)(?:\[[^\]]*\])?\s*\)\s*(\w+)\s*\(([^)]*)\)\s*([^{\n]*)\{/gm;
+    while ((match = methodRegex.exec(code)) !== null) {
+      const [, receiver, methodName, parameterText, returnText] = match;
+      const cls = structure.classes.find(c => c.name === receiver);
+      if (!cls) {
+        continue;
+      }
+      // Go groups parameters of the same type: `a, b int`
+      const parameters: Array<{name: string, type?: string}> = [];
+      let pendingNames: string[] = [];
+      for (const parameter of splitTopLevel(parameterText)) {
+        const [parameterName, ...typeParts] = parameter.split(/\s+/);
+        pendingNames.push(parameterName);
+        if (typeParts.length > 0) {
+          parameters.push(...pendingNames.map(n => ({ name: n, type: formatType(typeParts.join(' ')) })));
+          pendingNames = [];
+        }
+      }
+      parameters.push(...pendingNames.map(n => ({ name: '', type: n })));
+
+      cls.methods.push({
+        name: methodName,
+        visibility: visibility(methodName),
+        parameters,
+        returnType: formatType(returnText.trim().replace(/^\((.*)\)$/, '$1')) || undefined
+      });
+    }
+
+    return structure;
+  }
+};
+
+/**
+ * Java: imports name classes by their package, which the package
+ * declarations of the source files map to their directories, whatever the
+ * source root is.
+ */
+const javaExtractor: StructureExtractor = {
+  extractDependencies(file, codeFiles) {
+    const dependencies: string[] = [];
+    const packages = new Map<string, string[]>();
+    for (const javaFile of codeFiles.filter(f => f.language === 'java')) {
+      const packageName = maskCommentsAndStrings(javaFile.content).match(/^\s*package\s+([\w.]+)\s*;/m)?.[1] || '';
+      packages.set(packageName, [...(packages.get(packageName) || []), javaFile.path]);
+    }
+
+    for (const match of file.content.matchAll(/^\s*import\s+(?:static\s+)?([\w.]+(?:\.\*)?)\s*;/gm)) {
+      const qualifiedName = match[1];
+      if (qualifiedName.endsWith('.*')) {
+        dependencies.push(...(packages.get(qualifiedName.slice(0, -2)) || []));
+        continue;
+      }
+      // Nested classes and static imports name members of the class; the package is the longest matching prefix
+      const parts = qualifiedName.split('.');
+      for (let length = parts.length - 1; length > 0; length--) {
+        const fileName = `${parts[length]}.java`;
+        const target = (packages.get(parts.slice(0, length).join('.')) || [])
+          .find(path => path === fileName || path.endsWith(`/${fileName}`));
+        if (target) {
+          dependencies.push(target);
+          break;
+        }
+      }
+    }
+    return dependencies;
+  },
+
+  extractTypes(file) {
+    const code = maskCommentsAndStrings(file.content).replace(/@\w+(?:\.\w+)*(?:\s*\([^)]*\))?/g, match => ' '.repeat(match.length));
+    const structure: FileStructure = { classes: [], relationships: [], fields: [] };
+
+    structure.classes = extractBraceTypes(
+      code,
+      /((?:\b(?:public|protected|private|abstract|static|final|sealed|non-sealed|strictfp)\s+)*)\b(class|interface|enum|record)\s+(\w+)\s*(<[^{]*?>)?((?:\s*\([^)]*\))?[^{;]*)\{/g,
+      (cls, kind, modifiers, heritage) => {
+        cls.annotation = kind === 'interface' ? 'interface' : kind === 'enum' ? 'enumeration' : kind === 'record' ? 'record'
+          : /\babstract\b/.test(modifiers) ? 'abstract' : undefined;
+        const extendsMatch = heritage.match(/\bextends\s+([^{]+?)(?:\bimplements\b|$)/);
+        const implementsMatch = heritage.match(/\bimplements\s+([^{]+)$/);
+        for (const base of extendsMatch ? splitTopLevel(extendsMatch[1]) : []) {
+          structure.relationships.push({ from: cls.name, to: simpleName(base), type: '<|--', label: 'extends' });
+        }
+        for (const base of implementsMatch ? splitTopLevel(implementsMatch[1]) : []) {
+          structure.relationships.push({ from: cls.name, to: simpleName(base), type: '<|..', label: 'implements' });
+        }
+        // Record components are its fields
+        const components = heritage.match(/^\s*\(([^)]*)\)/);
+        for (const component of components ? splitTopLevel(components[1]) : []) {
+          const [, type, name] = component.match(/^(.+?)\s+(\w+)$/) || [];
+          if (name) {
+            cls.properties.push({ name, type: formatType(type) as string, visibility: '-' });
+            structure.fields.push({ owner: cls.name, name, type });
+          }
+        }
+      },
+      (cls, member) => {
+        const defaultVisibility = cls.annotation === 'interface' ? '+' : '~';
+        if (cls.annotation === 'enumeration' && !cls.properties.length && !cls.methods.length && !/[(=]/.test(member.header.replace(/\([^)]*\)/g, ''))) {
+          // Enum constants come first, separated by commas
+          for (const constant of splitTopLevel(member.header)) {
+            cls.properties.push({ name: constant.replace(/\(.*$/s, '').trim(), type: '' });
+          }
+          return;
+        }
+
+        const methodMatch = member.header.match(/^((?:\b(?:public|protected|private|abstract|static|final|synchronized|native|default)\s+)*)(?:<[^>]+>\s+)?([\w.<>[\],?\s]+?)\s+(\w+)\s*\(([^)]*)\)/);
+        // Constructors have no return type and are left out
+        if (methodMatch && methodMatch[3] !== cls.name && !new RegExp(`^(?:\\w+\\s+)*${cls.name}\\s*\\(`).test(member.header)) {
+          const [, modifiers, returnType, name, parameterText] = methodMatch;
+          cls.methods.push({
+            name,
+            visibility: visibilityOf(modifiers, defaultVisibility),
+            parameters: splitTopLevel(parameterText).map(parameter => {
+              const [, type, parameterName] = parameter.replace(/\bfinal\s+/, '').match(/^(.+?)\s+(\w+)$/) || [];
+              return { name: parameterName || parameter, type: formatType(type) };
+            }),
+            returnType: returnType === 'void' ? undefined : formatType(returnType),
+            isStatic: /\bstatic\b/.test(modifiers),
+            isAbstract: /\babstract\b/.test(modifiers)
+          });
+          return;
+        }
+
+        const fieldMatch = !member.hasBlock && member.header.match(/^((?:\b(?:public|protected|private|static|final|transient|volatile)\s+)*)([\w.<>[\],?\s]+?)\s+(\w+)\s*(?:=\s*([\s\S]*))?$/);
+        if (fieldMatch) {
+          const [, modifiers, type, name, initializer] = fieldMatch;
+          const createdMatch = initializer?.match(/^\s*new\s+([\w.]+)/);
+          cls.properties.push({
+            name,
+            type: formatType(type) as string,
+            visibility: visibilityOf(modifiers, defaultVisibility),
+            isStatic: /\bstatic\b/.test(modifiers)
+          });
+          structure.fields.push({ owner: cls.name, name, type, createdType: createdMatch ? simpleName(createdMatch[1]) : undefined });
+        }
+      }
+    );
+
+    return structure;
+  }
+};
+
+/**
+ * C#: `using` directives import namespaces, which resolve to the files that
+ * declare them. Base types named like `IFoo` are treated as interfaces.
+ */
+const csharpExtractor: StructureExtractor = {
+  extractDependencies(file, codeFiles) {
+    const namespaces = new Map<string, string[]>();
+    for (const other of codeFiles.filter(f => f.language === 'csharp')) {
+      for (const match of other.content.matchAll(/^\s*namespace\s+([\w.]+)/gm)) {
+        namespaces.set(match[1], [...(namespaces.get(match[1]) || []), other.path]);
+      }
+    }
+
+    const dependencies: string[] = [];
+    for (const match of file.content.matchAll(/^\s*(?:global\s+)?using\s+(?:static\s+)?(?:\w+\s*=\s*)?([\w.]+)\s*;/gm)) {
+      dependencies.push(...(namespaces.get(match[1]) || []));
+    }
+    return dependencies;
+  },
+
+  extractTypes(file) {
+    const code = maskCommentsAndStrings(file.content).replace(/^\s*\[[^\]\n]*\]/gm, match => ' '.repeat(match.length));
+    const structure: FileStructure = { classes: [], relationships: [], fields: [] };
+
+    structure.classes = extractBraceTypes(
+      code,
+      /((?:\b(?:public|protected|private|internal|abstract|static|sealed|partial|readonly)\s+)*)\b(class|interface|struct|enum|record(?:\s+struct|\s+class)?)\s+(\w+)\s*(<[^{:]*?>)?((?:\s*\([^)]*\))?[^{;]*)\{/g,
+      (cls, kind, modifiers, heritage) => {
+        cls.annotation = kind === 'interface' ? 'interface' : kind === 'enum' ? 'enumeration' : kind === 'struct' ? 'struct'
+          : kind.startsWith('record') ? 'record' : /\babstract\b/.test(modifiers) ? 'abstract' : undefined;
+        const baseList = heritage.replace(/^\s*\([^)]*\)/, '').match(/:\s*([^{]+?)(?:\bwhere\b|$)/);
+        for (const [index, base] of (baseList ? splitTopLevel(baseList[1]) : []).entries()) {
+          const baseName = simpleName(base.replace(/\(.*$/s, ''));
+          const isInterface = /^I[A-Z]/.test(baseName) || cls.annotation === 'interface' || cls.annotation === 'struct' || index > 0;
+          structure.relationships.push({
+            from: cls.name,
+            to: baseName,
+            type: isInterface && cls.annotation !== 'interface' ? '<|..' : '<|--',
+            label: isInterface && cls.annotation !== 'interface' ? 'implements' : 'extends'
+          });
+        }
+      },
+      (cls, member) => {
+        const defaultVisibility = cls.annotation === 'interface' ? '+' : '-';
+        if (cls.annotation === 'enumeration') {
+          for (const constant of splitTopLevel(member.header)) {
+            cls.properties.push({ name: constant.replace(/=.*$/s, '').trim(), type: '' });
+          }
+          return;
+        }
+
+        const modifierPattern = '((?:\\b(?:public|protected|private|internal|abstract|static|virtual|override|sealed|async|readonly|const|new|extern|required)\\s+)*)';
+        const methodMatch = member.header.match(new RegExp(`^${modifierPattern}([\\w.<>[\\],?\\s()]+?)\\s+(\\w+)\\s*(?:<[^>]+>)?\\s*\\(([^)]*)\\)`));
+        if (methodMatch && methodMatch[3] !== cls.name && !new RegExp(`^(?:\\w+\\s+)*${cls.name}\\s*\\(`).test(member.header)) {
+          const [, modifiers, returnType, name, parameterText] = methodMatch;
+          cls.methods.push({
+            name,
+            visibility: visibilityOf(modifiers, defaultVisibility),
+            parameters: splitTopLevel(parameterText).map(parameter => {
+              const [, type, parameterName] = parameter.replace(/^(?:this|ref|out|in|params)\s+/, '').replace(/\s*=.*$/s, '').match(/^(.+?)\s+(\w+)$/) || [];
+              return { name: parameterName || parameter, type: formatType(type) };
+            }),
+            returnType: returnType === 'void' ? undefined : formatType(returnType.replace(/^Task<(.+)>$/, '$1')),
+            isStatic: /\bstatic\b/.test(modifiers),
+            isAbstract: /\babstract\b/.test(modifiers)
+          });
+          return;
+        }
+
+        // Fields, properties with accessor blocks and expression-bodied properties
+        const fieldMatch = member.header.match(new RegExp(`^${modifierPattern}([\\w.<>[\\],?\\s()]+?)\\s+(\\w+)\\s*(?:(=>|=)\\s*([\\s\\S]*))?$`));
+        if (fieldMatch) {
+          const [, modifiers, type, name, , initializer] = fieldMatch;
+          const createdMatch = initializer?.match(/^\s*new\s+([\w.]+)/);
+          cls.properties.push({
+            name,
+            type: formatType(type) as string,
+            visibility: visibilityOf(modifiers, defaultVisibility),
+            isStatic: /\b(?:static|const)\b/.test(modifiers)
+          });
+          structure.fields.push({ owner: cls.name, name, type, createdType: createdMatch ? simpleName(createdMatch[1]) : undefined });
+        }
+      }
+    );
+
+    return structure;
+  }
+};
+
+/**
+ * Ruby: `require_relative` resolves against the file and `require` against
+ * the load path, which is usually `lib/`. Included modules are drawn as
+ * realizations.
+ */
+const rubyExtractor: StructureExtractor = {
+  extractDependencies(file, codeFiles) {
+    const dependencies: string[] = [];
+    const rubyPaths = codeFiles.filter(f => f.language === 'ruby').map(f => f.path);
+    const fromDir = file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '';
+
+    for (const match of file.content.matchAll(/^\s*(require_relative|require|load)\s*\(?\s*['"]([^'"]+)['"]/gm)) {
+      const [, keyword, required] = match;
+      const withExtension = required.endsWith('.rb') ? required : `${required}.rb`;
+      let target: string | undefined;
+      if (keyword === 'require_relative') {
+        const parts: string[] = [];
+        for (const part of `${fromDir}/${withExtension}`.split('/')) {
+          if (part === '..') {
+            parts.pop();
+          } else if (part && part !== '.') {
+            parts.push(part);
+          }
+        }
+        target = rubyPaths.find(path => path === parts.join('/'));
+      } else {
+        target = rubyPaths.find(path => path === withExtension || path === `lib/${withExtension}` || path.endsWith(`/${withExtension}`));
+      }
+      if (target) {
+        dependencies.push(target);
+      }
+    }
+    return dependencies;
+  },
+
+  extractTypes(file) {
+    const structure: FileStructure = { classes: [], relationships: [], fields: [] };
+    const lines = maskCommentsAndStrings(file.content, true).split('\n');
+
+    // Open classes and modules, with the `end` depth that closes them
+    const stack: Array<{cls: ClassInfo, depth: number, visibility: string, inSingleton: boolean}> = [];
+    let depth = 0;
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      const current = stack[stack.length - 1];
+
+      const typeMatch = line.match(/^(class|module)\s+([A-Z][\w:]*)(?:\s*<\s*([A-Z][\w:]*))?/);
+      const singletonMatch = /^class\s*<<\s*self\b/.test(line);
+      if (typeMatch && !singletonMatch) {
+        const name = simpleName(typeMatch[2]);
+        const cls: ClassInfo = { name, annotation: typeMatch[1] === 'module' ? 'module' : undefined, properties: [], methods: [] };
+        if (typeMatch[3]) {
+          structure.relationships.push({ from: name, to: simpleName(typeMatch[3]), type: '<|--', label: 'inherits' });
+        }
+        structure.classes.push(cls);
+        stack.push({ cls, depth, visibility: '+', inSingleton: false });
+        depth++;
+        continue;
+      }
+
+      if (current) {
+        if (singletonMatch) {
+          current.inSingleton = true;
+        }
+        const includeMatch = line.match(/^(include|extend|prepend)\s+([A-Z][\w:]*)/);
+        if (includeMatch) {
+          structure.relationships.push({ from: current.cls.name, to: simpleName(includeMatch[2]), type: '<|..', label: includeMatch[1] === 'include' ? 'includes' : includeMatch[1] === 'extend' ? 'extends' : 'prepends' });
+        }
+        const attrMatch = line.match(/^attr_(reader|writer|accessor)\s+(.+)$/);
+        if (attrMatch) {
+          for (const attr of attrMatch[2].split(',').map(a => a.trim().replace(/^:/, '')).filter(a => /^\w+$/.test(a))) {
+            current.cls.properties.push({ name: attr, type: 'Object', visibility: current.visibility });
+          }
+        }
+        if (/^(private|protected|public)$/.test(line) && depth === current.depth + 1) {
+          current.visibility = line === 'private' ? '-' : line === 'protected' ? '#' : '+';
+        }
+        const defMatch = line.match(/^def\s+(self\.)?([\w?!=]+)\s*(?:\(([^)]*)\)|\s+([^;]+))?/);
+        if (defMatch && depth === current.depth + 1 + (current.inSingleton ? 1 : 0)) {
+          const [, self, name, parenParameters, bareParameters] = defMatch;
+          if (name !== 'initialize') {
+            current.cls.methods.push({
+              name,
+              visibility: current.visibility,
+              parameters: splitTopLevel(parenParameters || bareParameters || '').map(parameter => ({ name: parameter.replace(/^[*&]+/, '').replace(/[:=].*$/s, '').trim() })),
+              isStatic: !!self || current.inSingleton
+            });
+          }
+          // Instance variables assigned in the constructor
+          if (name === 'initialize') {
+            const start = lines.indexOf(rawLine);
+            for (let i = start + 1; i < lines.length && !/^\s*end\b/.test(lines[i]); i++) {
+              const ivar = lines[i].match(/^\s*@(\w+)\s*=\s*([A-Z][\w:]*)?(\.new)?/);
+              if (!ivar) {
+                continue;
+              }
+              const createdType = ivar[3] ? simpleName(ivar[2]) : undefined;
+              // Attributes declared with `attr_*` take the type of the instance they are assigned
+              const attribute = current.cls.properties.find(prop => prop.name === ivar[1]);
+              if (attribute) {
+                attribute.type = createdType || attribute.type;
+              } else {
+                current.cls.properties.push({ name: ivar[1], type: createdType || 'Object', visibility: '-' });
+              }
+              if (createdType || !attribute) {
+                structure.fields.push({ owner: current.cls.name, name: ivar[1], type: ivar[3] ? ivar[2] : '', createdType });
+              }
+            }
+          }
+        }
+      }
+
+      // Track the keywords that are closed by `end`
+      const endless = /^def\s+[\w.?!]+(?:\([^)]*\))?\s*=/.test(line);
+      if ((/^(?:def|if|unless|while|until|case|begin|for)\b/.test(line) && !endless) || /^class\s*<<\s*self\b/.test(line) ||
+          /\bdo\s*(?:\|[^|]*\|)?\s*$/.test(line) || /=\s*(?:if|unless|case|begin)\b/.test(line)) {
+        depth++;
+      }
+      if (/^end\b/.test(line) || /;\s*end\s*$/.test(line) && !/^(?:def|class|module)\b/.test(line)) {
+        depth--;
+        if (current && depth === current.depth + 1 && current.inSingleton) {
+          current.inSingleton = false;
+        }
+        if (current && depth === current.depth) {
+          stack.pop();
+        }
+      }
+    }
+
+    return structure;
+  }
+};
+
+/**
+ * PHP: `use` statements name classes by namespace, which resolve to the files
+ * that declare them. Traits used by a class are drawn as realizations.
+ */
+const phpExtractor: StructureExtractor = {
+  extractDependencies(file, codeFiles) {
+    // Qualified names of the types declared by each file
+    const declared = new Map<string, string>();
+    for (const other of codeFiles.filter(f => f.language === 'php')) {
+      const namespace = other.content.match(/^\s*namespace\s+([\w\\]+)\s*;/m)?.[1] || '';
+      for (const match of other.content.matchAll(/^\s*(?:(?:abstract|final|readonly)\s+)*(?:class|interface|trait|enum)\s+(\w+)/gm)) {
+        declared.set(namespace ? `${namespace}\\${match[1]}` : match[1], other.path);
+      }
+    }
+
+    const dependencies: string[] = [];
+    for (const match of file.content.matchAll(/^\s*use\s+(?:function\s+|const\s+)?([^;]+);/gm)) {
+      // `use App\Models\{User, Post}` groups names under a prefix
+      const groupMatch = match[1].match(/^([\w\\]+)\\\{([^}]*)\}/);
+      const names = groupMatch
+        ? groupMatch[2].split(',').map(name => `${groupMatch[1]}\\${name.trim().split(/\s+as\s+/i)[0]}`)
+        : match[1].split(',').map(name => name.trim().split(/\s+as\s+/i)[0]);
+      for (const name of names) {
+        const target = declared.get(name.replace(/^\\/, ''));
+        if (target) {
+          dependencies.push(target);
+        }
+      }
+    }
+
+    const fromDir = file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '';
+    for (const match of file.content.matchAll(/\b(?:require|include)(?:_once)?\s*\(?\s*(?:__DIR__\s*\.\s*)?['"]([^'"]+\.php)['"]/g)) {
+      const parts: string[] = [];
+      for (const part of `${fromDir}/${match[1]}`.split('/')) {
+        if (part === '..') {
+          parts.pop();
+        } else if (part && part !== '.') {
+          parts.push(part);
+        }
+      }
+      const target = codeFiles.find(f => f.path === parts.join('/'));
+      if (target) {
+        dependencies.push(target.path);
+      }
+    }
+    return dependencies;
+  },
+
+  extractTypes(file) {
+    const code = maskCommentsAndStrings(file.content, true).replace(/#\[[^\]]*\]/g, match => ' '.repeat(match.length));
+    const structure: FileStructure = { classes: [], relationships: [], fields: [] };
+
+    const addProperty = (cls: ClassInfo, modifiers: string, type: string | undefined, name: string, initializer?: string) => {
+      const createdMatch = initializer?.match(/^\s*new\s+\\?([\w\\]+)/);
+      cls.properties.push({
+        name,
+        type: formatType(type?.replace(/^\?/, '')) || (createdMatch ? simpleName(createdMatch[1]) : 'mixed'),
+        visibility: visibilityOf(modifiers),
+        isStatic: /\b(?:static|const)\b/.test(modifiers)
+      });
+      structure.fields.push({ owner: cls.name, name, type: type || '', createdType: createdMatch ? simpleName(createdMatch[1]) : undefined });
+    };
+
+    structure.classes = extractBraceTypes(
+      code,
+      /((?:\b(?:abstract|final|readonly)\s+)*)\b(class|interface|trait|enum)\s+(\w+)()([^{;]*)\{/g,
+      (cls, kind, modifiers, heritage) => {
+        cls.annotation = kind === 'interface' ? 'interface' : kind === 'trait' ? 'trait' : kind === 'enum' ? 'enumeration'
+          : /\babstract\b/.test(modifiers) ? 'abstract' : undefined;
+        const extendsMatch = heritage.match(/\bextends\s+([\w\\,\s]+?)(?:\bimplements\b|$)/);
+        const implementsMatch = heritage.match(/\bimplements\s+([\w\\,\s]+)$/);
+        for (const base of extendsMatch ? splitTopLevel(extendsMatch[1]) : []) {
+          structure.relationships.push({ from: cls.name, to: simpleName(base), type: '<|--', label: 'extends' });
+        }
+        for (const base of implementsMatch ? splitTopLevel(implementsMatch[1]) : []) {
+          structure.relationships.push({ from: cls.name, to: simpleName(base), type: '<|..', label: 'implements' });
+        }
+      },
+      (cls, member) => {
+        const useMatch = member.header.match(/^use\s+([\w\\,\s]+)$/);
+        if (useMatch) {
+          for (const trait of splitTopLevel(useMatch[1])) {
+            structure.relationships.push({ from: cls.name, to: simpleName(trait), type: '<|..', label: 'uses' });
+          }
+          return;
+        }
+
+        const caseMatch = member.header.match(/^case\s+(\w+)/);
+        if (caseMatch) {
+          cls.properties.push({ name: caseMatch[1], type: '' });
+          return;
+        }
+
+        const methodMatch = member.header.match(/^((?:\b(?:public|protected|private|abstract|static|final)\s+)*)function\s+&?(\w+)\s*\(([\s\S]*)\)\s*(?::\s*([?\w\\|]+))?/);
+        if (methodMatch) {
+          const [, modifiers, name, parameterText, returnType] = methodMatch;
+          const parameters = splitTopLevel(parameterText).map(parameter => {
+            const [, promoted, type, parameterName, initializer] = parameter.match(/^((?:\b(?:public|protected|private|readonly)\s+)*)([?\w\\|]+\s+)?&?(?:\.\.\.)?\$(\w+)(?:\s*=\s*([\s\S]*))?$/) || [];
+            // Promoted constructor parameters are properties
+            if (name === '__construct' && promoted && promoted.trim()) {
+              addProperty(cls, promoted, type?.trim(), parameterName, initializer);
+            }
+            return { name: parameterName || parameter, type: formatType(type?.trim()) };
+          });
+          if (!name.startsWith('__')) {
+            cls.methods.push({
+              name,
+              visibility: visibilityOf(modifiers),
+              parameters,
+              returnType: returnType && returnType !== 'void' ? formatType(returnType) : undefined,
+              isStatic: /\bstatic\b/.test(modifiers),
+              isAbstract: /\babstract\b/.test(modifiers)
+            });
+          }
+          return;
+        }
+
+        const propertyMatch = member.header.match(/^((?:\b(?:public|protected|private|static|readonly|var)\s+)+)([?\w\\|]+\s+)?\$(\w+)(?:\s*=\s*([\s\S]*))?$/);
+        if (propertyMatch) {
+          addProperty(cls, propertyMatch[1], propertyMatch[2]?.trim(), propertyMatch[3], propertyMatch[4]);
+          return;
+        }
+
+        const constMatch = member.header.match(/^((?:\b(?:public|protected|private|final)\s+)*)const\s+(?:\w+\s+)?(\w+)\s*=/);
+        if (constMatch) {
+          cls.properties.push({ name: constMatch[2], type: 'const', visibility: visibilityOf(constMatch[1]), isStatic: true });
+        }
+      }
+    );
+
+    return structure;
+  }
+};
+
+/**
+ * Structure extractors by language, as tagged by `getLanguageForExtension`.
+ */
+export const STRUCTURE_EXTRACTORS: Record<string, StructureExtractor> = {
+  go: goExtractor,
+  java: javaExtractor,
+  csharp: csharpExtractor,
+  ruby: rubyExtractor,
+  php: phpExtractor
+};
+
+/**
+ * Extract the types and their relationships from Go, Java, C#, Ruby and PHP files.
+ *
+ * Besides inheritance and implementation, a field whose type is another
+ * extracted type creates a composition when it is initialized with a new
+ * instance and an association otherwise. Go structs implement the
+ * interfaces whose methods they all have. Types of the same name in other
+ * files are kept apart, except Go types of one package directory and
+ * reopened Ruby classes, which are merged.
+ *
+ * @param {Array<{path: string, content: string, language: string}>} codeFiles - The code files to analyze
+ * @returns {{classes: ClassInfo[], relationships: ClassRelationship[]}} Types and relationships
+ */
+export function extractStructuredTypes(codeFiles: Array<{path: string, content: string, language: string}>): {
+  classes: ClassInfo[],
+  relationships: ClassRelationship[]
+} {
+  const classes: ClassInfo[] = [];
+  const relationships: ClassRelationship[] = [];
+  const fields: FieldReference[] = [];
+  const directoryOf = (path?: string) => path?.substring(0, path.lastIndexOf('/'));
+
+  for (const file of codeFiles) {
+    const extractor = STRUCTURE_EXTRACTORS[file.language];
+    if (!extractor) {
+      continue;
+    }
+    const structure = extractor.extractTypes(file);
+    for (const cls of structure.classes) {
+      // A Go type belongs to the package of its directory, and Ruby classes may be reopened anywhere
+      const existing = classes.find(other => other.name === cls.name && (
+        file.language === 'go' ? directoryOf(other.path) === directoryOf(file.path) : file.language === 'ruby' || other.path === file.path
+      ));
+      if (!existing) {
+        classes.push({ ...cls, path: file.path });
+      } else if (file.language === 'go' || file.language === 'ruby') {
+        // Go methods and reopened Ruby classes may be declared in other files
+        existing.methods.push(...cls.methods.filter(method => !existing.methods.some(m => m.name === method.name)));
+        existing.properties.push(...cls.properties.filter(prop => !existing.properties.some(p => p.name === prop.name)));
+      }
+    }
+    relationships.push(...structure.relationships.map(relationship => ({ ...relationship, fromPath: file.path })));
+    fields.push(...structure.fields.map(field => ({ ...field, path: file.path })));
+  }
+
+  // Go methods with receivers declared in another file than their struct
+  for (const file of codeFiles.filter(f => f.language === 'go')) {
+    const code = maskCommentsAndStrings(file.content);
+    for (const match of code.matchAll(/^func\s+\(\s*\w*\s*\*?(\w+)(?:\[[^\]]*\])?\s*\)\s*(\w+)\s*\(/gm)) {
+      const cls = classes.find(c => c.name === match[1] && c.annotation === 'struct' && directoryOf(c.path) === directoryOf(file.path));
+      if (cls && !cls.methods.some(method => method.name === match[2])) {
+        cls.methods.push({ name: match[2], visibility: /^[A-Z]/.test(match[2]) ? '+' : '-', parameters: [] });
+      }
+    }
+  }
+
+  // Go interfaces are implemented implicitly
+  const goInterfaces = classes.filter(cls => cls.annotation === 'interface' && cls.methods.length > 0 &&
+    codeFiles.some(f => f.language === 'go' && new RegExp(`\\btype\\s+${cls.name}\\s+interface\\b`).test(f.content)));
+  for (const struct of classes.filter(cls => cls.annotation === 'struct')) {
+    for (const goInterface of goInterfaces) {
+      if (goInterface.methods.every(method => struct.methods.some(m => m.name === method.name))) {
+        relationships.push({ from: struct.name, to: goInterface.name, type: '<|..', label: 'implements', fromPath: struct.path, toPath: goInterface.path });
+      }
+    }
+  }
+
+  const classNames = new Set(classes.map(cls => cls.name));
+  for (const field of fields) {
+    const typeNames = field.type.match(/[A-Za-z_][\w]*/g) || [];
+    const isCollection = /\[\]|\[\s*\]$/.test(field.type) || typeNames.some(name => COLLECTION_TYPES.test(name));
+    const targets = new Set([field.createdType, ...typeNames]);
+    for (const target of targets) {
+      if (!target || !classNames.has(target) || target === field.owner) {
+        continue;
+      }
+      if (!relationships.some(rel => rel.from === field.owner && rel.fromPath === field.path && rel.to === target && rel.label === field.name)) {
+        relationships.push({
+          from: field.owner,
+          to: target,
+          type: field.createdType === target ? '*--' : '-->',
+          label: field.name,
+          cardinality: isCollection ? '*' : undefined,
+          fromPath: field.path
+        });
+      }
+    }
+  }
+
+  return { classes, relationships: locateRelationships(classes, relationships) };
+}
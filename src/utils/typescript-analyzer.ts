@@ -0,0 +1,497 @@
+/**
+ * TypeScript Analyzer Utilities
+ *
+ * This file contains utility functions for analyzing TypeScript and JavaScript
+ * code with the TypeScript compiler API, which are used for generating class
+ * diagrams from repository code.
+ */
+
+import ts from 'typescript';
+
+/**
+ * A class, interface or enum extracted from code.
+ */
+export interface ClassInfo {
+  name: string;
+  // The file declaring the class, which tells apart classes of the same name
+  path?: string;
+  // Type parameters of a generic class, such as ['T']
+  typeParameters?: string[];
+  // 'interface', 'abstract' or 'enumeration'
+  annotation?: string;
+  properties: Array<{name: string, type: string, visibility?: string, isStatic?: boolean}>;
+  methods: Array<{
+    name: string,
+    visibility?: string,
+    parameters?: Array<{name: string, type?: string}>,
+    returnType?: string,
+    isStatic?: boolean,
+    isAbstract?: boolean
+  }>;
+}
+
+/**
+ * A relationship between two classes.
+ *
+ * For inheritance (`<|--`) and realization (`<|..`) `from` is the subtype and
+ * `to` the supertype. For composition (`*--`) and association (`-->`) `from`
+ * is the owner and `to` the type of its field. `fromPath` and `toPath` are
+ * the files declaring the classes; types that are not declared in the
+ * analyzed files have no path.
+ */
+export interface ClassRelationship {
+  from: string;
+  to: string;
+  type: string;
+  label?: string;
+  cardinality?: string;
+  fromPath?: string;
+  toPath?: string;
+}
+
+/**
+ * Find the files declaring the classes of relationships.
+ *
+ * Extractors set `fromPath` to the file a relationship was found in. A class
+ * of the name in that file is preferred, then one in the same directory, as
+ * a package or namespace usually is, then any.
+ *
+ * @param {ClassInfo[]} classes - The declared classes
+ * @param {ClassRelationship[]} relationships - The relationships, whose paths are set in place
+ * @returns {ClassRelationship[]} The relationships
+ */
+export function locateRelationships(classes: ClassInfo[], relationships: ClassRelationship[]): ClassRelationship[] {
+  const directory = (path?: string) => path?.substring(0, path.lastIndexOf('/') + 1);
+  const locate = (name: string, near?: string) => {
+    const candidates = classes.filter(cls => cls.name === name);
+    return (candidates.find(cls => cls.path === near) ||
+      candidates.find(cls => directory(cls.path) === directory(near)) ||
+      candidates[0])?.path;
+  };
+
+  for (const relationship of relationships) {
+    const near = relationship.fromPath;
+    relationship.fromPath = locate(relationship.from, near) ?? near;
+    relationship.toPath ??= locate(relationship.to, near);
+  }
+
+  return relationships;
+}
+
+/**
+ * Get the Mermaid visibility marker for the modifiers of a class member.
+ *
+ * @param {ts.Node} node - The class member
+ * @returns {string} '-' for private, '#' for protected, '+' otherwise
+ */
+function getVisibility(node: ts.Node): string {
+  const flags = ts.getCombinedModifierFlags(node as ts.Declaration);
+  if (flags & ts.ModifierFlags.Private) {
+    return '-';
+  }
+  if (flags & ts.ModifierFlags.Protected) {
+    return '#';
+  }
+  const name = (node as any).name;
+  if (name && ts.isPrivateIdentifier(name)) {
+    return '-';
+  }
+  return '+';
+}
+
+/**
+ * Check whether a node has a modifier.
+ *
+ * @param {ts.Node} node - The node to check
+ * @param {ts.ModifierFlags} flag - The modifier flag
+ * @returns {boolean} True if the modifier is present
+ */
+function hasModifier(node: ts.Node, flag: ts.ModifierFlags): boolean {
+  return (ts.getCombinedModifierFlags(node as ts.Declaration) & flag) !== 0;
+}
+
+/**
+ * Get the name of a declaration, without the `#` of private identifiers.
+ *
+ * @param {ts.PropertyName | ts.BindingName | undefined} name - The declaration name
+ * @param {ts.SourceFile} sourceFile - The source file of the declaration
+ * @returns {string} The name
+ */
+function getName(name: ts.PropertyName | ts.BindingName | undefined, sourceFile: ts.SourceFile): string {
+  if (!name) {
+    return '';
+  }
+  return name.getText(sourceFile).replace(/^#/, '').replace(/^['"]|['"]$/g, '');
+}
+
+/**
+ * Convert a type annotation to a type that Mermaid can display.
+ *
+ * Generic brackets become `~`, object literal types become `object` and
+ * function types become `Function`.
+ *
+ * @param {ts.TypeNode | undefined} typeNode - The type annotation
+ * @param {ts.SourceFile} sourceFile - The source file of the annotation
+ * @returns {string | undefined} The display type, or undefined if there is no annotation
+ */
+function formatType(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFile): string | undefined {
+  if (!typeNode) {
+    return undefined;
+  }
+  if (ts.isTypeLiteralNode(typeNode) || ts.isMappedTypeNode(typeNode)) {
+    return 'object';
+  }
+  if (ts.isFunctionTypeNode(typeNode) || ts.isConstructorTypeNode(typeNode)) {
+    return 'Function';
+  }
+  return typeNode.getText(sourceFile)
+    .replace(/\{[^}]*\}/g, 'object')
+    .replace(/\([^)]*\)\s*=>\s*[\w.]+/g, 'Function')
+    .replace(/\s+/g, ' ')
+    .replace(/[<>]/g, '~');
+}
+
+/**
+ * Infer the display type of a field from the literal it is initialized with.
+ *
+ * @param {ts.Expression | undefined} initializer - The initializer of the field
+ * @returns {string | undefined} The display type, or undefined if it is not a literal
+ */
+function inferLiteralType(initializer: ts.Expression | undefined): string | undefined {
+  if (!initializer) {
+    return undefined;
+  }
+  if (ts.isParenthesizedExpression(initializer)) {
+    return inferLiteralType(initializer.expression);
+  }
+  // `-1`, `!0`
+  if (ts.isPrefixUnaryExpression(initializer)) {
+    return initializer.operator === ts.SyntaxKind.ExclamationToken ? 'boolean' : inferLiteralType(initializer.operand);
+  }
+  if (ts.isStringLiteral(initializer) || ts.isNoSubstitutionTemplateLiteral(initializer) || ts.isTemplateExpression(initializer)) {
+    return 'string';
+  }
+  if (ts.isNumericLiteral(initializer)) {
+    return 'number';
+  }
+  if (ts.isBigIntLiteral(initializer)) {
+    return 'bigint';
+  }
+  if (initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword) {
+    return 'boolean';
+  }
+  if (ts.isRegularExpressionLiteral(initializer)) {
+    return 'RegExp';
+  }
+  if (ts.isArrayLiteralExpression(initializer)) {
+    const elementTypes = new Set(initializer.elements.map(element => inferLiteralType(element)));
+    const [elementType] = elementTypes;
+    return elementTypes.size === 1 && elementType ? `${elementType}[]` : 'Array';
+  }
+  if (ts.isObjectLiteralExpression(initializer)) {
+    return 'object';
+  }
+  if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+    return 'Function';
+  }
+  return undefined;
+}
+
+/**
+ * Get the names of the types referenced by a type annotation.
+ *
+ * Array element types and type arguments are included, so `Order[]` and
+ * `Map<string, Order>` both reference `Order`.
+ *
+ * @param {ts.TypeNode | undefined} typeNode - The type annotation
+ * @returns {{names: string[], isCollection: boolean}} The referenced type names
+ */
+function getReferencedTypes(typeNode: ts.TypeNode | undefined): {names: string[], isCollection: boolean} {
+  const names: string[] = [];
+  let isCollection = false;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isArrayTypeNode(node)) {
+      isCollection = true;
+    } else if (ts.isTypeReferenceNode(node)) {
+      const typeName = node.typeName.getText();
+      if (['Array', 'Set', 'Map', 'ReadonlyArray', 'Record'].includes(typeName)) {
+        isCollection = true;
+      } else {
+        names.push(typeName.split('.').pop() as string);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  if (typeNode) {
+    visit(typeNode);
+  }
+  return { names, isCollection };
+}
+
+/**
+ * Extract classes, interfaces, enums and their relationships from TypeScript
+ * and JavaScript files using the TypeScript compiler API.
+ *
+ * Fields are recorded with their types, or the type of the literal they are
+ * initialized with, methods with their parameters and return types, and
+ * static and abstract members are marked. Besides
+ * `extends` and `implements`, a field whose type is another extracted class
+ * creates a composition when the field is initialized with `new` and an
+ * association otherwise.
+ *
+ * @param {Array<{path: string, content: string, language: string}>} codeFiles - The code files to analyze
+ * @returns {{classes: ClassInfo[], relationships: ClassRelationship[]}} Classes and relationships
+ */
+export function extractTypeScriptClasses(codeFiles: Array<{path: string, content: string, language: string}>): {
+  classes: ClassInfo[],
+  relationships: ClassRelationship[]
+} {
+  const classes: ClassInfo[] = [];
+  const relationships: ClassRelationship[] = [];
+
+  // Fields typed with other classes, resolved once all classes are known
+  const fieldReferences: Array<{owner: string, path: string, name: string, typeNode?: ts.TypeNode, createdType?: string}> = [];
+
+  for (const file of codeFiles) {
+    if (file.language !== 'typescript' && file.language !== 'javascript') {
+      continue;
+    }
+
+    const scriptKind = file.path.endsWith('.tsx') ? ts.ScriptKind.TSX
+      : file.path.endsWith('.jsx') ? ts.ScriptKind.JSX
+      : file.language === 'javascript' ? ts.ScriptKind.JS : ts.ScriptKind.TS;
+    const sourceFile = ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true, scriptKind);
+
+    const visit = (node: ts.Node) => {
+      if (ts.isClassDeclaration(node) && node.name) {
+        classes.push(extractClass(node, sourceFile, relationships, fieldReferences));
+      } else if (ts.isInterfaceDeclaration(node)) {
+        classes.push(extractInterface(node, sourceFile, relationships, fieldReferences));
+      } else if (ts.isEnumDeclaration(node)) {
+        classes.push({
+          name: node.name.text,
+          path: file.path,
+          annotation: 'enumeration',
+          properties: node.members.map(member => ({ name: getName(member.name, sourceFile), type: '' })),
+          methods: []
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  // Keep the first declaration of each name in a file; interfaces may be declared more than once
+  const uniqueClasses = classes.filter((cls, index) => classes.findIndex(other => other.name === cls.name && other.path === cls.path) === index);
+  const classNames = new Set(uniqueClasses.map(cls => cls.name));
+
+  for (const reference of fieldReferences) {
+    const { names, isCollection } = getReferencedTypes(reference.typeNode);
+    const targets = reference.createdType ? [reference.createdType, ...names] : names;
+
+    for (const target of new Set(targets)) {
+      if (!classNames.has(target) || target === reference.owner) {
+        continue;
+      }
+      const type = reference.createdType === target ? '*--' : '-->';
+      if (!relationships.some(rel => rel.from === reference.owner && rel.fromPath === reference.path && rel.to === target && rel.label === reference.name)) {
+        relationships.push({
+          from: reference.owner,
+          to: target,
+          type,
+          label: reference.name,
+          cardinality: isCollection ? '*' : undefined,
+          fromPath: reference.path
+        });
+      }
+    }
+  }
+
+  return { classes: uniqueClasses, relationships: locateRelationships(uniqueClasses, relationships) };
+}
+
+/**
+ * Extract a class declaration.
+ *
+ * @param {ts.ClassDeclaration} node - The class declaration
+ * @param {ts.SourceFile} sourceFile - The source file of the declaration
+ * @param {ClassRelationship[]} relationships - Collects inheritance and realization relationships
+ * @param {Array<{owner: string, path: string, name: string, typeNode?: ts.TypeNode, createdType?: string}>} fieldReferences - Collects fields for composition and association
+ * @returns {ClassInfo} The extracted class
+ */
+function extractClass(
+  node: ts.ClassDeclaration,
+  sourceFile: ts.SourceFile,
+  relationships: ClassRelationship[],
+  fieldReferences: Array<{owner: string, path: string, name: string, typeNode?: ts.TypeNode, createdType?: string}>
+): ClassInfo {
+  const name = node.name?.text as string;
+  const path = sourceFile.fileName;
+  const cls: ClassInfo = {
+    name,
+    path,
+    typeParameters: node.typeParameters?.map(parameter => parameter.name.text),
+    annotation: hasModifier(node, ts.ModifierFlags.Abstract) ? 'abstract' : undefined,
+    properties: [],
+    methods: []
+  };
+
+  for (const clause of node.heritageClauses || []) {
+    for (const type of clause.types) {
+      relationships.push({
+        from: name,
+        to: type.expression.getText(sourceFile).split('.').pop() as string,
+        type: clause.token === ts.SyntaxKind.ExtendsKeyword ? '<|--' : '<|..',
+        label: clause.token === ts.SyntaxKind.ExtendsKeyword ? 'extends' : 'implements',
+        fromPath: path
+      });
+    }
+  }
+
+  // Fields assigned in the constructor, with the type created by `new` if any:
+  // `this.repo = new Repository()`
+  const assignedInConstructor = new Map<string, string | undefined>();
+  const constructorInitializers = new Map<string, ts.Expression>();
+  const constructor = node.members.find(ts.isConstructorDeclaration);
+  if (constructor?.body) {
+    const visit = (child: ts.Node) => {
+      if (ts.isBinaryExpression(child) && child.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          ts.isPropertyAccessExpression(child.left) && child.left.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        const fieldName = getName(child.left.name, sourceFile);
+        if (!assignedInConstructor.get(fieldName)) {
+          assignedInConstructor.set(fieldName, ts.isNewExpression(child.right) ? child.right.expression.getText(sourceFile) : undefined);
+        }
+        if (!constructorInitializers.has(fieldName)) {
+          constructorInitializers.set(fieldName, child.right);
+        }
+      }
+      ts.forEachChild(child, visit);
+    };
+    visit(constructor.body);
+  }
+
+  for (const member of node.members) {
+    if (ts.isPropertyDeclaration(member)) {
+      const memberName = getName(member.name, sourceFile);
+      const createdType = member.initializer && ts.isNewExpression(member.initializer)
+        ? member.initializer.expression.getText(sourceFile)
+        : assignedInConstructor.get(memberName);
+      cls.properties.push({
+        name: memberName,
+        // Untyped fields are typed by their literal initializer, or left without a type
+        type: formatType(member.type, sourceFile) || createdType || inferLiteralType(member.initializer) || '',
+        visibility: getVisibility(member),
+        isStatic: hasModifier(member, ts.ModifierFlags.Static)
+      });
+      fieldReferences.push({ owner: name, path, name: memberName, typeNode: member.type, createdType });
+    } else if (ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member)) {
+      cls.methods.push({
+        name: getName(member.name, sourceFile),
+        visibility: getVisibility(member),
+        parameters: member.parameters.map(parameter => ({
+          name: getName(parameter.name, sourceFile),
+          type: formatType(parameter.type, sourceFile)
+        })),
+        returnType: formatType(member.type, sourceFile),
+        isStatic: hasModifier(member, ts.ModifierFlags.Static),
+        isAbstract: hasModifier(member, ts.ModifierFlags.Abstract)
+      });
+    } else if (ts.isConstructorDeclaration(member)) {
+      // Parameter properties: `constructor(private repo: Repository)`
+      for (const parameter of member.parameters) {
+        if (ts.getCombinedModifierFlags(parameter) & (ts.ModifierFlags.ParameterPropertyModifier)) {
+          const memberName = getName(parameter.name, sourceFile);
+          cls.properties.push({
+            name: memberName,
+            type: formatType(parameter.type, sourceFile) || inferLiteralType(parameter.initializer) || '',
+            visibility: getVisibility(parameter)
+          });
+          fieldReferences.push({ owner: name, path, name: memberName, typeNode: parameter.type });
+        }
+      }
+    }
+  }
+
+  // Fields that are only assigned in the constructor, as in plain JavaScript
+  for (const [fieldName, createdType] of assignedInConstructor) {
+    if (!cls.properties.some(prop => prop.name === fieldName) && !cls.methods.some(method => method.name === fieldName)) {
+      cls.properties.push({ name: fieldName, type: createdType || inferLiteralType(constructorInitializers.get(fieldName)) || '', visibility: '+' });
+      fieldReferences.push({ owner: name, path, name: fieldName, createdType });
+    }
+  }
+
+  return cls;
+}
+
+/**
+ * Extract an interface declaration.
+ *
+ * @param {ts.InterfaceDeclaration} node - The interface declaration
+ * @param {ts.SourceFile} sourceFile - The source file of the declaration
+ * @param {ClassRelationship[]} relationships - Collects inheritance relationships
+ * @param {Array<{owner: string, path: string, name: string, typeNode?: ts.TypeNode, createdType?: string}>} fieldReferences - Collects fields for association
+ * @returns {ClassInfo} The extracted interface
+ */
+function extractInterface(
+  node: ts.InterfaceDeclaration,
+  sourceFile: ts.SourceFile,
+  relationships: ClassRelationship[],
+  fieldReferences: Array<{owner: string, path: string, name: string, typeNode?: ts.TypeNode, createdType?: string}>
+): ClassInfo {
+  const name = node.name.text;
+  const path = sourceFile.fileName;
+  const cls: ClassInfo = {
+    name,
+    path,
+    typeParameters: node.typeParameters?.map(parameter => parameter.name.text),
+    annotation: 'interface',
+    properties: [],
+    methods: []
+  };
+
+  for (const clause of node.heritageClauses || []) {
+    for (const type of clause.types) {
+      relationships.push({
+        from: name,
+        to: type.expression.getText(sourceFile).split('.').pop() as string,
+        type: '<|--',
+        label: 'extends',
+        fromPath: path
+      });
+    }
+  }
+
+  for (const member of node.members) {
+    if (ts.isPropertySignature(member)) {
+      const memberName = getName(member.name, sourceFile);
+      const isMethod = member.type && ts.isFunctionTypeNode(member.type);
+      if (isMethod) {
+        const functionType = member.type as ts.FunctionTypeNode;
+        cls.methods.push({
+          name: memberName,
+          parameters: functionType.parameters.map(parameter => ({
+            name: getName(parameter.name, sourceFile),
+            type: formatType(parameter.type, sourceFile)
+          })),
+          returnType: formatType(functionType.type, sourceFile)
+        });
+      } else {
+        cls.properties.push({ name: memberName, type: formatType(member.type, sourceFile) || '' });
+        fieldReferences.push({ owner: name, path, name: memberName, typeNode: member.type });
+      }
+    } else if (ts.isMethodSignature(member)) {
+      cls.methods.push({
+        name: getName(member.name, sourceFile),
+        parameters: member.parameters.map(parameter => ({
+          name: getName(parameter.name, sourceFile),
+          type: formatType(parameter.type, sourceFile)
+        })),
+        returnType: formatType(member.type, sourceFile)
+      });
+    }
+  }
+
+  return cls;
+}
@@ -0,0 +1,385 @@
+/**
+ * Code Analysis Tests for Archy
+ * 
+ * This script tests the analysis of the code and configuration files of a
+ * repository: the containers, classes and module dependencies read from them
+ * and the diagrams generated from those.
+ */
+
+import assert from 'assert';
+import { generateRepoC4Diagram, generateRepoClassDiagram, generateRepoFlowchart } from '../src/generators/github-generator.js';
+import { extractModuleSpecifiers, readPathAliases, resolveModuleSpecifier } from '../src/utils/module-resolver.js';
+import { extractPythonClasses, extractPythonImports, resolvePythonImport } from '../src/utils/python-analyzer.js';
+import { analyzeCodeDependencies, detectMemberCalls, getLanguageAnalyzer, registerLanguageAnalyzer } from '../src/utils/language-analyzers.js';
+import { getLanguageForExtension, isConfigFile } from '../src/utils/repository-files.js';
+import { extractStructuredTypes } from '../src/utils/structure-extractors.js';
+import { extractTypeScriptClasses } from '../src/utils/typescript-analyzer.js';
+
+/**
+ * Runs the tests
+ */
+async function runTests(): Promise<void> {
+  console.log('Running code analysis tests for Archy...\n');
+  
+  try {
+    // Test 1: Containers from Compose services, Dockerfiles, manifests and client calls
+    console.log('Test 1: C4 containers');
+    assert.deepStrictEqual(
+      ['Dockerfile', 'api.dockerfile', 'docker-compose.prod.yml', 'compose.yaml', 'package.json', 'README.md'].map(isConfigFile),
+      [true, true, true, true, true, false]
+    );
+    const shop = generateRepoC4Diagram('acme', 'shop', {
+      info: { description: 'A shop' },
+      configFiles: [
+        { path: 'docker-compose.yml', content: 'services:\n  web:\n    build: ./web\n    ports:\n      - "80:80"\n    depends_on:\n      - api\n  api:\n    build: ./api\n    depends_on:\n      - db\n  db:\n    image: postgres:16\n' },
+        { path: 'web/Dockerfile', content: 'FROM node:20 AS build\nFROM nginx:1.25\n' },
+        { path: 'api/package.json', content: JSON.stringify({ name: 'api', dependencies: { express: '^4', pg: '^8', redis: '^4', axios: '^1' } }) }
+      ],
+      codeFiles: [
+        { path: 'api/src/payments.ts', language: 'typescript', content: "import axios from 'axios';\nexport const charge = () => axios.post('https://api.stripe.com/v1/charges');\n" }
+      ]
+    });
+    assert.strictEqual(shop, [
+      'C4Container',
+      '    title Container diagram for shop',
+      '    Person(user, "User", "A user of the system")',
+      '    System_Boundary(system, "acme/shop") {',
+      '      Container(web, "web", "Nginx")',
+      '      Container(api, "api", "Express")',
+      '      ContainerDb(db, "db", "PostgreSQL")',
+      '      ContainerDb(Redis_db, "Redis", "Redis")',
+      '    }',
+      '    System_Ext(ext_api_stripe_com, "api.stripe.com")',
+      '    Rel(user, web, "Uses")',
+      '    Rel(web, api, "Uses")',
+      '    Rel(api, db, "Reads from and writes to")',
+      '    Rel(api, Redis_db, "Reads from and writes to")',
+      '    Rel(api, ext_api_stripe_com, "Makes API calls to", "HTTPS")',
+      ''
+    ].join('\n'));
+    
+    const workspaces = generateRepoC4Diagram('acme', 'monorepo', {
+      info: {},
+      configFiles: [
+        { path: 'package.json', content: JSON.stringify({ name: 'monorepo', workspaces: ['packages/*'] }) },
+        { path: 'packages/web/package.json', content: JSON.stringify({ name: '@acme/web', dependencies: { react: '^18' } }) },
+        { path: 'packages/server/package.json', content: JSON.stringify({ name: '@acme/server', dependencies: { mongoose: '^8' } }) }
+      ],
+      codeFiles: []
+    });
+    assert.match(workspaces, /Container\(web, "@acme\/web", "React"\)/);
+    assert.match(workspaces, /Container\(server, "@acme\/server", "Node\.js"\)/);
+    assert.match(workspaces, /Rel\(server, MongoDB_db, "Reads from and writes to"\)/);
+    assert.match(generateRepoC4Diagram('acme', 'shop', { info: {}, configFiles: [], codeFiles: [] }), /^C4Context\n/);
+    console.log('');
+    
+    // Test 2: TypeScript classes, interfaces and enums with members and relationships
+    console.log('Test 2: TypeScript classes');
+    const shapes = [{
+      path: 'src/shapes.ts',
+      language: 'typescript',
+      content: [
+        'export interface Shape { area(): number; }',
+        'export abstract class Base<T> implements Shape {',
+        '  protected readonly id: string;',
+        '  private tags: string[] = [];',
+        '  constructor(id: string) { this.id = id; }',
+        '  abstract area(): number;',
+        '  describe(prefix: string, options?: { verbose: boolean }): string { return prefix; }',
+        '}',
+        'export class Circle extends Base<number> {',
+        '  #radius: number;',
+        '  center: Point;',
+        '  area(): number { return 3; }',
+        '}',
+        'export class Point { x: number; y: number; }',
+        'export enum Color { Red, Green }'
+      ].join('\n')
+    }];
+    const { classes, relationships } = extractTypeScriptClasses(shapes);
+    assert.deepStrictEqual(classes.map(cls => [cls.name, cls.annotation]), [
+      ['Shape', 'interface'],
+      ['Base', 'abstract'],
+      ['Circle', undefined],
+      ['Point', undefined],
+      ['Color', 'enumeration']
+    ]);
+    assert.deepStrictEqual(relationships.map(rel => `${rel.from} ${rel.type} ${rel.to}`), ['Base <|.. Shape', 'Circle <|-- Base', 'Circle --> Point']);
+    
+    const classDiagram = generateRepoClassDiagram('acme', 'shapes', { codeFiles: shapes });
+    assert.match(classDiagram, /class Base~T~ \{\n {8}<<abstract>>\n {8}#string id\n {8}-string\[\] tags\n {8}\+area\(\) number\*\n {8}\+describe\(prefix: string, options: object\) string\n {4}\}/);
+    assert.match(classDiagram, /class Circle \{\n {8}-number radius\n {8}\+Point center/);
+    assert.match(classDiagram, /class Color \{\n {8}<<enumeration>>\n {8}Red\n {8}Green/);
+    assert.match(classDiagram, /Shape <\|\.\. Base : implements\n {4}Base <\|-- Circle : extends\n {4}Circle --> Point : center/);
+    
+    // Untyped fields are typed by their literal initializer, or left without a type
+    const counter = extractTypeScriptClasses([{
+      path: 'src/counter.js',
+      language: 'javascript',
+      content: 'class Counter {\n  static instances = 0;\n  label = `count`;\n  steps = [1, 2];\n  clock = Date.now();\n  constructor() { this.enabled = true; }\n}'
+    }]).classes[0];
+    assert.deepStrictEqual(counter.properties.map(prop => [prop.name, prop.type, prop.isStatic]), [
+      ['instances', 'number', true],
+      ['label', 'string', false],
+      ['steps', 'number[]', false],
+      ['clock', '', false],
+      ['enabled', 'boolean', undefined]
+    ]);
+    console.log('');
+    
+    // Test 3: Relative, ESM, index and alias imports resolved to repository files
+    console.log('Test 3: Module resolution');
+    assert.ok(isConfigFile('tsconfig.json') && isConfigFile('jsconfig.json') && isConfigFile('go.mod'));
+    const filePaths = new Set(['src/index.ts', 'src/utils/index.ts', 'src/app.tsx', 'src/lazy.js']);
+    const aliases = readPathAliases([{ path: 'tsconfig.json', content: '{ // Comments and trailing commas are allowed\n "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["src/*"] }, }, }' }]);
+    assert.deepStrictEqual(aliases, { baseUrl: '', paths: { '@/*': ['src/*'] } });
+    assert.strictEqual(resolveModuleSpecifier('src/index.ts', './utils/index.js', filePaths), 'src/utils/index.ts');
+    assert.strictEqual(resolveModuleSpecifier('src/app.tsx', './utils', filePaths), 'src/utils/index.ts');
+    assert.strictEqual(resolveModuleSpecifier('src/utils/index.ts', '../lazy', filePaths), 'src/lazy.js');
+    assert.strictEqual(resolveModuleSpecifier('src/index.ts', '@/app', filePaths, aliases), 'src/app.tsx');
+    assert.strictEqual(resolveModuleSpecifier('src/index.ts', 'react', filePaths, aliases), undefined);
+    assert.deepStrictEqual(
+      extractModuleSpecifiers('src/index.ts', "export * from './utils/index.js';\nimport { App } from '@/app';\nconst lazy = () => import('./lazy');\nconst fs = require('fs');"),
+      [
+        { specifier: './utils/index.js', isReExport: true },
+        { specifier: '@/app', isReExport: false },
+        { specifier: './lazy', isReExport: false },
+        { specifier: 'fs', isReExport: false }
+      ]
+    );
+    
+    const flowchart = generateRepoFlowchart('acme', 'web', {
+      contents: [],
+      codeFiles: [
+        { path: 'src/index.ts', language: 'typescript', content: "export * from './utils/index.js';\nimport { App } from '@/app';" },
+        { path: 'src/utils/index.ts', language: 'typescript', content: 'export const x = 1;' },
+        { path: 'src/app.tsx', language: 'typescript', content: "import { x } from './utils';" }
+      ],
+      configFiles: [{ path: 'tsconfig.json', content: '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }' }]
+    });
+    assert.match(flowchart, /M_src_index_ts -\.->\|re-exports\| M_src_utils_index_ts\n {4}M_src_index_ts -->\|imports\| M_src_app_tsx\n {4}M_src_app_tsx -->\|imports\| M_src_utils_index_ts/);
+    console.log('');
+    
+    // Test 4: Python packages, relative imports and indentation-scoped classes
+    console.log('Test 4: Python analysis');
+    const pythonFiles = [
+      { path: 'src/shop/__init__.py', language: 'python', content: '' },
+      { path: 'src/shop/base.py', language: 'python', content: 'from abc import ABC, abstractmethod\n\nclass Model(ABC):\n    @abstractmethod\n    def save(self) -> None:\n        ...\n' },
+      {
+        path: 'src/shop/models.py',
+        language: 'python',
+        content: [
+          'from dataclasses import dataclass',
+          'from typing import List',
+          'from .base import Model',
+          '',
+          '@dataclass',
+          'class Item:',
+          '    name: str',
+          '    price: float = 0.0',
+          '',
+          'class Order(Model):',
+          '    items: List[Item]',
+          '',
+          '    def __init__(self):',
+          '        self._total = 0',
+          '',
+          '    def total(self) -> float:',
+          '        return sum(item.price for item in self.items)',
+          '',
+          '    @staticmethod',
+          '    def create() -> "Order":',
+          '        pass',
+          ''
+        ].join('\n')
+      },
+      { path: 'src/shop/api/views.py', language: 'python', content: 'from ..models import Order, Item\nfrom shop import models\nimport shop.base as base\n' }
+    ];
+    const pythonPaths = new Set(pythonFiles.map(file => file.path));
+    const viewImports = extractPythonImports(pythonFiles[3].content);
+    assert.deepStrictEqual(viewImports, [
+      { module: 'models', level: 2, names: ['Order', 'Item'] },
+      { module: 'shop', level: 0, names: ['models'] },
+      { module: 'shop.base', level: 0, names: [] }
+    ]);
+    assert.deepStrictEqual(viewImports.map(pythonImport => resolvePythonImport('src/shop/api/views.py', pythonImport, pythonPaths)), [
+      ['src/shop/models.py'],
+      ['src/shop/models.py'],
+      ['src/shop/base.py']
+    ]);
+    
+    const pythonModel = extractPythonClasses(pythonFiles);
+    assert.deepStrictEqual(pythonModel.classes.map(cls => [cls.name, cls.annotation]), [
+      ['Model', 'abstract'],
+      ['Item', 'dataclass'],
+      ['Order', undefined]
+    ]);
+    assert.deepStrictEqual(pythonModel.relationships.map(rel => `${rel.from} ${rel.type} ${rel.to}`), ['Order <|-- Model', 'Order --> Item']);
+    
+    const pythonDiagram = generateRepoClassDiagram('acme', 'shop', { codeFiles: pythonFiles });
+    assert.match(pythonDiagram, /class Order \{\n {8}\+List~Item~ items\n {8}#int _total\n {8}\+total\(\) float\n {8}\+create\(\) Order\$\n {4}\}/);
+    assert.match(pythonDiagram, /Order --> "\*" Item : items/);
+    assert.match(generateRepoFlowchart('acme', 'shop', { contents: [], codeFiles: pythonFiles }), /M_src_shop_api_views_py -->\|imports\| M_src_shop_base_py/);
+    console.log('');
+    
+    // Test 5: Go, Java, C#, Ruby and PHP types and imports
+    console.log('Test 5: Go, Java, C#, Ruby and PHP analysis');
+    const polyglotFiles = [
+      { path: 'cmd/server/main.go', language: 'go', content: 'package main\n\nimport (\n\t"fmt"\n\t"github.com/acme/shop/internal/store"\n)\n\nfunc main() { fmt.Println(store.New()) }\n' },
+      {
+        path: 'internal/store/store.go',
+        language: 'go',
+        content: 'package store\n\ntype Repository interface {\n\tFind(id string) (*Cart, error)\n}\n\ntype Entity struct {\n\tID string\n}\n\n' +
+          'type Store struct {\n\tEntity\n\tcarts []*Cart\n\tName string `json:"name"`\n}\n\nfunc (s *Store) Find(id string) (*Cart, error) { return nil, nil }\n\ntype Cart struct { Total int }\n'
+      },
+      {
+        path: 'src/main/java/com/acme/shop/App.java',
+        language: 'java',
+        content: 'package com.acme.shop;\n\nimport com.acme.shop.model.Order;\nimport java.util.List;\n\n' +
+          'public abstract class App implements Runnable {\n  private final List<Order> orders = new ArrayList<>();\n  public static int count;\n  public void run() {}\n  protected Order find(String id, int limit) { return null; }\n}\n'
+      },
+      { path: 'src/main/java/com/acme/shop/model/Order.java', language: 'java', content: 'package com.acme.shop.model;\n\npublic enum Status { OPEN, CLOSED }\n\npublic class Order { private Status status; }\n' },
+      {
+        path: 'src/Services/InvoiceService.cs',
+        language: 'csharp',
+        content: 'namespace Shop.Services;\nusing Shop.Models;\npublic class InvoiceService : IInvoiceService {\n  private readonly List<Invoice> _invoices;\n  public string Name { get; set; }\n  public Invoice Get(int id) { return null; }\n}\n'
+      },
+      { path: 'src/Models/Invoice.cs', language: 'csharp', content: 'namespace Shop.Models;\npublic interface IInvoiceService { Invoice Get(int id); }\npublic class Invoice { }\n' },
+      {
+        path: 'app/models/user.rb',
+        language: 'ruby',
+        content: "require_relative 'record'\nclass User < Record\n  include Comparable\n  attr_reader :name\n  def greet(other)\n    'hi'\n  end\n  def self.find(id)\n  end\n  private\n  def secret\n  end\nend\n"
+      },
+      { path: 'app/models/record.rb', language: 'ruby', content: 'class Record\nend\n' },
+      {
+        path: 'src/Controller/PaymentController.php',
+        language: 'php',
+        content: '<?php\nnamespace App\\Controller;\nuse App\\Entity\\Payment;\nclass PaymentController extends AbstractController {\n  private Payment $payment;\n  public function show(int $id): Payment { return $this->payment; }\n}\n'
+      },
+      { path: 'src/Entity/Payment.php', language: 'php', content: '<?php\nnamespace App\\Entity;\nclass Payment {}\n' }
+    ];
+    const structured = extractStructuredTypes(polyglotFiles);
+    assert.deepStrictEqual(structured.relationships.map(rel => `${rel.from} ${rel.type} ${rel.to}`), [
+      'Store <|-- Entity',
+      'App <|.. Runnable',
+      'InvoiceService <|.. IInvoiceService',
+      'User <|-- Record',
+      'User <|.. Comparable',
+      'PaymentController <|-- AbstractController',
+      'Store <|.. Repository',
+      'Store --> Cart',
+      'App --> Order',
+      'Order --> Status',
+      'InvoiceService --> Invoice',
+      'PaymentController --> Payment'
+    ]);
+    
+    const polyglotDiagram = generateRepoClassDiagram('acme', 'shop', { codeFiles: polyglotFiles });
+    assert.match(polyglotDiagram, /class Store \{\n {8}<<struct>>\n {8}-\[\]\*Cart carts\n {8}\+string Name\n {8}\+Find\(id: string\) \*Cart, error\n {4}\}/);
+    assert.match(polyglotDiagram, /class App \{\n {8}<<abstract>>\n {8}-List~Order~ orders\n {8}\+int count\$\n {8}\+run\(\)\n {8}#find\(id: String, limit: int\) Order\n {4}\}/);
+    assert.match(polyglotDiagram, /class Status \{\n {8}<<enumeration>>\n {8}OPEN\n {8}CLOSED/);
+    assert.match(polyglotDiagram, /class InvoiceService \{\n {8}-List~Invoice~ _invoices\n {8}\+string Name\n {8}\+Get\(id: int\) Invoice/);
+    assert.match(polyglotDiagram, /class User \{\n {8}\+Object name\n {8}\+greet\(other\)\n {8}\+find\(id\)\$\n {8}-secret\(\)/);
+    assert.match(polyglotDiagram, /class PaymentController \{\n {8}-Payment payment\n {8}\+show\(id: int\) Payment/);
+    
+    const polyglotFlowchart = generateRepoFlowchart('acme', 'shop', { contents: [], codeFiles: polyglotFiles });
+    for (const [from, to] of [
+      ['cmd/server/main.go', 'internal/store/store.go'],
+      ['src/main/java/com/acme/shop/App.java', 'src/main/java/com/acme/shop/model/Order.java'],
+      ['src/Services/InvoiceService.cs', 'src/Models/Invoice.cs'],
+      ['app/models/user.rb', 'app/models/record.rb'],
+      ['src/Controller/PaymentController.php', 'src/Entity/Payment.php']
+    ]) {
+      const toId = (path: string) => `M_${path.replace(/[^A-Za-z0-9]/g, '_')}`;
+      assert.ok(polyglotFlowchart.includes(`${toId(from)} -->|imports| ${toId(to)}`), `${from} imports ${to}`);
+    }
+    
+    // Go imports resolve by the module path of go.mod, and Java imports by the package declarations
+    const moduleFiles = [
+      { path: 'tool.go', language: 'go', content: 'package tool\n' },
+      { path: 'store/store.go', language: 'go', content: 'package store\n' },
+      { path: 'util/util.go', language: 'go', content: 'package util\n' },
+      { path: 'cmd/cli/main.go', language: 'go', content: 'package main\n\nimport (\n\t"github.com/acme/tool"\n\t"github.com/acme/tool/store"\n\t"github.com/other/lib/util"\n)\n' },
+      { path: 'billing-module/src/Invoice.java', language: 'java', content: 'package com.acme.billing;\n\npublic class Invoice { public static class Line {} }\n' },
+      { path: 'legacy/com/acme/billing/Invoice.java', language: 'java', content: 'package com.legacy.billing;\n\npublic class Invoice {}\n' },
+      { path: 'shared/Strings.java', language: 'java', content: '/* Helpers */\npackage com.acme.util;\n\npublic class Strings {}\n' },
+      {
+        path: 'app/Main.java',
+        language: 'java',
+        content: 'package com.acme;\n\nimport com.acme.billing.Invoice.Line;\nimport static com.acme.util.Strings.join;\n\npublic class Main {}\n'
+      }
+    ];
+    const moduleDependencies = analyzeCodeDependencies(moduleFiles, [{ path: 'go.mod', content: 'module github.com/acme/tool\n\ngo 1.22\n' }]);
+    assert.deepStrictEqual(moduleDependencies.map(dep => `${dep.from} -> ${dep.to}`), [
+      'cmd/cli/main.go -> tool.go',
+      'cmd/cli/main.go -> store/store.go',
+      'app/Main.java -> billing-module/src/Invoice.java',
+      'app/Main.java -> shared/Strings.java'
+    ]);
+    console.log('');
+    
+    // Test 6: Registering a language analyzer
+    console.log('Test 6: Language analyzer registry');
+    assert.strictEqual(getLanguageForExtension('.TSX'), 'typescript');
+    assert.strictEqual(getLanguageForExtension('.rb'), 'ruby');
+    assert.strictEqual(getLanguageForExtension('.kt'), 'unknown');
+    assert.strictEqual(getLanguageAnalyzer('cpp')?.displayName, 'C++');
+    assert.deepStrictEqual(detectMemberCalls('Cart::add($item); $this->cart->total();', ['Cart'], '(?:::|->)'), [{ to: 'Cart', method: 'add' }]);
+    
+    registerLanguageAnalyzer({
+      language: 'kotlin',
+      displayName: 'Kotlin',
+      extensions: ['.kt', '.kts'],
+      detectImports: (file, context) => Array.from(file.content.matchAll(/^import [\w.]+\.(\w+)$/gm))
+        .map(match => context.codeFiles.find(codeFile => codeFile.path.endsWith(`/${match[1]}.kt`)))
+        .filter((codeFile): codeFile is typeof context.codeFiles[number] => !!codeFile)
+        .map(codeFile => ({ path: codeFile.path })),
+      detectTypes: files => ({
+        classes: files.flatMap(file => Array.from(file.content.matchAll(/^class (\w+)/gm)).map(match => ({
+          name: match[1],
+          properties: [],
+          methods: []
+        }))),
+        relationships: []
+      })
+    });
+    assert.strictEqual(getLanguageForExtension('.kt'), 'kotlin');
+    
+    const kotlinFiles = [
+      { path: 'src/app/Main.kt', language: 'kotlin', content: 'import com.acme.model.Ticket\n\nclass Main\n' },
+      { path: 'src/model/Ticket.kt', language: 'kotlin', content: 'class Ticket\n' }
+    ];
+    const kotlinDiagram = generateRepoClassDiagram('acme', 'tickets', { codeFiles: kotlinFiles });
+    assert.ok(kotlinDiagram.includes('class Main'));
+    assert.ok(kotlinDiagram.includes('class Ticket'));
+    const kotlinFlowchart = generateRepoFlowchart('acme', 'tickets', { contents: [], codeFiles: kotlinFiles });
+    assert.ok(kotlinFlowchart.includes('M_src_app_Main_kt -->|imports| M_src_model_Ticket_kt'));
+    
+    // Classes of the same name in other files or languages are kept apart, and so are undeclared types named like them
+    const mixedDiagram = generateRepoClassDiagram('acme', 'mixed', { codeFiles: [
+      { path: 'src/user.ts', language: 'typescript', content: 'export class Model {}\nexport class User extends Model {}' },
+      { path: 'src/server.ts', language: 'typescript', content: 'export class Server { port = 80; }' },
+      { path: 'test/server.ts', language: 'typescript', content: 'export class Server { user: User; }' },
+      { path: 'models/user.py', language: 'python', content: 'class User(Model):\n    name = "x"\n' }
+    ] });
+    assert.ok(mixedDiagram.includes('    class Server_src_server_ts["Server (src/server.ts)"] {\n        +number port\n'));
+    assert.ok(mixedDiagram.includes('    class Server_test_server_ts["Server (test/server.ts)"] {\n        +User user\n'));
+    assert.ok(mixedDiagram.includes('    class User_models_user_py["User (models/user.py)"] {\n'));
+    assert.ok(mixedDiagram.includes([
+      '    class Model_external["Model"]',
+      '    Model <|-- User_src_user_ts : extends',
+      '    Server_test_server_ts --> User_src_user_ts : user',
+      '    Model_external <|-- User_models_user_py : inherits',
+      ''
+    ].join('\n')));
+    console.log('');
+    
+    console.log('All tests passed!');
+  } catch (error) {
+    console.error('Test failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runTests();
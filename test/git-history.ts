@@ -0,0 +1,417 @@
+/**
+ * Git History Tests for Archy
+ * 
+ * This script tests reading the history of a repository in memory and the
+ * diagrams generated from it. The repositories are built in the in-memory
+ * file system with isomorphic-git, so no network access is needed.
+ */
+
+import assert from 'assert';
+import * as git from 'isomorphic-git';
+import { fs } from 'memfs';
+import { CommitInfo, InMemoryGit } from '../src/utils/git-memory.js';
+import { analyzeHotspots, getChangedFiles } from '../src/utils/hotspot-analyzer.js';
+import { analyzeOwnership, getCodeOwners, isOwnerContributor, parseCodeOwners } from '../src/utils/ownership-analyzer.js';
+import {
+  formatHotspotTable,
+  formatOwnershipTable,
+  generateArchitectureEvolution,
+  generateBranchGitGraph,
+  generateHotspotDiagram,
+  generateOwnershipDiagram
+} from '../src/generators/history-generator.js';
+
+// Commits are made at fixed times, one minute apart, so the tests are deterministic
+let clock = 1767225600;
+
+/**
+ * Writes or deletes files and commits them on the current branch
+ * @param {string} dir - The directory of the repository
+ * @param {Record<string, string | null>} files - The contents of the files to write by path, null to delete a file
+ * @param {string} message - The commit message
+ * @param {string} author - The name of the author
+ * @returns {Promise<string>} The SHA of the commit
+ */
+async function commitFiles(dir: string, files: Record<string, string | null>, message: string, author: string = 'Ada'): Promise<string> {
+  for (const [filepath, content] of Object.entries(files)) {
+    if (content === null) {
+      await fs.promises.unlink(`${dir}/${filepath}`);
+      await git.remove({ fs, dir, filepath });
+      continue;
+    }
+    await fs.promises.mkdir(`${dir}/${filepath.substring(0, filepath.lastIndexOf('/'))}`, { recursive: true });
+    await fs.promises.writeFile(`${dir}/${filepath}`, content);
+    await git.add({ fs, dir, filepath });
+  }
+  clock += 60;
+  return git.commit({ fs, dir, message, author: { name: author, email: `${author.toLowerCase()}@example.com`, timestamp: clock, timezoneOffset: 0 } });
+}
+
+/**
+ * Merges a branch into the current branch with a merge commit
+ * @param {string} dir - The directory of the repository
+ * @param {string} theirs - The branch to merge
+ * @param {string} author - The name of the author of the merge
+ * @returns {Promise<string>} The SHA of the merge commit
+ */
+async function mergeBranch(dir: string, theirs: string, author: string = 'Ada'): Promise<string> {
+  clock += 60;
+  const result = await git.merge({
+    fs,
+    dir,
+    theirs,
+    fastForward: false,
+    message: `Merge branch '${theirs}'`,
+    author: { name: author, email: `${author.toLowerCase()}@example.com`, timestamp: clock, timezoneOffset: 0 }
+  });
+  await git.checkout({ fs, dir, ref: await git.currentBranch({ fs, dir }) as string, force: true });
+  return result.oid as string;
+}
+
+/**
+ * Runs the tests
+ */
+async function runTests(): Promise<void> {
+  console.log('Running git history tests for Archy...\n');
+  
+  try {
+    // A repository whose feature branch is merged into main, with a tag and a branch still open
+    const dir = '/history';
+    const repository = new InMemoryGit(dir);
+    await repository.init();
+    await git.branch({ fs, dir, ref: 'main', checkout: true });
+    const initial = await commitFiles(dir, { 'README.md': '# Shop', 'src/app.ts': 'export class App {}' }, 'Initial commit');
+    await git.branch({ fs, dir, ref: 'feature/login', checkout: true });
+    const login = await commitFiles(dir, { 'src/auth/login.ts': 'export class Login {}' }, 'Add login', 'Grace');
+    const session = await commitFiles(dir, { 'src/auth/session.ts': 'export class Session {}', 'src/app.ts': 'export class App { login = true; }' }, 'Add sessions', 'Grace');
+    await git.checkout({ fs, dir, ref: 'main' });
+    const docs = await commitFiles(dir, { 'README.md': '# Shop\n\nAn online shop.' }, 'Document the shop');
+    const merge = await mergeBranch(dir, 'feature/login');
+    await git.tag({ fs, dir, ref: 'v1.0', object: merge });
+    await git.branch({ fs, dir, ref: 'feature/cart', checkout: true });
+    const cart = await commitFiles(dir, { 'src/cart.ts': 'export class Cart {}' }, 'Add cart');
+    await git.checkout({ fs, dir, ref: 'main' });
+    // Branches other than the default branch are read from their remote-tracking refs, as after a clone
+    await git.writeRef({ fs, dir, ref: 'refs/remotes/origin/feature/login', value: session });
+    await git.writeRef({ fs, dir, ref: 'refs/remotes/origin/feature/cart', value: cart });
+    
+    // Test 1: Read the changed files of commits
+    console.log('Test 1: Commits and their changed files');
+    const commits = await repository.getCommits(10);
+    assert.deepStrictEqual(commits.map(commit => commit.message.trim()), ["Merge branch 'feature/login'", 'Document the shop', 'Add sessions', 'Add login', 'Initial commit']);
+    assert.deepStrictEqual(commits.find(commit => commit.sha === docs)?.files, [{ path: 'README.md', type: 'modify' }]);
+    assert.deepStrictEqual(commits.find(commit => commit.sha === merge)?.parents, [docs, session]);
+    assert.deepStrictEqual(commits.find(commit => commit.sha === session)?.files, [
+      { path: 'src/app.ts', type: 'modify' },
+      { path: 'src/auth/session.ts', type: 'add' }
+    ]);
+    assert.deepStrictEqual(commits.find(commit => commit.sha === initial)?.files, [
+      { path: 'README.md', type: 'add' },
+      { path: 'src/app.ts', type: 'add' }
+    ]);
+    console.log('');
+    
+    // Test 2: Draw the branches, merges and tags in a gitGraph
+    console.log('Test 2: Branch gitGraph');
+    const graph = await repository.getCommitGraph(10);
+    assert.strictEqual(graph.defaultBranch, 'main');
+    assert.deepStrictEqual(graph.branches.map(branch => branch.name).sort(), ['feature/cart', 'feature/login', 'main']);
+    assert.deepStrictEqual(graph.tags, [{ name: 'v1.0', sha: merge }]);
+    
+    const id = (sha: string) => sha.substring(0, 7);
+    assert.strictEqual(generateBranchGitGraph(graph, new Set([session])), [
+      'gitGraph',
+      `    commit id: "${id(initial)}"`,
+      '    branch feature/login',
+      `    commit id: "${id(login)}"`,
+      `    commit id: "${id(session)}" type: HIGHLIGHT`,
+      '    checkout main',
+      `    commit id: "${id(docs)}"`,
+      `    merge feature/login id: "${id(merge)}" tag: "v1.0"`,
+      '    branch feature/cart',
+      `    commit id: "${id(cart)}"`,
+      ''
+    ].join('\n'));
+    assert.throws(() => generateBranchGitGraph({ defaultBranch: 'main', branches: [], tags: [], commits: [] }), /no commits/);
+    console.log('');
+    
+    // Test 3: Read the commits of a date range
+    console.log('Test 3: Date range filtering');
+    // Ranges start half a minute before a commit and end half a minute after one
+    const committedAt = async (sha: string, offset: number = 0) => new Date(((await git.readCommit({ fs, dir, oid: sha })).commit.committer.timestamp + offset) * 1000);
+    const messages = (list: Array<{message: string}>) => list.map(commit => commit.message.trim());
+    assert.deepStrictEqual(messages(await repository.getCommits(10, { since: await committedAt(docs, -30), until: await committedAt(merge, 30) })), [
+      "Merge branch 'feature/login'",
+      'Document the shop'
+    ]);
+    assert.deepStrictEqual(messages(await repository.getCommits(2, { until: await committedAt(session, 30) })), ['Add sessions', 'Add login']);
+    assert.deepStrictEqual(messages(await repository.getCommits(10, { since: await committedAt(cart, 30) })), []);
+    
+    const rangeGraph = await repository.getCommitGraph(10, { until: await committedAt(docs, 30) });
+    assert.deepStrictEqual(rangeGraph.branches.find(branch => branch.name === 'main'), { name: 'main', sha: docs });
+    assert.deepStrictEqual(rangeGraph.commits.map(commit => commit.sha).sort(), [initial, login, session, docs].sort());
+    assert.deepStrictEqual(rangeGraph.tags, []);
+    console.log('');
+    
+    // Test 4: Compare the module dependencies at several commits
+    console.log('Test 4: Architecture snapshots');
+    const snapshotDir = '/snapshots';
+    const snapshotRepository = new InMemoryGit(snapshotDir);
+    await snapshotRepository.init();
+    const first = await commitFiles(snapshotDir, {
+      'src/app.ts': "import { Cart } from './cart.js';\n",
+      'src/cart.ts': 'export class Cart {}\n'
+    }, 'Add the cart');
+    const second = await commitFiles(snapshotDir, {
+      'src/app.ts': "import { Cart } from './cart.js';\nimport { Auth } from './auth.js';\n",
+      'src/auth.ts': 'export class Auth {}\n',
+      'src/cart.ts': 'export class Cart { items = []; }\n'
+    }, 'Add authentication');
+    const third = await commitFiles(snapshotDir, {
+      'src/app.ts': "import { Auth } from './auth.js';\n",
+      'src/cart.ts': null
+    }, 'Remove the cart');
+    
+    const snapshots = await snapshotRepository.getArchitectureSnapshots([first, second, third]);
+    assert.deepStrictEqual(snapshots.map(snapshot => snapshot.modules.map(module => module.path)), [
+      ['src/app.ts', 'src/cart.ts'],
+      ['src/app.ts', 'src/auth.ts', 'src/cart.ts'],
+      ['src/app.ts', 'src/auth.ts']
+    ]);
+    assert.deepStrictEqual(snapshots[1].dependencies, [
+      { from: 'src/app.ts', to: 'src/cart.ts', isReExport: false },
+      { from: 'src/app.ts', to: 'src/auth.ts', isReExport: false }
+    ]);
+    assert.deepStrictEqual((await snapshotRepository.getArchitectureSnapshot(first)).modules, snapshots[0].modules);
+    
+    // Files left out by the limits at one commit are left out at all of them
+    const limitedSnapshots = await snapshotRepository.getArchitectureSnapshots([first, second, third], { maxFiles: 2 });
+    assert.deepStrictEqual(limitedSnapshots.map(snapshot => snapshot.modules.map(module => module.path)), [
+      ['src/app.ts'],
+      ['src/app.ts', 'src/auth.ts'],
+      ['src/app.ts', 'src/auth.ts']
+    ]);
+    
+    const evolution = generateArchitectureEvolution(snapshots);
+    assert.ok(evolution.startsWith(`flowchart LR\n    subgraph S0 ["${id(first)} (2026-01-01)"]\n        direction TB\n`));
+    assert.ok(evolution.includes('    S1_src_app_ts --> S1_src_auth_ts\n'));
+    assert.ok(evolution.includes('    S2_src_app_ts -.->|removed| S2_src_cart_ts\n'));
+    assert.ok(evolution.includes('    class S1_src_auth_ts added\n'));
+    assert.ok(evolution.includes('    class S2_src_cart_ts removed\n'));
+    assert.ok(evolution.includes('    class S1_src_app_ts,S1_src_cart_ts,S2_src_app_ts changed\n'));
+    assert.ok(evolution.includes('    linkStyle 2 stroke:#28a745,stroke-width:2px\n'));
+    assert.ok(evolution.includes('    linkStyle 4 stroke:#dc3545\n'));
+    assert.throws(() => generateArchitectureEvolution([]), /No architecture snapshots/);
+    console.log('');
+    
+    // Test 5: Rank files by churn and size
+    console.log('Test 5: Hotspots');
+    const change = (sha: string, ...files: Array<[string, 'add' | 'modify' | 'delete']>): CommitInfo => ({
+      sha,
+      message: sha,
+      parents: [],
+      author: { name: 'Ada', email: 'ada@example.com', timestamp: 0 },
+      files: files.map(([path, type]) => ({ path, type }))
+    });
+    const history = [
+      change('c4', ['src/api/orders.ts', 'modify'], ['src/api/legacy.ts', 'delete']),
+      change('c3', ['src/api/orders.ts', 'modify'], ['src/api/users.ts', 'modify'], ['README.md', 'modify']),
+      change('c2', ['src/api/orders.ts', 'modify'], ['src/index.ts', 'modify']),
+      change('c2', ['src/api/orders.ts', 'modify'], ['src/index.ts', 'modify']),
+      change('c1', ['src/api/orders.ts', 'add'], ['src/api/users.ts', 'add'], ['src/index.ts', 'add'], ['src/api/legacy.ts', 'add'])
+    ];
+    assert.deepStrictEqual(getChangedFiles(history).sort(), ['README.md', 'src/api/legacy.ts', 'src/api/orders.ts', 'src/api/users.ts', 'src/index.ts']);
+    
+    // README.md is no code file and src/api/legacy.ts was deleted, so neither has a line count
+    const hotspots = analyzeHotspots(history, new Map([['src/api/orders.ts', 200], ['src/api/users.ts', 50], ['src/index.ts', 120]]));
+    assert.strictEqual(hotspots.commits, 4);
+    assert.deepStrictEqual(hotspots.files, [
+      { path: 'src/api/orders.ts', commits: 4, lines: 200, score: 800 },
+      { path: 'src/index.ts', commits: 2, lines: 120, score: 240 },
+      { path: 'src/api/users.ts', commits: 2, lines: 50, score: 100 }
+    ]);
+    assert.deepStrictEqual(hotspots.directories, [
+      { path: 'src/api', commits: 4, lines: 250, files: 2, score: 900 },
+      { path: 'src', commits: 2, lines: 120, files: 1, score: 240 }
+    ]);
+    
+    assert.strictEqual(generateHotspotDiagram(hotspots), [
+      'flowchart TB',
+      '    subgraph D0 ["src/api · 4 commits"]',
+      '        F0["orders.ts<br/>4 commits · 200 lines"]',
+      '        F2["users.ts<br/>2 commits · 50 lines"]',
+      '    end',
+      '    subgraph D1 ["src · 2 commits"]',
+      '        F1["index.ts<br/>2 commits · 120 lines"]',
+      '    end',
+      '    classDef critical fill:#d32f2f,stroke:#b71c1c,color:#ffffff',
+      '    classDef hot fill:#f57c00,stroke:#e65100,color:#ffffff',
+      '    classDef warm fill:#ffd54f,stroke:#ffb300,color:#000000',
+      '    classDef cool fill:#e3f2fd,stroke:#90caf9,color:#000000',
+      '    class F0 critical',
+      '    class F1 warm',
+      '    class F2 cool',
+      ''
+    ].join('\n'));
+    assert.strictEqual(formatHotspotTable(hotspots, 1), [
+      '| Rank | File | Commits | Lines | Score |',
+      '|---:|---|---:|---:|---:|',
+      '| 1 | `src/api/orders.ts` | 4 | 200 | 800 |'
+    ].join('\n'));
+    assert.throws(() => generateHotspotDiagram(analyzeHotspots(history, new Map())), /No code file was changed/);
+    
+    assert.deepStrictEqual(await repository.getLineCounts(['README.md', 'src/app.ts', 'src/missing.ts'], docs), new Map([['README.md', 3], ['src/app.ts', 1]]));
+    
+    // The merge commit lists the changes of the merged branch again, so it is not counted
+    const merged = analyzeHotspots(commits, await repository.getLineCounts(['src/app.ts', 'src/auth/login.ts', 'src/auth/session.ts'], merge));
+    assert.strictEqual(merged.commits, 4);
+    assert.deepStrictEqual(merged.files.map(file => [file.path, file.commits]), [
+      ['src/app.ts', 2],
+      ['src/auth/login.ts', 1],
+      ['src/auth/session.ts', 1]
+    ]);
+    console.log('');
+    
+    // Test 6: Map components to their contributors and declared owners
+    console.log('Test 6: Ownership');
+    const rules = parseCodeOwners([
+      '# Owners of the shop',
+      '*.md @docs-team',
+      '/src/api/ @acme/backend',
+      'src/web/* jane@example.com @octocat',
+      '[Billing]',
+      'billing/ @bob'
+    ].join('\n'));
+    assert.deepStrictEqual(rules.map(rule => rule.pattern), ['*.md', '/src/api/', 'src/web/*', 'billing/']);
+    assert.deepStrictEqual(getCodeOwners(rules, 'docs/guide.md'), ['@docs-team']);
+    assert.deepStrictEqual(getCodeOwners(rules, 'src/api/v1/orders.ts'), ['@acme/backend']);
+    assert.deepStrictEqual(getCodeOwners(rules, 'src/web/app.ts'), ['jane@example.com', '@octocat']);
+    assert.deepStrictEqual(getCodeOwners(rules, 'src/web/pages/home.ts'), []);
+    assert.deepStrictEqual(getCodeOwners(rules, 'lib/billing/invoice.ts'), ['@bob']);
+    assert.ok(isOwnerContributor('@octocat', { name: 'The Octocat', email: '583231+octocat@users.noreply.github.com', commits: 1 }));
+    assert.ok(isOwnerContributor('@bobsmith', { name: 'Bob Smith', email: 'bob@example.com', commits: 1 }));
+    assert.ok(!isOwnerContributor('jane@example.com', { name: 'Jane', email: 'jane@example.org', commits: 1 }));
+    
+    const by = (name: string, commit: CommitInfo): CommitInfo => ({ ...commit, author: { name, email: `${name.toLowerCase()}@example.com`, timestamp: 0 } });
+    const authored = [
+      by('Jane', change('o5', ['src/web/app.ts', 'modify'])),
+      by('Jane', change('o4', ['src/web/app.ts', 'modify'], ['src/api/orders.ts', 'modify'])),
+      by('Max', change('o3', ['src/api/orders.ts', 'modify'])),
+      by('Max', change('o3', ['src/api/orders.ts', 'modify'])),
+      by('Bob', change('o2', ['src/api/users.ts', 'modify'], ['README.md', 'modify'])),
+      by('Max', change('o1', ['src/api/orders.ts', 'add'], ['src/api/users.ts', 'add'], ['src/web/app.ts', 'add']))
+    ];
+    const ownership = analyzeOwnership(authored, new Set(['src/api/orders.ts', 'src/api/users.ts', 'src/web/app.ts']), 2, rules);
+    assert.strictEqual(ownership.commits, 5);
+    assert.deepStrictEqual(ownership.components.map(component => [
+      component.path,
+      component.commits,
+      component.contributors.map(contributor => `${contributor.name} ${contributor.commits}`).join(', '),
+      component.busFactor,
+      component.declaredOwners.join(' '),
+      component.status
+    ]), [
+      ['src/api', 4, 'Max 2, Bob 1, Jane 1', 2, '@acme/backend', 'team'],
+      ['src/web', 3, 'Jane 2, Max 1', 1, 'jane@example.com @octocat', 'matches']
+    ]);
+    assert.strictEqual(analyzeOwnership(authored, new Set(['src/api/users.ts']), 1, parseCodeOwners('*.ts @carol')).components[0].status, 'differs');
+    assert.strictEqual(analyzeOwnership(authored, new Set(['src/api/users.ts']), 1, []).components[0].status, 'unowned');
+    
+    // Merging the feature branch of Grace does not make Ada a contributor of its files
+    const mergedOwnership = analyzeOwnership(commits, new Set(['src/app.ts', 'src/auth/login.ts', 'src/auth/session.ts']), 1);
+    assert.strictEqual(mergedOwnership.commits, 4);
+    assert.deepStrictEqual(mergedOwnership.components.map(component => [
+      component.path,
+      component.commits,
+      component.contributors.map(contributor => `${contributor.name} ${contributor.commits}`).join(', ')
+    ]), [['src', 3, 'Grace 2, Ada 1']]);
+    
+    assert.strictEqual(generateOwnershipDiagram(ownership, 2), [
+      'flowchart LR',
+      '    subgraph People',
+      '        P0(["Max"])',
+      '        P1(["Bob"])',
+      '        P2(["Jane"])',
+      '    end',
+      '    subgraph Owners [CODEOWNERS]',
+      '        O0{{"@acme/backend"}}',
+      '        O1{{"@octocat"}}',
+      '    end',
+      '    subgraph Components',
+      '        C0["src/api<br/>4 commits"]',
+      '        C1["src/web<br/>3 commits · bus factor 1"]',
+      '    end',
+      '    P0 -->|2 commits| C0',
+      '    P1 -->|1 commits| C0',
+      '    P2 -->|2 commits| C1',
+      '    P0 -->|1 commits| C1',
+      '    O0 -.->|owns| C0',
+      '    P2 -.->|owns| C1',
+      '    O1 -.->|owns| C1',
+      '    classDef busFactorOne fill:#f8d7da,stroke:#dc3545,color:#721c24',
+      '    classDef ownerDiffers stroke:#ff9800,stroke-width:3px,stroke-dasharray:5 5',
+      '    classDef unowned fill:#eeeeee,stroke:#9e9e9e,color:#424242',
+      '    class C1 busFactorOne',
+      ''
+    ].join('\n'));
+    assert.strictEqual(formatOwnershipTable(ownership, 1), [
+      '| Component | Commits | Top contributors | Bus factor | CODEOWNERS |',
+      '|---|---:|---|---:|---|',
+      '| `src/api` | 4 | Max (2) | 2 | @acme/backend (team) |',
+      '| `src/web` | 3 | Jane (2) | 1 | jane@example.com @octocat (matches) |',
+      '',
+      'Components with a bus factor of 1:',
+      '- `src/web`: Jane made 2 of 3 commits'
+    ].join('\n'));
+    assert.throws(() => generateOwnershipDiagram(analyzeOwnership([], new Set())), /No code file was changed/);
+    console.log('');
+    
+    // Test 7: Keep each repository in a directory of its own
+    console.log('Test 7: Separate repository directories');
+    const repositoryDirs = () => (fs.readdirSync('/') as string[]).filter(name => name.startsWith('repo-'));
+    const before = repositoryDirs().length;
+    const one = new InMemoryGit();
+    const other = new InMemoryGit();
+    await one.init();
+    await other.init();
+    assert.strictEqual(repositoryDirs().length, before + 2);
+    await one.dispose();
+    assert.strictEqual(repositoryDirs().length, before + 1);
+    await other.dispose();
+    assert.strictEqual(repositoryDirs().length, before);
+    console.log('');
+    
+    // Test 8: Stop at the end of a shallow history
+    console.log('Test 8: Truncated history');
+    const shallowDir = '/shallow';
+    const shallowRepository = new InMemoryGit(shallowDir);
+    await shallowRepository.init();
+    const dropped = await commitFiles(shallowDir, { 'src/a.ts': 'export const a = 1;\n' }, 'Add a');
+    const boundary = await commitFiles(shallowDir, { 'src/b.ts': 'export const b = 1;\n' }, 'Add b');
+    await commitFiles(shallowDir, { 'src/c.ts': 'export const c = 1;\n' }, 'Add c');
+    
+    // The parent of the boundary commit was not fetched
+    await fs.promises.writeFile(`${shallowDir}/.git/shallow`, `${boundary}\n`);
+    await fs.promises.unlink(`${shallowDir}/.git/objects/${dropped.substring(0, 2)}/${dropped.substring(2)}`);
+    
+    const warnings: string[] = [];
+    const warn = console.warn;
+    console.warn = (message: string) => warnings.push(message);
+    try {
+      assert.deepStrictEqual(messages(await shallowRepository.getCommits(10)), ['Add c']);
+    } finally {
+      console.warn = warn;
+    }
+    assert.deepStrictEqual(warnings, ['The history of master could not be fetched further and was truncated after 1 commits']);
+    await shallowRepository.dispose();
+    console.log('');
+    
+    console.log('All tests passed!');
+  } catch (error) {
+    console.error('Test failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runTests();
@@ -0,0 +1,315 @@
+/**
+ * Parser Tests for Archy
+ * 
+ * This script tests the parsers that turn text descriptions into the models
+ * of the diagrams generated from text, and the Mermaid code generated from
+ * those models.
+ */
+
+import assert from 'assert';
+import {
+  extractArchitecture,
+  extractDataPoints,
+  extractGanttSchedule,
+  extractGitOperations,
+  extractJourney,
+  extractProcessSteps,
+  extractQuadrantData,
+  extractRequirements,
+  extractStateMachine,
+  parseStructuredData
+} from '../src/utils/entity-extractor.js';
+import {
+  generateC4Diagram,
+  generateGantt,
+  generateGitGraph,
+  generatePieChart,
+  generateQuadrantChart,
+  generateRequirementDiagram,
+  generateStateDiagram,
+  generateUserJourney
+} from '../src/generators/text-generator.js';
+
+/**
+ * Runs the tests
+ */
+async function runTests(): Promise<void> {
+  console.log('Running parser tests for Archy...\n');
+  
+  try {
+    // Test 1: States, labeled transitions, start and end markers and composite states
+    console.log('Test 1: State diagrams');
+    const workflow = 'Orders start in Draft. From Draft to Pending Review when the author submits. ' +
+      'From Pending Review to Approved when the manager signs. Approved moves to Archived after 30 days. ' +
+      'Ends when Archived. Within Review, from Checking to Done.';
+    const machine = extractStateMachine(workflow);
+    assert.deepStrictEqual(machine.transitions, [
+      { from: 'Draft', to: 'Pending Review', label: 'the author submits' },
+      { from: 'Pending Review', to: 'Approved', label: 'the manager signs' },
+      { from: 'Approved', to: 'Archived', label: 'after 30 days' }
+    ]);
+    assert.deepStrictEqual(machine.initialStates, ['Draft']);
+    assert.deepStrictEqual(machine.finalStates, ['Archived']);
+    assert.deepStrictEqual(machine.composites.Review.transitions.map(transition => [transition.from, transition.to]), [['Checking', 'Done']]);
+    
+    const stateDiagram = generateStateDiagram(workflow);
+    assert.match(stateDiagram, /state "Pending Review" as Pending_Review/);
+    assert.match(stateDiagram, /\[\*\] --> Draft\n/);
+    assert.match(stateDiagram, /Pending_Review --> Approved : the manager signs/);
+    assert.match(stateDiagram, /Archived --> \[\*\]/);
+    assert.match(stateDiagram, /state Review \{\n {8}\[\*\] --> Checking\n {8}Checking --> Done\n {4}\}/);
+    assert.throws(() => generateStateDiagram('A diagram of our order states.'), /Could not identify any state transitions/);
+    console.log('');
+    
+    // Test 2: Gantt tasks with durations, dates, dependencies, milestones and sections
+    console.log('Test 2: Gantt charts');
+    const plan = 'Design API, 5 days, starts 2026-11-02; Build client after Design API, 10d\n' +
+      'section QA\nRegression tests after Build client, 2 weeks (crit); Release, milestone, 2026-12-01';
+    const schedule = extractGanttSchedule(plan);
+    assert.deepStrictEqual(schedule.sections.map(section => section.tasks.map(task => task.id)), [
+      ['design_api', 'build_client'],
+      ['regression_tests', 'release']
+    ]);
+    const [design, build] = schedule.sections[0].tasks;
+    assert.strictEqual(design.start, '2026-11-02');
+    assert.strictEqual(design.duration, '5d');
+    assert.deepStrictEqual(build.dependencies, ['design_api']);
+    
+    const gantt = generateGantt(plan);
+    assert.match(gantt, /dateFormat YYYY-MM-DD/);
+    assert.match(gantt, /Design API :design_api, 2026-11-02, 5d/);
+    assert.match(gantt, /Build client :build_client, after design_api, 10d/);
+    assert.match(gantt, /section QA\n {4}Regression tests :crit, regression_tests, after build_client, 2w/);
+    assert.match(gantt, /Release :milestone, release, 2026-12-01, 0d/);
+    
+    // Numbered lists become tasks chained one after another, on separate lines or on one
+    for (const steps of ['1. Design\n2. Build\n3. Test', '1. Design 2. Build 3. Test']) {
+      assert.deepStrictEqual(extractGanttSchedule(steps).sections[0].tasks.map(task => task.name), ['Design', 'Build', 'Test']);
+      assert.match(generateGantt(steps), /Design :design, \d{4}-\d{2}-\d{2}, 1d\n {4}Build :build, after design, 1d\n {4}Test :test, after build, 1d/);
+    }
+    assert.deepStrictEqual(extractProcessSteps('1. Design the API. 2. Upgrade to v2.0\n3) Ship it'), ['Design the API', 'Upgrade to v2.0', 'Ship it']);
+    
+    // Status keywords are only read outside the task name
+    const statuses = extractGanttSchedule('Design API, 5d, done; Active Directory setup, 2d; done: Write docs, 1d; Fix login (crit), 1d');
+    assert.deepStrictEqual(statuses.sections[0].tasks.map(task => [task.name, task.tags]), [
+      ['Design API', ['done']],
+      ['Active Directory setup', []],
+      ['Write docs', ['done']],
+      ['Fix login', ['crit']]
+    ]);
+    console.log('');
+    
+    // Test 3: Pie charts from percentages, CSV lines and structured data
+    console.log('Test 3: Pie charts');
+    assert.deepStrictEqual(extractDataPoints('Team allocation: Frontend 40%, Backend 35%, Infra 25%'), {
+      title: 'Team allocation',
+      points: [
+        { label: 'Frontend', value: 40, isPercentage: true },
+        { label: 'Backend', value: 35, isPercentage: true },
+        { label: 'Infra', value: 25, isPercentage: true }
+      ]
+    });
+    assert.match(generatePieChart('Frontend 40%, Backend 35%'), /"Backend" : 35\n {4}"Other" : 25\n$/);
+    assert.strictEqual(generatePieChart('Bugs\nUI,12\nAPI,5'), 'pie showData\n    title Bugs\n    "UI" : 12\n    "API" : 5\n');
+    assert.deepStrictEqual(parseStructuredData([['Chrome', 60], { name: 'Firefox', count: 30 }]).map(point => point.label), ['Chrome', 'Firefox']);
+    assert.match(generatePieChart('Browsers', { Chrome: 60, Firefox: 30 }), /"Chrome" : 60\n {4}"Firefox" : 30/);
+    assert.throws(() => generatePieChart('Our browser usage'), /Could not identify any values/);
+    assert.throws(() => generatePieChart('Bugs by area: UI 40%, API 12'), /Cannot mix percentages with raw values \("API"\)/);
+    
+    // The title before the colon is kept as written, connectors between labels and values are dropped
+    assert.strictEqual(extractDataPoints('Bugs by component: UI 12, API 5').title, 'Bugs by component');
+    assert.strictEqual(extractDataPoints('Revenue by region in 2025: EU 40%, US 60%').title, 'Revenue by region in 2025');
+    assert.deepStrictEqual(extractDataPoints('Mobile is 60%, desktop is 40%').points.map(point => point.label), ['Mobile', 'desktop']);
+    console.log('');
+    
+    // Test 4: Journey sections, actors and scores from numbers or sentiment words
+    console.log('Test 4: User journeys');
+    const interview = 'Title: Buying a ticket\nActors: Customer, Support\n' +
+      'During search: Customer finds the event easily; Customer compares prices (3)\n' +
+      'During checkout: Customer waits for the confirmation email, score 2; Support resolves the issue and the customer loves it';
+    const journey = extractJourney(interview);
+    assert.strictEqual(journey.title, 'Buying a ticket');
+    assert.deepStrictEqual(journey.actors, ['Customer', 'Support']);
+    assert.deepStrictEqual(journey.sections.map(section => section.name), ['Search', 'Checkout']);
+    assert.deepStrictEqual(journey.sections[0].steps, [
+      { task: 'Finds the event easily', score: 4, actors: ['Customer'] },
+      { task: 'Compares prices', score: 3, actors: ['Customer'] }
+    ]);
+    
+    const journeyDiagram = generateUserJourney(interview);
+    assert.match(journeyDiagram, /section Checkout\n {6}Waits for the confirmation email: 2: Customer\n/);
+    assert.match(journeyDiagram, /Resolves the issue and the customer loves it: 5: Support, Customer/);
+    assert.throws(() => generateUserJourney('Our customers'), /Could not identify any journey steps/);
+    console.log('');
+    
+    // Test 5: Quadrant axes, labels and items from coordinates or qualifiers
+    console.log('Test 5: Quadrant charts');
+    const backlog = 'Title: Backlog priorities\nEffort vs impact.\nQuadrant 1: Major projects. Top left is Quick wins.\n' +
+      'Login (0.3, 0.8)\nSSO is high effort and medium impact.\nDark mode is low effort and low impact.';
+    const quadrantData = extractQuadrantData(backlog);
+    assert.strictEqual(quadrantData.xAxis, 'Effort');
+    assert.strictEqual(quadrantData.yAxis, 'impact');
+    assert.deepStrictEqual(quadrantData.quadrants, { 1: 'Major projects', 2: 'Quick wins' });
+    const positions = Object.fromEntries(quadrantData.items.map(item => [item.name, [item.x, item.y]]));
+    assert.deepStrictEqual(positions, { 'Login': [0.3, 0.8], 'SSO': [0.75, 0.5], 'Dark mode': [0.25, 0.25] });
+    
+    const quadrantChart = generateQuadrantChart(backlog);
+    assert.match(quadrantChart, /x-axis Low Effort --> High Effort\n {4}y-axis Low Impact --> High Impact/);
+    assert.match(quadrantChart, /quadrant-2 Quick wins/);
+    assert.match(quadrantChart, /SSO: \[0\.75, 0\.50\]/);
+    assert.throws(() => generateQuadrantChart('Effort vs impact'), /Could not identify any items/);
+    
+    // Labels placed by qualifiers are not taken for items, and qualifiers may be separated by spaces
+    const placed = extractQuadrantData('Effort vs impact. Quick wins: low effort high impact. Feature C medium effort high impact. X low effort, high impact');
+    assert.deepStrictEqual(placed.quadrants, { 2: 'Quick wins' });
+    assert.deepStrictEqual(placed.items.map(item => [item.name, item.x, item.y]), [['Feature C', 0.5, 0.75], ['X', 0.25, 0.75]]);
+    // A list of labels names the quadrants in order
+    const listed = extractQuadrantData('Effort vs impact. Quadrants: Quick wins, Major projects, Fill-ins, Thankless tasks. Login (0.3, 0.8)');
+    assert.deepStrictEqual(listed.quadrants, { 1: 'Quick wins', 2: 'Major projects', 3: 'Fill-ins', 4: 'Thankless tasks' });
+    assert.deepStrictEqual(listed.items.map(item => item.name), ['Login']);
+    assert.deepStrictEqual(extractQuadrantData('Quadrants are Do first, Schedule, Delegate and Eliminate. Login (0.3, 0.8)').quadrants, {
+      1: 'Do first',
+      2: 'Schedule',
+      3: 'Delegate',
+      4: 'Eliminate'
+    });
+    // Explicit coordinates are scaled together, by the largest one
+    assert.deepStrictEqual(extractQuadrantData('Login (0.5, 8); Search (3, 2)').items.map(item => [item.name, item.x, item.y]), [
+      ['Login', 0.05, 0.8],
+      ['Search', 0.3, 0.2]
+    ]);
+    console.log('');
+    
+    // Test 6: Requirements with risk and verification, elements and relations
+    console.log('Test 6: Requirement diagrams');
+    const specification = 'REQ-12: The system shall encrypt data at rest. Risk high. Verified by test. Satisfied by AuthService.\n' +
+      'REQ-13: The API shall respond within 200 ms. Risk medium. Verified by analysis.\n' +
+      'REQ-13 derives from REQ-12. AuthService traces to REQ-13.';
+    const model = extractRequirements(specification);
+    assert.deepStrictEqual(model.requirements[1], {
+      name: 'REQ_13',
+      id: 'REQ-13',
+      text: 'The API shall respond within 200 ms',
+      type: 'performanceRequirement',
+      risk: 'Medium',
+      verifyMethod: 'Analysis'
+    });
+    assert.deepStrictEqual(model.elements, [{ name: 'AuthService', type: 'component' }]);
+    assert.deepStrictEqual(model.relations.map(relation => `${relation.from} ${relation.type} ${relation.to}`), [
+      'AuthService satisfies REQ_12',
+      'REQ_13 derives REQ_12',
+      'AuthService traces REQ_13'
+    ]);
+    
+    const requirementDiagram = generateRequirementDiagram(specification);
+    assert.match(requirementDiagram, /functionalRequirement REQ_12 \{\n {4}id: "REQ-12"\n {4}text: "The system shall encrypt data at rest"\n {4}risk: High\n {4}verifymethod: Test/);
+    assert.match(requirementDiagram, /AuthService - satisfies -> REQ_12/);
+    assert.throws(() => generateRequirementDiagram('Our specification'), /Could not identify any requirements/);
+    
+    // Elements are named after the whole phrase before the relation, without stop words
+    const phrased = extractRequirements('REQ-12: The system shall encrypt data at rest. Storage module satisfies REQ-12. The Backup module also satisfies REQ-12. Verified by the Encryption test suite.');
+    assert.deepStrictEqual(phrased.elements.map(element => element.name), ['Storage_module', 'Backup_module', 'Encryption_test_suite']);
+    assert.deepStrictEqual(phrased.relations.map(relation => `${relation.from} ${relation.type} ${relation.to}`), [
+      'Storage_module satisfies REQ_12',
+      'Backup_module satisfies REQ_12',
+      'Encryption_test_suite verifies REQ_12'
+    ]);
+    console.log('');
+    
+    // Test 7: Branching workflows replayed as gitGraph commands
+    console.log('Test 7: Git graphs');
+    const release = 'Branch feature/login from develop, two commits, merge into develop, tag v1.2 on main';
+    // Undefined fields are dropped by the JSON round trip
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(extractGitOperations(release))), [
+      { type: 'branch', branch: 'feature/login', from: 'develop' },
+      { type: 'commit', count: 2 },
+      { type: 'merge', target: 'develop' },
+      { type: 'tag', name: 'v1.2', branch: 'main' }
+    ]);
+    assert.strictEqual(generateGitGraph(release), [
+      'gitGraph',
+      '    commit id: "main-1" tag: "v1.2"',
+      '    branch develop',
+      '    branch feature/login',
+      '    commit id: "login-1"',
+      '    commit id: "login-2"',
+      '    checkout develop',
+      '    merge feature/login',
+      ''
+    ].join('\n'));
+    
+    const hotfix = generateGitGraph('Commit "init" on main. Branch hotfix from main, commit "fix crash", checkout develop, cherry-pick hotfix. Merge hotfix into main.');
+    assert.match(hotfix, /branch develop\n {4}cherry-pick id: "fix crash"\n {4}checkout main\n {4}merge hotfix\n$/);
+    
+    // Commits are named by "id:" or a bare id, and unknown cherry-pick targets are skipped
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(extractGitOperations('Commit id: fix1, commit fix2 on develop, commit to main'))), [
+      { type: 'commit', count: 1, message: 'fix1' },
+      { type: 'commit', count: 1, message: 'fix2', branch: 'develop' },
+      { type: 'commit', count: 1, branch: 'main' }
+    ]);
+    assert.strictEqual(generateGitGraph('Branch develop, commit id: fix1, checkout main, cherry-pick fix1, cherry-pick hotfix'), [
+      'gitGraph',
+      '    commit id: "main-1"',
+      '    branch develop',
+      '    commit id: "fix1"',
+      '    checkout main',
+      '    cherry-pick id: "fix1"',
+      ''
+    ].join('\n'));
+    assert.match(generateGitGraph('Commit on master, branch develop'), /^%%\{init: \{ 'gitGraph': \{ 'mainBranchName': 'master' \} \} \}%%\ngitGraph\n/);
+    assert.throws(() => generateGitGraph('Our release process'), /Could not identify any git operations/);
+    console.log('');
+    
+    // Test 8: C4 context and container diagrams
+    console.log('Test 8: C4 diagrams');
+    const context = 'Customers use the Shop System. The Shop System sends emails through SendGrid.';
+    const contextModel = extractArchitecture(context);
+    assert.strictEqual(contextModel.level, 'context');
+    assert.strictEqual(contextModel.systemName, 'Shop System');
+    assert.deepStrictEqual(contextModel.elements.map(element => [element.name, element.kind]), [['Customers', 'person'], ['SendGrid', 'external']]);
+    assert.strictEqual(generateC4Diagram(context), [
+      'C4Context',
+      '    title System Context diagram for Shop System',
+      '    System(shop_system, "Shop System")',
+      '    Person(customers, "Customers")',
+      '    System_Ext(sendgrid, "SendGrid")',
+      '    Rel(customers, shop_system, "use")',
+      '    Rel(shop_system, sendgrid, "sends emails through")',
+      ''
+    ].join('\n'));
+    
+    const containers = generateC4Diagram('Customers use the Web App (React). The Web App calls the Order API over HTTPS. ' +
+      'The Order API stores orders in the Orders Database (PostgreSQL). The Order API publishes events to the Order Queue.');
+    assert.match(containers, /^C4Container\n/);
+    assert.match(containers, /Container\(web_app, "Web App", "React"\)/);
+    assert.match(containers, /ContainerDb\(orders_database, "Orders Database", "PostgreSQL"\)/);
+    assert.match(containers, /ContainerQueue\(order_queue, "Order Queue", "Queue"\)/);
+    assert.match(containers, /Rel\(web_app, order_api, "calls", "HTTPS"\)/);
+    
+    // Technologies are found for names written after sentence starters
+    const technologies = extractArchitecture('The Web App (React) calls the Order API. The Order API is built with Node.js. The Order API stores orders in the Orders Database.');
+    assert.deepStrictEqual(technologies.elements.filter(element => element.technology).map(element => [element.name, element.technology]), [
+      ['Web App', 'React'],
+      ['Order API', 'Node.js']
+    ]);
+    
+    // Appositives and "is a" qualify an element instead of naming another one, and headings name none
+    const qualified = extractArchitecture('Containers:\nThe Web App is a React container. The Web App calls the Order API, a Node.js service. ' +
+      'The Order API stores orders in the Database which is PostgreSQL. The Order API sends emails through the Email System, an external system.');
+    assert.deepStrictEqual(qualified.elements.map(element => [element.name, element.kind, element.technology]), [
+      ['Web App', 'container', 'React'],
+      ['Order API', 'container', 'Node.js'],
+      ['Database', 'database', 'PostgreSQL'],
+      ['Email System', 'external', undefined]
+    ]);
+    console.log('');
+    
+    console.log('All tests passed!');
+  } catch (error) {
+    console.error('Test failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runTests();
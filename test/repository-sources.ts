@@ -0,0 +1,443 @@
+/**
+ * Repository Source Tests for Archy
+ * 
+ * This script tests how repositories are listed and fetched from the APIs of
+ * their hosting providers. The API clients are given an adapter answering
+ * their requests, so no request leaves the machine.
+ */
+
+import assert from 'assert';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { createGitHubApiClient, fetchRepositoryData, GITHUB_API_BASE_URL, parseGitHubUrl } from '../src/utils/github-api.js';
+import { createGitLabApiClient, fetchGitLabRepositoryData, parseGitLabUrl } from '../src/utils/gitlab-api.js';
+import { createGiteaApiClient, parseGiteaUrl } from '../src/utils/gitea-api.js';
+import { createBitbucketApiClient, parseBitbucketUrl } from '../src/utils/bitbucket-api.js';
+import { AuthRequiredError, RateLimitedError, RepoNotFoundError } from '../src/utils/repository-errors.js';
+import { MAX_TREE_ENTRIES, selectApiBaseUrl, selectCodeFiles, TreeEntry } from '../src/utils/repository-files.js';
+import { getRepositorySource } from '../src/utils/repository-sources.js';
+import { readLocalRepositoryData } from '../src/utils/local-repo.js';
+import { generateRepoFlowchart } from '../src/generators/github-generator.js';
+
+/**
+ * Answers the requests of an API client instead of the network
+ * 
+ * Responses with a status rejected by the client are raised as errors, like
+ * the network adapters of axios do.
+ * 
+ * @param {AxiosInstance} client - The API client
+ * @param {Function} respond - Returns the status, body and headers of a response to a request
+ * @returns {string[]} The URLs requested by the client
+ */
+function mockApi(
+  client: AxiosInstance,
+  respond: (url: string, config: InternalAxiosRequestConfig) => [number, any, Record<string, string>?]
+): string[] {
+  const requested: string[] = [];
+  client.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    const query = config.params ? new URLSearchParams(config.params).toString() : '';
+    const url = `${config.url || ''}${query ? `?${query}` : ''}`;
+    requested.push(url);
+    const [status, data, headers = {}] = respond(url, config);
+    const response = { data, status, statusText: String(status), headers, config };
+    if (config.validateStatus && !config.validateStatus(status)) {
+      throw new AxiosError(`Request failed with status code ${status}`, undefined, config, undefined, response);
+    }
+    return response;
+  };
+  return requested;
+}
+
+/**
+ * Runs the tests
+ */
+async function runTests(): Promise<void> {
+  console.log('Running repository source tests for Archy...\n');
+  
+  try {
+    // Test 1: Rank the files of a repository tree
+    console.log('Test 1: Rank repository files');
+    const blob = (path: string, size: number = 100): TreeEntry => ({ path, type: 'blob', sha: path, size });
+    const entries = [
+      blob('README.md'),
+      blob('scripts/deploy.ts'),
+      blob('src/server/routes/orders.ts'),
+      blob('src/index.ts'),
+      blob('src/index.test.ts'),
+      blob('src/generated/client.ts'),
+      blob('src/types.d.ts'),
+      blob('node_modules/left-pad/index.js'),
+      blob('.github/scripts/release.js'),
+      blob('tests/orders.py'),
+      blob('pkg/store/store.go'),
+      blob('pkg/store/store_test.go'),
+      blob('lib/huge.js', 5000),
+      { path: 'src/server', type: 'tree', sha: 'tree' }
+    ];
+    assert.deepStrictEqual(selectCodeFiles(entries, 10, 100000).map(entry => entry.path), [
+      'lib/huge.js',
+      'src/index.ts',
+      'pkg/store/store.go',
+      'src/server/routes/orders.ts',
+      'scripts/deploy.ts'
+    ]);
+    assert.deepStrictEqual(selectCodeFiles(entries, 2, 100000).map(entry => entry.path), ['lib/huge.js', 'src/index.ts']);
+    // A file larger than the remaining budget is skipped, smaller ones still fit
+    assert.deepStrictEqual(selectCodeFiles(entries, 10, 1000).map(entry => entry.path), [
+      'src/index.ts',
+      'pkg/store/store.go',
+      'src/server/routes/orders.ts',
+      'scripts/deploy.ts'
+    ]);
+    console.log('');
+    
+    // Test 2: Fetch the ranked files of a repository tree
+    console.log('Test 2: Fetch repository files');
+    const client = createGitHubApiClient();
+    const requested = mockApi(client, url => {
+      if (url.endsWith('/repos/acme/shop')) {
+        return [200, { default_branch: 'trunk' }];
+      }
+      if (url.includes('/git/trees/')) {
+        return [200, { tree: [...entries, blob('Dockerfile'), blob('test/Dockerfile')] }];
+      }
+      if (url.endsWith('/git/blobs/src/index.ts')) {
+        return [200, 'export class App {}'];
+      }
+      if (url.endsWith('/git/blobs/lib/huge.js')) {
+        return [200, 'module.exports = {};'];
+      }
+      if (url.includes('/git/blobs/')) {
+        return [200, 'FROM node:20'];
+      }
+      return [200, url.endsWith('/languages') ? { TypeScript: 1000 } : []];
+    });
+    const repoData = await fetchRepositoryData(client, 'acme', 'shop', { maxFiles: 2, concurrency: 2 });
+    assert.ok(requested.includes('https://api.github.com/repos/acme/shop/git/trees/trunk?recursive=1'));
+    assert.deepStrictEqual(repoData.codeFiles, [
+      { path: 'lib/huge.js', content: 'module.exports = {};', language: 'javascript' },
+      { path: 'src/index.ts', content: 'export class App {}', language: 'typescript' }
+    ]);
+    assert.deepStrictEqual(repoData.configFiles, [{ path: 'Dockerfile', content: 'FROM node:20' }]);
+    assert.deepStrictEqual(repoData.languages, { TypeScript: 1000 });
+    console.log('');
+    
+    // Test 3: Target a ref and a directory of a repository
+    console.log('Test 3: Target a ref and a path');
+    assert.deepStrictEqual(parseGitHubUrl('https://github.com/acme/shop'), { owner: 'acme', repo: 'shop', apiBaseUrl: GITHUB_API_BASE_URL });
+    assert.deepStrictEqual(parseGitHubUrl('git@github.com:acme/shop.git'), { owner: 'acme', repo: 'shop', apiBaseUrl: GITHUB_API_BASE_URL });
+    assert.deepStrictEqual(parseGitHubUrl('https://github.com/acme/shop/tree/v2.1/services/api/'), {
+      owner: 'acme',
+      repo: 'shop',
+      apiBaseUrl: GITHUB_API_BASE_URL,
+      ref: 'v2.1',
+      path: 'services/api',
+      refPath: 'v2.1/services/api'
+    });
+    assert.deepStrictEqual(parseGitHubUrl('https://github.com/acme/shop/blob/main/src/index.ts'), {
+      owner: 'acme',
+      repo: 'shop',
+      apiBaseUrl: GITHUB_API_BASE_URL,
+      ref: 'main',
+      path: 'src/index.ts',
+      refPath: 'main/src/index.ts'
+    });
+    assert.throws(() => parseGitHubUrl('acme-shop'), /Invalid GitHub repository URL/);
+    
+    const scopedClient = createGitHubApiClient();
+    const scopedRequests = mockApi(scopedClient, url => [200,
+      url.endsWith('/repos/acme/shop') ? { default_branch: 'main' }
+        : url.includes('/git/trees/') ? { tree: [blob('package.json'), blob('services/api/src/app.ts'), blob('services/web/src/main.ts'), blob('services/api/Dockerfile')] }
+        : url.includes('/git/blobs/') ? `// ${url.substring(url.lastIndexOf('/') + 1)}`
+        : []
+    ]);
+    const scoped = await fetchRepositoryData(scopedClient, 'acme', 'shop', { ref: 'v2.1', path: '/services/api/' });
+    assert.strictEqual(scoped.ref, 'v2.1');
+    assert.strictEqual(scoped.path, 'services/api');
+    assert.ok(scopedRequests.includes('https://api.github.com/repos/acme/shop/contents/services/api?ref=v2.1'));
+    assert.ok(scopedRequests.includes('https://api.github.com/repos/acme/shop/git/trees/v2.1?recursive=1'));
+    assert.deepStrictEqual(scoped.codeFiles.map((file: {path: string}) => file.path), ['services/api/src/app.ts']);
+    // The configuration files of parent directories apply to the targeted path
+    assert.deepStrictEqual(scoped.configFiles.map((file: {path: string}) => file.path), ['package.json', 'services/api/Dockerfile']);
+    console.log('');
+    
+    // Test 4: Cache responses by ETag, retry transient failures and report typed errors
+    console.log('Test 4: ETag caching, retries and typed errors');
+    const cachingClient = createGitHubApiClient('ghp_token');
+    const failures: Record<string, number> = { flaky: 1, throttled: 2 };
+    const cachingRequests = mockApi(cachingClient, (url, config) => {
+      if (url.endsWith('/languages')) {
+        return config.headers['If-None-Match'] === '"v1"' ? [304, ''] : [200, { Go: 10 }, { etag: '"v1"' }];
+      }
+      if (url.endsWith('/flaky') && failures.flaky-- > 0) {
+        return [502, { message: 'Bad Gateway' }];
+      }
+      if (url.endsWith('/throttled') && failures.throttled-- > 0) {
+        return [403, { message: 'You have exceeded a secondary rate limit.' }, { 'retry-after': '0' }];
+      }
+      if (url.endsWith('/exhausted')) {
+        return [403, { message: 'API rate limit exceeded' }, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1798761600' }];
+      }
+      if (url.endsWith('/private')) {
+        return [401, { message: 'Bad credentials' }];
+      }
+      return [200, { ok: true }];
+    });
+    const languagesUrl = 'https://api.github.com/repos/acme/shop/languages';
+    assert.deepStrictEqual((await cachingClient.get(languagesUrl)).data, { Go: 10 });
+    const revalidated = await cachingClient.get(languagesUrl);
+    assert.strictEqual(revalidated.status, 304);
+    assert.deepStrictEqual(revalidated.data, { Go: 10 });
+    
+    assert.deepStrictEqual((await cachingClient.get('https://api.github.com/flaky')).data, { ok: true });
+    assert.deepStrictEqual((await cachingClient.get('https://api.github.com/throttled')).data, { ok: true });
+    assert.strictEqual(cachingRequests.filter(url => url.endsWith('/flaky') || url.endsWith('/throttled')).length, 5);
+    
+    await assert.rejects(cachingClient.get('https://api.github.com/exhausted'), (error: unknown) => {
+      assert.ok(error instanceof RateLimitedError);
+      assert.strictEqual(error.code, 'RateLimited');
+      assert.strictEqual(error.resetAt.toISOString(), '2027-01-01T00:00:00.000Z');
+      return true;
+    });
+    await assert.rejects(cachingClient.get('https://api.github.com/private'), AuthRequiredError);
+    
+    const missingClient = createGitHubApiClient();
+    mockApi(missingClient, url => url.endsWith('/repos/acme/gone') ? [404, { message: 'Not Found' }] : [200, {}]);
+    await assert.rejects(fetchRepositoryData(missingClient, 'acme', 'gone'), (error: unknown) => {
+      assert.ok(error instanceof RepoNotFoundError);
+      assert.match(error.message, /Repository acme\/gone was not found/);
+      return true;
+    });
+    console.log('');
+    
+    // Test 5: Read repositories of GitHub Enterprise Server
+    console.log('Test 5: GitHub Enterprise Server');
+    assert.deepStrictEqual(parseGitHubUrl('https://github.example.com/acme/shop/tree/main/api'), {
+      owner: 'acme',
+      repo: 'shop',
+      apiBaseUrl: 'https://github.example.com/api/v3',
+      ref: 'main',
+      path: 'api',
+      refPath: 'main/api'
+    });
+    assert.strictEqual(parseGitHubUrl('http://git.internal:8080/acme/shop').apiBaseUrl, 'http://git.internal:8080/api/v3');
+    assert.strictEqual(parseGitHubUrl('git@git.internal:acme/shop.git').apiBaseUrl, 'https://git.internal/api/v3');
+    assert.strictEqual(parseGitHubUrl('https://www.github.com/acme/shop').apiBaseUrl, GITHUB_API_BASE_URL);
+    
+    const enterpriseClient = createGitHubApiClient();
+    const enterpriseRequests = mockApi(enterpriseClient, url => [200,
+      url.endsWith('/repos/acme/shop') ? { default_branch: 'main' }
+        : url.includes('/git/trees/') ? { tree: [blob('src/app.ts')] }
+        : url.includes('/git/blobs/') ? 'export class App {}'
+        : []
+    ]);
+    const enterprise = await fetchRepositoryData(enterpriseClient, 'acme', 'shop', { apiBaseUrl: 'https://github.example.com/api/v3/' });
+    assert.deepStrictEqual(enterprise.codeFiles.map((file: {path: string}) => file.path), ['src/app.ts']);
+    assert.ok(enterpriseRequests.every(url => url.startsWith('https://github.example.com/api/v3/repos/acme/shop')));
+    assert.ok(enterpriseRequests.includes('https://github.example.com/api/v3/repos/acme/shop/git/blobs/src/app.ts'));
+    
+    // The configured API only serves repositories on its own host
+    const configured = 'https://github.example.com/api/v3';
+    assert.strictEqual(selectApiBaseUrl(parseGitHubUrl('https://github.com/acme/shop').apiBaseUrl, configured), GITHUB_API_BASE_URL);
+    assert.strictEqual(selectApiBaseUrl(parseGitHubUrl('https://github.example.com/acme/shop').apiBaseUrl, configured), configured);
+    assert.strictEqual(selectApiBaseUrl(parseGitHubUrl('git@github.example.com:acme/shop.git').apiBaseUrl, configured), configured);
+    assert.strictEqual(selectApiBaseUrl(parseGitHubUrl('https://git.internal/acme/shop').apiBaseUrl, configured), 'https://git.internal/api/v3');
+    assert.strictEqual(selectApiBaseUrl(undefined, configured), configured);
+    console.log('');
+    
+    // Test 6: Read repositories of GitLab, Bitbucket and Gitea
+    console.log('Test 6: GitLab, Bitbucket and Gitea');
+    assert.deepStrictEqual(parseGitLabUrl('https://gitlab.com/group/sub/project/-/tree/main/src'), {
+      owner: 'group/sub',
+      repo: 'project',
+      apiBaseUrl: 'https://gitlab.com/api/v4',
+      ref: 'main',
+      path: 'src'
+    });
+    assert.strictEqual(parseGitLabUrl('https://gitlab.example.com/team/app.git').apiBaseUrl, 'https://gitlab.example.com/api/v4');
+    assert.deepStrictEqual(parseBitbucketUrl('https://bitbucket.org/acme/widgets/src/main/app'), {
+      owner: 'acme',
+      repo: 'widgets',
+      apiBaseUrl: 'https://api.bitbucket.org/2.0',
+      ref: 'main',
+      path: 'app'
+    });
+    assert.deepStrictEqual(parseGiteaUrl('https://codeberg.org/acme/widgets/src/branch/main/lib'), {
+      owner: 'acme',
+      repo: 'widgets',
+      apiBaseUrl: 'https://codeberg.org/api/v1',
+      ref: 'main',
+      path: 'lib'
+    });
+    assert.deepStrictEqual([
+      'https://github.com/acme/shop',
+      'git@gitlab.com:acme/shop.git',
+      'https://bitbucket.org/acme/shop',
+      'https://codeberg.org/acme/shop',
+      'https://git.internal/acme/shop'
+    ].map(url => getRepositorySource(url, url.includes('internal') ? 'Gitea' : undefined).provider), ['github', 'gitlab', 'bitbucket', 'gitea', 'gitea']);
+    assert.throws(() => getRepositorySource('https://git.internal/acme/shop'), /Cannot tell the provider of git\.internal/);
+    assert.throws(() => getRepositorySource('https://git.internal/acme/shop', 'svn'), /Unknown repository provider: svn/);
+    
+    const gitlabClient = createGitLabApiClient('glpat_token');
+    const gitlabRequests = mockApi(gitlabClient, (url, config) => {
+      if (url.includes('/repository/tree')) {
+        const page = Number(config.params.page);
+        const items = page === 1
+          ? [{ path: 'api', type: 'tree', id: 't1' }, { path: 'api/server.py', type: 'blob', id: 'b1' }]
+          : [{ path: 'api/Dockerfile', type: 'blob', id: 'b2' }, { path: 'web/app.ts', type: 'blob', id: 'b3' }];
+        return [200, items, page === 1 ? { 'x-next-page': '2' } : {}];
+      }
+      if (url.includes('/repository/blobs/')) {
+        return [200, url.includes('/b1/') ? 'class Server:\n    pass\n' : 'FROM python:3.12'];
+      }
+      return [200, url.endsWith('/languages') ? { Python: 80.5 } : { default_branch: 'main', path_with_namespace: 'group/sub/project', web_url: 'https://gitlab.com/group/sub/project' }];
+    });
+    const gitlab = await fetchGitLabRepositoryData(gitlabClient, 'group/sub', 'project', { path: 'api' });
+    assert.ok(gitlabRequests[0].startsWith('https://gitlab.com/api/v4/projects/group%2Fsub%2Fproject'));
+    assert.strictEqual(gitlabRequests.filter(url => url.includes('/repository/tree')).length, 2);
+    assert.strictEqual(gitlab.info.full_name, 'group/sub/project');
+    assert.deepStrictEqual(gitlab.codeFiles, [{ path: 'api/server.py', content: 'class Server:\n    pass\n', language: 'python' }]);
+    assert.deepStrictEqual(gitlab.configFiles, [{ path: 'api/Dockerfile', content: 'FROM python:3.12' }]);
+    await assert.rejects(fetchGitLabRepositoryData(gitlabClient, 'group/sub', 'project', { path: 'docs' }), RepoNotFoundError);
+    console.log('');
+    
+    // Test 7: Send tokens only to the hosts they were configured for
+    console.log('Test 7: Tokens are only sent to their own host');
+    const tokenClient = createGitHubApiClient('ghp_SECRET', 'https://github.example.com/api/v3');
+    const credentials: Array<string | undefined> = [];
+    mockApi(tokenClient, (url, config) => {
+      credentials.push(config.headers.Authorization as string | undefined);
+      return [200, {}];
+    });
+    for (const url of [
+      'https://api.github.com/repos/acme/shop',
+      'https://github.example.com/api/v3/repos/acme/shop',
+      'https://github.example.com:8443/api/v3/repos/acme/shop',
+      'http://api.github.com/repos/acme/shop',
+      'https://evil.example.com/api/v3/repos/acme/shop'
+    ]) {
+      await tokenClient.get(url);
+    }
+    assert.deepStrictEqual(credentials, ['token ghp_SECRET', 'token ghp_SECRET', undefined, undefined, undefined]);
+    
+    // Without a token for the host, a refusal asks for one instead of blaming the configured token
+    const refusingClient = createGitHubApiClient('ghp_SECRET');
+    mockApi(refusingClient, () => [401, { message: 'Requires authentication' }]);
+    await assert.rejects(refusingClient.get('https://github.example.com/api/v3/repos/acme/shop'), /Set the GITHUB_TOKEN environment variable/);
+    await assert.rejects(refusingClient.get('https://api.github.com/repos/acme/shop'), /The GitHub token was rejected/);
+    console.log('');
+    
+    // Test 8: Tie the tokens of the other providers to their API hosts and cap tree listings
+    console.log('Test 8: Provider tokens and tree listing caps');
+    const providerClients: Array<[AxiosInstance, string]> = [
+      [createGitLabApiClient('glpat_SECRET'), 'https://gitlab.com/api/v4'],
+      [createGitLabApiClient('glpat_SECRET', 'https://git.internal/api/v4'), 'https://git.internal/api/v4'],
+      [createGiteaApiClient('gitea_SECRET'), 'https://codeberg.org/api/v1'],
+      [createGiteaApiClient('gitea_SECRET', 'https://git.internal/api/v1'), 'https://git.internal/api/v1'],
+      [createBitbucketApiClient('bb_SECRET'), 'https://api.bitbucket.org/2.0']
+    ];
+    const providerCredentials: Array<string | undefined> = [];
+    for (const [providerClient, trustedBaseUrl] of providerClients) {
+      mockApi(providerClient, (url, config) => {
+        providerCredentials.push((config.headers.Authorization || config.headers['PRIVATE-TOKEN']) as string | undefined);
+        return [200, {}];
+      });
+      await providerClient.get(`${trustedBaseUrl}/repos/acme/shop`);
+      await providerClient.get('https://gitlab.example.com/api/v4/projects/acme%2Fshop');
+    }
+    assert.deepStrictEqual(providerCredentials, [
+      'glpat_SECRET', undefined,
+      'glpat_SECRET', undefined,
+      'token gitea_SECRET', undefined,
+      'token gitea_SECRET', undefined,
+      'Bearer bb_SECRET', undefined
+    ]);
+    
+    const largeClient = createGitLabApiClient();
+    const largeRequests = mockApi(largeClient, (url, config) => {
+      if (url.includes('/repository/tree')) {
+        const page = Number(config.params.page);
+        return [200, Array.from({ length: 100 }, (_, i) => ({ path: `docs/page${page}-${i}.md`, type: 'blob', id: `${page}-${i}` })), { 'x-next-page': String(page + 1) }];
+      }
+      return [200, { default_branch: 'main', path_with_namespace: 'acme/docs' }];
+    });
+    const warn = console.warn;
+    const warnings: string[] = [];
+    console.warn = (message: string) => warnings.push(message);
+    try {
+      await fetchGitLabRepositoryData(largeClient, 'acme', 'docs');
+    } finally {
+      console.warn = warn;
+    }
+    assert.strictEqual(largeRequests.filter(url => url.includes('/repository/tree')).length, MAX_TREE_ENTRIES / 100);
+    assert.deepStrictEqual(warnings, [`The file tree of acme/docs is too large and was truncated after ${MAX_TREE_ENTRIES} entries`]);
+    console.log('');
+    
+    // Test 9: Split tree URLs where a ref with slashes ends
+    console.log('Test 9: Resolve refs with slashes');
+    const refClient = createGitHubApiClient();
+    const refRequests = mockApi(refClient, url => {
+      if (url.endsWith('/git/matching-refs/heads/release')) {
+        return [200, [{ ref: 'refs/heads/release/2.0' }, { ref: 'refs/heads/release/2.0-rc' }]];
+      }
+      if (url.includes('/git/trees/')) {
+        return [200, { tree: [blob('services/api.ts'), blob('2.0/services/legacy.ts')] }];
+      }
+      if (url.includes('/git/blobs/')) {
+        return [200, 'export class Api {}'];
+      }
+      return [200, url.includes('/matching-refs/') || url.includes('/contents') ? [] : { default_branch: 'main' }];
+    });
+    const { ref, path, refPath } = parseGitHubUrl('https://github.com/acme/mono/tree/release/2.0/services');
+    assert.deepStrictEqual([ref, path, refPath], ['release', '2.0/services', 'release/2.0/services']);
+    const slashRef = await fetchRepositoryData(refClient, 'acme', 'mono', { ref, path, refPath });
+    assert.strictEqual(slashRef.ref, 'release/2.0');
+    assert.strictEqual(slashRef.path, 'services');
+    assert.deepStrictEqual(slashRef.codeFiles.map((file: {path: string}) => file.path), ['services/api.ts']);
+    assert.ok(refRequests.includes('https://api.github.com/repos/acme/mono/git/trees/release%2F2.0?recursive=1'));
+    
+    // Commit SHAs are not looked up among the branches and tags
+    const sha = 'a'.repeat(40);
+    const shaRef = await fetchRepositoryData(refClient, 'acme', 'mono', { refPath: `${sha}/services` });
+    assert.deepStrictEqual([shaRef.ref, shaRef.path], [sha, 'services']);
+    assert.ok(!refRequests.some(url => url.includes(`/matching-refs/heads/${sha}`)));
+    console.log('');
+    
+    // Test 10: Read the owner of a local repository from its remote
+    console.log('Test 10: Local repository owners');
+    const checkout = await mkdtemp(join(tmpdir(), 'archy-'));
+    try {
+      await mkdir(join(checkout, 'src'));
+      await writeFile(join(checkout, 'src', 'index.ts'), 'export {};\n');
+      const localRepoData = await readLocalRepositoryData(checkout);
+      assert.strictEqual(localRepoData.info.owner.login, '');
+      assert.ok(generateRepoFlowchart(localRepoData.info.owner.login, localRepoData.info.name, localRepoData).includes(`    Repo["${basename(checkout)}"]\n`));
+      
+      await mkdir(join(checkout, '.git'));
+      const remotes = (url: string) => `[core]\n\tbare = false\n[remote "upstream"]\n\turl = https://github.com/upstream/shop.git\n[remote "origin"]\n\turl = ${url}\n\tfetch = +refs/heads/*:refs/remotes/origin/*\n`;
+      for (const [url, owner] of [
+        ['git@github.com:acme/shop.git', 'acme'],
+        ['https://gitlab.com/acme/platform/shop.git', 'acme/platform'],
+        ['ssh://git@git.example.com:2222/team/shop', 'team'],
+        ['/srv/git/shop.git', '']
+      ]) {
+        await writeFile(join(checkout, '.git', 'config'), remotes(url));
+        assert.strictEqual((await readLocalRepositoryData(checkout)).info.owner.login, owner, url);
+      }
+    } finally {
+      await rm(checkout, { recursive: true, force: true });
+    }
+    console.log('');
+    
+    console.log('All tests passed!');
+  } catch (error) {
+    console.error('Test failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runTests();